@@ -0,0 +1,323 @@
+/**
+ * Sync server for live collaboration (no dependencies, Node 18+)
+ *
+ * Every room holds one CRDT document (see src/utils/crdt.ts). Clients send their full document
+ * when they connect and the fields they change afterwards; the server merges both into the room
+ * and forwards them to the other clients. Rooms are written to DATA_DIR so they survive restarts.
+ *
+ *   PORT=4455 DATA_DIR=./collab-data node server/sync-server.js
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 4455;
+const DATA_DIR = process.env.DATA_DIR || 'collab-data';
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const SAVE_DELAY_MS = 1000;
+// Largest message a client may send; bigger frames close the connection with 1009 (message too big)
+const MAX_MESSAGE_BYTES = 4 * 1024 * 1024;
+// Presence is relayed to every client of a room, so it is kept small
+const MAX_SELECTION = 1000;
+const MAX_TEXT_LENGTH = 200;
+
+// Same last-writer-wins rule and validation as mergeCrdtDoc in src/utils/crdt.ts
+const compareClocks = (a, b) => (a[0] !== b[0] ? a[0] - b[0] : a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+// Keys that would reach Object.prototype, as ids, fields or data keys ("data.__proto__")
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+const isSafeKey = key => !UNSAFE_KEYS.has(key.startsWith('data.') ? key.slice('data.'.length) : key);
+
+const isPlainObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRegister = register =>
+    isPlainObject(register) &&
+    Array.isArray(register.clock) &&
+    Number.isFinite(register.clock[0]) &&
+    typeof register.clock[1] === 'string';
+
+const isValidDoc = doc =>
+    isPlainObject(doc) &&
+    ['nodes', 'edges'].every(kind =>
+        isPlainObject(doc[kind]) &&
+        Object.entries(doc[kind]).every(([id, fields]) =>
+            isSafeKey(id) &&
+            isPlainObject(fields) &&
+            Object.entries(fields).every(([field, register]) => isSafeKey(field) && isRegister(register))
+        )
+    );
+
+const isShortString = value => typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+
+const isValidPeer = peer =>
+    isPlainObject(peer) && isShortString(peer.id) && isShortString(peer.name) && isShortString(peer.color);
+
+const isValidPresence = message =>
+    (message.cursor == null || (isPlainObject(message.cursor) && Number.isFinite(message.cursor.x) && Number.isFinite(message.cursor.y))) &&
+    (message.selection == null ||
+        (Array.isArray(message.selection) && message.selection.length <= MAX_SELECTION && message.selection.every(isShortString)));
+
+// Null-prototype maps, so no id or field name can collide with an inherited property
+const createDoc = () => ({ nodes: Object.create(null), edges: Object.create(null) });
+
+// `incoming` must have passed isValidDoc
+const mergeDoc = (doc, incoming) => {
+    for (const kind of ['nodes', 'edges']) {
+        for (const [id, fields] of Object.entries(incoming[kind])) {
+            const entry = doc[kind][id] ?? (doc[kind][id] = Object.create(null));
+            for (const [field, register] of Object.entries(fields)) {
+                const current = entry[field];
+                if (!current || compareClocks(register.clock, current.clock) > 0) entry[field] = register;
+            }
+        }
+    }
+};
+
+// Rooms
+
+const rooms = new Map();
+
+const getRoomFile = name => join(DATA_DIR, `${encodeURIComponent(name)}.json`);
+
+const getRoom = name => {
+    let room = rooms.get(name);
+    if (!room) {
+        const doc = createDoc();
+        try {
+            if (existsSync(getRoomFile(name))) {
+                const saved = JSON.parse(readFileSync(getRoomFile(name), 'utf8'));
+                if (!isValidDoc(saved)) throw new Error('Invalid document');
+                mergeDoc(doc, saved);
+            }
+        } catch (error) {
+            console.error(`Error loading room "${name}":`, error);
+        }
+        room = { name, doc, clients: new Set(), saveTimeout: null };
+        rooms.set(name, room);
+    }
+    return room;
+};
+
+// Returns whether the room is on disk
+const saveRoom = room => {
+    clearTimeout(room.saveTimeout);
+    room.saveTimeout = null;
+    try {
+        mkdirSync(DATA_DIR, { recursive: true });
+        writeFileSync(getRoomFile(room.name), JSON.stringify(room.doc));
+        return true;
+    } catch (error) {
+        console.error(`Error saving room "${room.name}":`, error);
+        return false;
+    }
+};
+
+const scheduleSave = room => {
+    clearTimeout(room.saveTimeout);
+    room.saveTimeout = setTimeout(() => saveRoom(room), SAVE_DELAY_MS);
+};
+
+// Empty rooms are saved and dropped from memory; the next client loads them from disk again
+const releaseRoom = room => {
+    if (room.clients.size > 0 || rooms.get(room.name) !== room) return;
+    if (room.saveTimeout && !saveRoom(room)) return;
+    rooms.delete(room.name);
+};
+
+const broadcast = (room, message, except) => {
+    const text = JSON.stringify(message);
+    room.clients.forEach(client => {
+        if (client !== except && client.peer) client.send(text);
+    });
+};
+
+// WebSocket framing (RFC 6455): text, close and ping frames are all a collaboration session needs
+
+const encodeFrame = (opcode, payload) => {
+    const length = payload.length;
+    const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 65536) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+const createClient = (socket, room) => {
+    let buffer = Buffer.alloc(0);
+    let fragments = [];
+    let fragmentBytes = 0;
+    let closed = false;
+
+    const client = {
+        peer: null,
+        presence: { cursor: null, selection: [] },
+        send: text => {
+            if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(text)));
+        },
+    };
+
+    const handleMessage = text => {
+        let message;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            return;
+        }
+        // Messages that would corrupt the room are dropped
+        if (!isPlainObject(message)) return;
+        if ((message.type === 'hello' || message.type === 'update') && !isValidDoc(message.doc)) return;
+        if (message.type === 'hello' && !isValidPeer(message.peer)) return;
+        if (message.type === 'presence' && !isValidPresence(message)) return;
+
+        if (message.type === 'hello') {
+            client.peer = { id: message.peer.id, name: message.peer.name, color: message.peer.color };
+            mergeDoc(room.doc, message.doc);
+            scheduleSave(room);
+            const peers = [...room.clients]
+                .filter(other => other !== client && other.peer)
+                .map(other => ({ ...other.peer, ...other.presence }));
+            client.send(JSON.stringify({ type: 'welcome', doc: room.doc, peers }));
+            // The others get whatever the newcomer brought (offline edits included)
+            broadcast(room, { type: 'update', doc: message.doc }, client);
+            broadcast(room, { type: 'presence', peer: { ...client.peer, ...client.presence } }, client);
+        } else if (message.type === 'update' && client.peer) {
+            mergeDoc(room.doc, message.doc);
+            scheduleSave(room);
+            broadcast(room, { type: 'update', doc: message.doc }, client);
+        } else if (message.type === 'presence' && client.peer) {
+            client.presence = {
+                cursor: message.cursor ? { x: message.cursor.x, y: message.cursor.y } : null,
+                selection: message.selection ?? [],
+            };
+            broadcast(room, { type: 'presence', peer: { ...client.peer, ...client.presence } }, client);
+        }
+    };
+
+    const closeWithStatus = status => {
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(status);
+        closed = true;
+        buffer = Buffer.alloc(0);
+        fragments = [];
+        socket.end(encodeFrame(0x8, payload), () => socket.destroy());
+    };
+
+    const handleFrames = () => {
+        while (!closed && buffer.length >= 2) {
+            const opcode = buffer[0] & 0x0f;
+            const fin = (buffer[0] & 0x80) !== 0;
+            const masked = (buffer[1] & 0x80) !== 0;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) return;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (length > MAX_MESSAGE_BYTES || fragmentBytes + length > MAX_MESSAGE_BYTES) {
+                closeWithStatus(1009);
+                return;
+            }
+            const maskOffset = offset;
+            if (masked) offset += 4;
+            if (buffer.length < offset + length) return;
+
+            const payload = Buffer.from(buffer.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+            }
+            buffer = buffer.subarray(offset + length);
+
+            if (opcode === 0x8) {
+                socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+                return;
+            }
+            if (opcode === 0x9) {
+                socket.write(encodeFrame(0xa, payload));
+                continue;
+            }
+            if (opcode === 0x1 || opcode === 0x0) {
+                fragments.push(payload);
+                fragmentBytes += payload.length;
+                if (fin) {
+                    const text = Buffer.concat(fragments).toString('utf8');
+                    fragments = [];
+                    fragmentBytes = 0;
+                    try {
+                        handleMessage(text);
+                    } catch (error) {
+                        console.error(`Error handling a message in room "${room.name}":`, error);
+                    }
+                }
+            }
+        }
+    };
+
+    socket.on('data', chunk => {
+        if (closed) return;
+        buffer = Buffer.concat([buffer, chunk]);
+        handleFrames();
+    });
+    socket.on('close', () => {
+        room.clients.delete(client);
+        if (client.peer) broadcast(room, { type: 'leave', peerId: client.peer.id });
+        releaseRoom(room);
+    });
+    socket.on('end', () => socket.end());
+    socket.on('error', () => socket.destroy());
+
+    return client;
+};
+
+const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/plain' });
+    response.end(`Flowchart sync server: ${rooms.size} room(s) open\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+    const rejectUpgrade = () => {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n', () => socket.destroy());
+    };
+    const key = request.headers['sec-websocket-key'];
+    if (!key || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+        rejectUpgrade();
+        return;
+    }
+    let name;
+    try {
+        name = decodeURIComponent(new URL(request.url, 'http://localhost').pathname.slice(1)) || 'default';
+    } catch {
+        // Malformed escapes in the room path (e.g. "%E0%A4%A")
+        rejectUpgrade();
+        return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '\r\n',
+    ].join('\r\n'));
+    socket.setNoDelay(true);
+
+    const room = getRoom(name);
+    room.clients.add(createClient(socket, room));
+});
+
+server.listen(PORT, () => {
+    console.log(`Flowchart sync server listening on ws://0.0.0.0:${PORT} (rooms stored in ${DATA_DIR})`);
+});
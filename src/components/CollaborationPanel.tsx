@@ -0,0 +1,127 @@
+import { Node, ViewportPortal, useStore } from '@xyflow/react';
+import { LogOut, MousePointer2, Users, X } from 'lucide-react';
+import { CollabPeer, CollabPeerState, CollabStatus } from '../utils/collab';
+import { getAbsolutePosition } from '../utils/groups';
+import { getNodeSize } from '../utils/layout';
+import './CollaborationPanel.css';
+
+/**
+ * A joined live session: the page it shares and who else is in it
+ */
+export interface CollabSession {
+    url: string;
+    room: string;
+    pageId: string;
+    self: CollabPeer;
+    status: CollabStatus;
+    peers: Record<string, CollabPeerState>;
+}
+
+const STATUS_TEXT: Record<CollabStatus, string> = {
+    connecting: 'Connecting…',
+    online: 'Live',
+    offline: 'Offline, changes are kept and merged on reconnect',
+};
+
+interface CollaborationPanelProps {
+    session: CollabSession;
+    pageName: string;
+    isPageActive: boolean;
+    onLeave: () => void;
+    onClose: () => void;
+}
+
+export const CollaborationPanel = ({ session, pageName, isPageActive, onLeave, onClose }: CollaborationPanelProps) => {
+    const peers = Object.values(session.peers);
+
+    return (
+        <div className="collab-panel">
+            <div className="collab-header">
+                <h3 className="gradient-text">Live Session</h3>
+                <span className={`collab-status ${session.status}`} title={STATUS_TEXT[session.status]}>
+                    <span className="collab-status-dot" />
+                    {session.status === 'offline' ? 'Offline' : STATUS_TEXT[session.status]}
+                </span>
+                <button className="collab-close" onClick={onClose} title="Hide (the session continues)">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <div className="collab-room">
+                Room <strong>{session.room}</strong> · page <strong>{pageName}</strong>
+            </div>
+            {session.status === 'offline' && <div className="collab-note">{STATUS_TEXT.offline}</div>}
+            {!isPageActive && <div className="collab-note">Switch to "{pageName}" to see live changes.</div>}
+
+            <ul className="collab-people">
+                <li>
+                    <span className="collab-swatch" style={{ background: session.self.color }} />
+                    <span>{session.self.name}</span>
+                    <span className="collab-you">you</span>
+                </li>
+                {peers.map(peer => (
+                    <li key={peer.id}>
+                        <span className="collab-swatch" style={{ background: peer.color }} />
+                        <span>{peer.name}</span>
+                        {peer.selection.length > 0 && (
+                            <span className="collab-selection">{peer.selection.length} selected</span>
+                        )}
+                    </li>
+                ))}
+                {peers.length === 0 && (
+                    <li className="collab-alone">
+                        <Users size={14} />
+                        <span>Nobody else here yet</span>
+                    </li>
+                )}
+            </ul>
+
+            <div className="collab-actions">
+                <button onClick={onLeave} title="Leave the session (the page keeps its current content)">
+                    <LogOut size={14} />
+                    <span>Leave</span>
+                </button>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Cursors and selections of the other collaborators, drawn in flow coordinates
+ */
+export const CollaboratorOverlay = ({ peers, nodes }: { peers: CollabPeerState[]; nodes: Node[] }) => {
+    const zoom = useStore(state => state.transform[2]);
+
+    return (
+        <ViewportPortal>
+            {peers.map(peer => peer.selection.map(id => {
+                const node = nodes.find(n => n.id === id);
+                if (!node) return null;
+                const position = getAbsolutePosition(node, nodes);
+                const size = getNodeSize(node);
+                return (
+                    <div
+                        key={`${peer.id}:${id}`}
+                        className="collab-selection-box"
+                        style={{
+                            transform: `translate(${position.x - 4}px, ${position.y - 4}px)`,
+                            width: size.width + 8,
+                            height: size.height + 8,
+                            borderColor: peer.color,
+                        }}
+                    />
+                );
+            }))}
+            {peers.filter(peer => peer.cursor).map(peer => (
+                <div
+                    key={peer.id}
+                    className="collab-cursor"
+                    style={{ transform: `translate(${peer.cursor!.x}px, ${peer.cursor!.y}px) scale(${1 / zoom})`, color: peer.color }}
+                >
+                    <MousePointer2 size={18} fill={peer.color} />
+                    <span className="collab-cursor-name" style={{ background: peer.color }}>{peer.name}</span>
+                </div>
+            ))}
+        </ViewportPortal>
+    );
+};
@@ -0,0 +1,130 @@
+import { useMemo, useState } from 'react';
+import { Edge, Node } from '@xyflow/react';
+import { ReplaceAll, X } from 'lucide-react';
+import { findTextMatches, ReplaceOptions, TextMatch, REPLACE_FIELD_NAMES } from '../utils/replace';
+import './FindReplacePanel.css';
+
+// Characters of context shown around a match in the preview
+const CONTEXT_BEFORE = 18;
+const CONTEXT_AFTER = 28;
+
+interface FindReplacePanelProps {
+    nodes: Node[];
+    edges: Edge[];
+    initialFind?: string;
+    onReplace: (matches: TextMatch[], replacement: string) => void;
+    onSelect: (match: TextMatch) => void;
+    onClose: () => void;
+}
+
+const MatchPreview = ({ match, replacement }: { match: TextMatch; replacement: string }) => {
+    const before = match.text.slice(0, match.start);
+    const after = match.text.slice(match.end);
+    return (
+        <span className="replace-snippet">
+            {before.length > CONTEXT_BEFORE ? `…${before.slice(-CONTEXT_BEFORE)}` : before}
+            <del>{match.text.slice(match.start, match.end)}</del>
+            {replacement && <ins>{replacement}</ins>}
+            {after.length > CONTEXT_AFTER ? `${after.slice(0, CONTEXT_AFTER)}…` : after}
+        </span>
+    );
+};
+
+/**
+ * Find and replace in node labels, descriptions and edge labels of the current page
+ */
+export const FindReplacePanel = ({ nodes, edges, initialFind = '', onReplace, onSelect, onClose }: FindReplacePanelProps) => {
+    const [find, setFind] = useState(initialFind);
+    const [replacement, setReplacement] = useState('');
+    const [options, setOptions] = useState<ReplaceOptions>({ caseSensitive: false, wholeWord: false });
+
+    const matches = useMemo(() => findTextMatches(nodes, edges, find, options), [nodes, edges, find, options]);
+    const itemCount = new Set(matches.map(match => match.itemId)).size;
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div className="replace-panel">
+            <div className="replace-header">
+                <h3 className="gradient-text">Find & Replace</h3>
+                {find && (
+                    <span className="replace-count">
+                        {matches.length === 0
+                            ? 'No matches'
+                            : `${matches.length} ${matches.length === 1 ? 'match' : 'matches'} in ${itemCount} ${itemCount === 1 ? 'item' : 'items'}`}
+                    </span>
+                )}
+                <button className="replace-close" onClick={onClose} title="Close">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <div className="replace-fields">
+                <div className="replace-input-row">
+                    <input
+                        type="text"
+                        value={find}
+                        onChange={e => setFind(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Find"
+                        spellCheck={false}
+                        autoFocus
+                    />
+                    <button
+                        className={`replace-toggle ${options.caseSensitive ? 'active' : ''}`}
+                        onClick={() => setOptions(prev => ({ ...prev, caseSensitive: !prev.caseSensitive }))}
+                        title="Match case"
+                    >
+                        Aa
+                    </button>
+                    <button
+                        className={`replace-toggle ${options.wholeWord ? 'active' : ''}`}
+                        onClick={() => setOptions(prev => ({ ...prev, wholeWord: !prev.wholeWord }))}
+                        title="Match whole word"
+                    >
+                        <u>ab</u>
+                    </button>
+                </div>
+                <div className="replace-input-row">
+                    <input
+                        type="text"
+                        value={replacement}
+                        onChange={e => setReplacement(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Replace with"
+                        spellCheck={false}
+                    />
+                </div>
+            </div>
+
+            {matches.length > 0 && (
+                <ul className="replace-list">
+                    {matches.map(match => (
+                        <li key={match.id} className="replace-item">
+                            <button className="replace-item-main" onClick={() => onSelect(match)} title="Show on canvas">
+                                <span className="replace-field">{REPLACE_FIELD_NAMES[match.field]}</span>
+                                <MatchPreview match={match} replacement={replacement} />
+                            </button>
+                            <button className="replace-one" onClick={() => onReplace([match], replacement)} title="Replace this match">
+                                Replace
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="replace-actions">
+                <span className="replace-hint">Applies to this page; Ctrl+Z undoes a Replace All in one step.</span>
+                <button onClick={() => onReplace(matches, replacement)} disabled={matches.length === 0}>
+                    <ReplaceAll size={14} />
+                    <span>Replace All</span>
+                </button>
+            </div>
+        </div>
+    );
+};
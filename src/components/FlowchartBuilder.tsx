@@ -1,42 +1,89 @@
-import { useCallback, useRef, useState, useEffect } from 'react';
+import { useCallback, useRef, useState, useEffect, useMemo } from 'react';
 import {
     ReactFlow,
     Background,
     Controls,
     MiniMap,
     addEdge,
+    applyNodeChanges,
     useNodesState,
     useEdgesState,
     Connection,
     Panel,
     BackgroundVariant,
     Node,
+    NodeChange,
     Edge,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import { Download, Save, FolderOpen, FileText, Copy, CheckCircle, ChevronDown } from 'lucide-react';
+import { Download, Save, FolderOpen, FileText, Copy, CheckCircle, ChevronDown, Upload, Play, ShieldCheck, Code, FileCode, FileImage, Layers, ChevronRight, ArrowLeftRight, History, GitBranch, GitMerge, Users, Link, GitFork, Eye, Globe, LayoutTemplate, Search, Replace } from 'lucide-react';
 
 import { Sidebar } from './Sidebar';
+import { PageTabs } from './PageTabs';
+import { SimulationPanel } from './SimulationPanel';
+import { ValidationPanel } from './ValidationPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { VersionsPanel } from './VersionsPanel';
+import { MergePanel, MergeSession } from './MergePanel';
+import { FlowchartViewer } from './FlowchartViewer';
+import { TemplateGallery } from './TemplateGallery';
+import { SearchBar } from './SearchBar';
+import { FindReplacePanel } from './FindReplacePanel';
+import { CollaborationPanel, CollaboratorOverlay, CollabSession } from './CollaborationPanel';
 import { nodeTypes } from './nodes/CustomNodes';
-import { exportAsImage, exportAsText, copyMermaidToClipboard, saveProject, loadProject } from '../utils/export';
+import { exportAsImage, exportAsText, createFlowNodes, createFlowEdges, exportAsMermaid, copyMermaidToClipboard, saveProject, loadProject, exportAsCode, createProject, createProjectPage, getDefaultSize, DEFAULT_NODE_COLORS, MermaidDirection, FlowchartProjectNode, FlowchartProjectEdge, FlowchartProjectPage, FlowchartProject, FlowchartPage } from '../utils/export';
+import { getAnnotationEdgeStyling, getEdgeStyling, getEdgeColor, getImpliedLabel, getEdgeAppearance, applyEdgeAppearance, EdgeAppearance, EDGE_PATH_TYPES, ARROWHEAD_STYLES } from '../utils/edgeStyle';
+import { computeAutoLayout, getNodeSize, LayoutDirection } from '../utils/layout';
+import { isMermaidFlowchart, parseMermaid } from '../utils/mermaid';
+import { generateCode, CodeLanguage, CODE_LANGUAGES } from '../utils/codegen';
+import { parseSourceCode, SourceLanguage } from '../utils/codeimport';
+import { exportAsSvg, exportAsPdf, getThemeBackground, ExportBackground, PdfPageMode } from '../utils/vectorExport';
+import { exportAsHtml } from '../utils/htmlExport';
+import { getNodeColor, isSearchActive, searchNodes, EMPTY_SEARCH_QUERY, NodeSearchQuery, NODE_TYPE_NAMES } from '../utils/search';
+import { replaceTextMatches, TextMatch } from '../utils/replace';
+import { createTemplate, deleteTemplate, exportTemplates, loadTemplates, readTemplateFile, storeTemplate, FlowchartTemplate } from '../utils/templates';
+import { validateFlowchart, Diagnostic } from '../utils/validation';
+import { getSubprocessReference, inlineSubprocesses, SubprocessReference, SubprocessMode } from '../utils/subprocess';
+import { getAbsolutePosition, isContainerNode, placeInContainer, reparentNodes, sortContainersFirst, withDescendants, LaneOrientation } from '../utils/groups';
+import { createSwitchCase, createSwitchCases, getCaseHandleId, getCaseIdFromHandle, getSwitchCases, getSwitchSize, SwitchCase, DEFAULT_SWITCH_CASES } from '../utils/switchCases';
+import { createClipboardPayload, readClipboardPayload, getClipboardBounds, remapClipboardContent, ClipboardPayload, CLIPBOARD_MIME_TYPE } from '../utils/clipboard';
+import { countOf, createHistoryCommand, createHistorySnapshot, getHistoryChecksum, recordHistoryCommand, restoreHistoryNode, travelHistory, HistorySnapshot, PageHistory, EMPTY_HISTORY } from '../utils/history';
+import { idbGet, idbSet } from '../utils/idb';
+import { createShareLink, isShareLink, readShareLink } from '../utils/share';
+import { connectCollaboration, createPeerId, getDefaultCollabUrl, getPeerColor, CollabConnection, CollabPresence } from '../utils/collab';
+import { createCrdtReplica, isCrdtDocEmpty, mergeCrdtDoc, readCrdtDoc, updateCrdtDoc, CrdtReplica } from '../utils/crdt';
+import { mergeProjects, MergeConflict, MergeSide } from '../utils/merge';
+import { createVersion, deleteVersion, diffPages, isSameContent, loadVersions, storeVersion, FlowchartVersion, DEFAULT_BRANCH } from '../utils/versions';
+import { startSimulation, stepSimulation, parseSimulationAnswers, SimulationState, SimulationBranch } from '../utils/simulator';
 import './FlowchartBuilder.css';
 
-const APP_VERSION = 'v1.2.17';
+const APP_VERSION = 'v1.2.42';
 const STORAGE_KEY = 'flowchart-autosave';
-
-// Default colors for each node type
-const DEFAULT_NODE_COLORS: Record<string, string> = {
-    start: '#10b981',
-    end: '#ef4444',
-    execution: '#3b82f6',
-    condition: '#f59e0b',
-};
+// IndexedDB record holding the undo history of the autosaved pages
+const HISTORY_STORAGE_KEY = 'autosave';
+// Server, room and name last used for a live session
+const COLLAB_STORAGE_KEY = 'flowchart-collab';
+// Cursor positions are sent at most this often
+const PRESENCE_INTERVAL_MS = 50;
+// Ghost copies of nodes and edges that a compared version has but the chart no longer does
+const REMOVED_ID_PREFIX = 'diff-removed:';
+
+/**
+ * Stored undo history of one page, with the checksum of the page content it leads to
+ */
+interface StoredPageHistory {
+    checksum: string;
+    history: PageHistory;
+}
 
 // Custom node data interface
 interface FlowchartNodeData extends Record<string, unknown> {
     label: string;
     color?: string;
     description?: string;
+    subprocess?: SubprocessReference;
+    orientation?: LaneOrientation;
+    cases?: SwitchCase[];
     onChange?: (id: string, newLabel: string) => void;
     onOpenSettings?: (id: string) => void;
 }
@@ -58,8 +105,82 @@ interface InspectorState {
     targetNode?: string;
 }
 
+// Location left when drilling into a sub-process; `project` is set when the drill-down opened another file
+interface SubprocessCrumb {
+    pageId: string;
+    name: string;
+    fileName: string | null;
+    project?: FlowchartProject;
+}
+
 let nodeId = 0;
-const getNodeId = () => `node_${nodeId++}`;
+// Set while in a live session so that collaborators never create the same node ID
+let nodeIdPrefix = '';
+const getNodeId = () => `node_${nodeIdPrefix}${nodeId++}`;
+
+let pageId = 2;
+const getPageId = () => `page_${pageId++}`;
+
+// Next free page number after loading pages with `page_N` IDs
+const getNextPageNumber = (pages: { id: string }[]) =>
+    Math.max(...pages.map(p => parseInt(p.id.match(/page_(\d+)/)?.[1] || '0', 10)), 0) + 1;
+
+// Pages of the autosaved project (an autosave from before pages existed becomes one page)
+const readAutosave = (): { data: Record<string, unknown>; pages: FlowchartProjectPage[] } => {
+    try {
+        const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        if (data.pages?.length > 0) return { data, pages: data.pages };
+        if (data.nodes?.length > 0) {
+            return { data, pages: [createProjectPage({ id: 'page_1', name: 'Page 1', nodes: data.nodes, edges: data.edges || [] })] };
+        }
+        return { data, pages: [] };
+    } catch (error) {
+        console.error('Error loading autosave:', error);
+        return { data: {}, pages: [] };
+    }
+};
+
+// Drop a share link from the address bar and start over with the user's own charts
+const leaveShareLink = () => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    window.location.reload();
+};
+
+// Copy of a list with one item moved to another index
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+    const result = [...items];
+    const [item] = result.splice(from, 1);
+    result.splice(to, 0, item);
+    return result;
+};
+
+// Copy of a list where the items with the given IDs are replaced (in place where possible) by `replacements`
+const replaceItems = <T extends { id: string },>(items: T[], ids: string[], replacements: T[]): T[] => {
+    const byId = new Map(replacements.map(item => [item.id, item]));
+    const kept = items.filter(item => !ids.includes(item.id) || byId.has(item.id)).map(item => byId.get(item.id) ?? item);
+    const present = new Set(kept.map(item => item.id));
+    return [...kept, ...replacements.filter(item => !present.has(item.id))];
+};
+
+// Undo step names of inspector edits; repeated edits of one property (typing, dragging a slider) become one step
+const NODE_PROPERTY_LABELS: Record<'label' | 'color' | 'description', string> = {
+    label: 'Edit label',
+    color: 'Change color',
+    description: 'Edit description',
+};
+
+const EDGE_APPEARANCE_LABELS: Record<keyof EdgeAppearance, string> = {
+    label: 'Edit edge label',
+    pathType: 'Change edge path',
+    color: 'Change edge color',
+    strokeWidth: 'Change edge width',
+    dashed: 'Change edge dashes',
+    animated: 'Change edge animation',
+    arrowhead: 'Change arrowhead',
+};
+
+// Inputs of a three-way merge
+type MergeInputName = 'base' | 'ours' | 'theirs';
 
 interface FlowchartBuilderProps {
     externalShowHelp?: boolean;
@@ -69,6 +190,14 @@ interface FlowchartBuilderProps {
 export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBuilderProps = {}) => {
     const reactFlowWrapper = useRef<HTMLDivElement>(null);
     const projectFileInputRef = useRef<HTMLInputElement>(null);
+    const mermaidFileInputRef = useRef<HTMLInputElement>(null);
+    const sourceFileInputRef = useRef<HTMLInputElement>(null);
+    const subprocessLinkInputRef = useRef<HTMLInputElement>(null);
+    const subprocessOpenInputRef = useRef<HTMLInputElement>(null);
+    // Last pointer position over the canvas (paste target)
+    const pointerRef = useRef<{ x: number; y: number } | null>(null);
+    // Last copy, for browsers that only keep the plain text part of the clipboard
+    const clipboardRef = useRef<{ payload: ClipboardPayload; text: string } | null>(null);
     const [nodes, setNodes, onNodesChange] = useNodesState<FlowchartNode>([]);
     const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
     const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
@@ -77,6 +206,32 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
     const [isInitialLoad, setIsInitialLoad] = useState(true);
     const [isControlsOpen, setIsControlsOpen] = useState(false);
     const [showHelp, setShowHelp] = useState(false);
+    const [showMermaidImport, setShowMermaidImport] = useState(false);
+    const [mermaidImportText, setMermaidImportText] = useState('');
+    const [mermaidDirection, setMermaidDirection] = useState<MermaidDirection>('TB');
+    const [simulation, setSimulation] = useState<SimulationState | null>(null);
+    const [simulationAnswers, setSimulationAnswers] = useState('');
+    const [showValidation, setShowValidation] = useState(false);
+    const [showCode, setShowCode] = useState(false);
+    const [codeLanguage, setCodeLanguage] = useState<CodeLanguage>('pseudocode');
+    const [codeCopySuccess, setCodeCopySuccess] = useState(false);
+    const [showSourceImport, setShowSourceImport] = useState(false);
+    const [sourceImportText, setSourceImportText] = useState('');
+    const [sourceImportLanguage, setSourceImportLanguage] = useState<SourceLanguage | 'auto'>('auto');
+    const [isLayoutPending, setIsLayoutPending] = useState(false);
+    const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('TB');
+    const [layoutSelectionOnly, setLayoutSelectionOnly] = useState(false);
+    const [showVectorExport, setShowVectorExport] = useState(false);
+    const [vectorFormat, setVectorFormat] = useState<'svg' | 'pdf'>('svg');
+    const [exportBackground, setExportBackground] = useState<ExportBackground>('theme');
+    const [exportSelectionOnly, setExportSelectionOnly] = useState(false);
+    const [pdfPageMode, setPdfPageMode] = useState<PdfPageMode>('single');
+    const [subprocessMode, setSubprocessMode] = useState<SubprocessMode>('reference');
+    const [breadcrumbs, setBreadcrumbs] = useState<SubprocessCrumb[]>([]);
+    const [projectFileName, setProjectFileName] = useState<string | null>(null);
+    // Chart opened from a share link: shown read-only until forked, the user's own charts stay untouched
+    const [sharedChart, setSharedChart] = useState<FlowchartProject | null>(null);
+    const [shareLinkCopied, setShareLinkCopied] = useState(false);
 
     // Sync external help state
     useEffect(() => {
@@ -111,36 +266,182 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
         description: false,
     });
 
-    // Undo/Redo history management
-    const historyRef = useRef<{ nodes: FlowchartNode[]; edges: Edge[] }[]>([]);
-    const historyIndexRef = useRef(-1);
-    const isUndoRedoActionRef = useRef(false);
-    const isDraggingRef = useRef(false);
-    const historyTimeoutRef = useRef<number | null>(null);
-    const MAX_HISTORY = 50;
+    // Undo/Redo history: commands of the active page, each recorded by the action that made it
+    const [history, setHistory] = useState<PageHistory>(EMPTY_HISTORY);
+    const [showHistory, setShowHistory] = useState(false);
+    const historySaveTimeoutRef = useRef<number | null>(null);
+    // Latest canvas, ahead of the rendered one when several changes land before the next render
+    const canvasRef = useRef({ nodes, edges });
+    canvasRef.current = { nodes, edges };
+    // Nodes as they were when the current drag or resize started (null when none is in progress)
+    const gestureStartRef = useRef<Map<string, FlowchartNode> | null>(null);
+
+    // Apply an action to the canvas and record it as one undo step named `label`.
+    // `options.start` gives the earlier versions of nodes a drag or resize already moved on the canvas.
+    const commitChange = useCallback((
+        label: string,
+        next: { nodes?: FlowchartNode[]; edges?: Edge[] },
+        options: { mergeKey?: string; start?: Map<string, FlowchartNode> } = {}
+    ) => {
+        const current = canvasRef.current;
+        const result = { nodes: next.nodes ?? current.nodes, edges: next.edges ?? current.edges };
+        const start = options.start;
+        const before = createHistorySnapshot(start ? current.nodes.map(n => start.get(n.id) ?? n) : current.nodes, current.edges);
+        const command = createHistoryCommand(before, createHistorySnapshot(result.nodes, result.edges), label, options.mergeKey);
+
+        canvasRef.current = result;
+        if (command) setHistory(prev => recordHistoryCommand(prev, command));
+        if (next.nodes) setNodes(next.nodes);
+        if (next.edges) setEdges(next.edges);
+    }, [setNodes, setEdges]);
+
+    // Callbacks given to every node (typing into a node's label)
+    const labelHandlers = useMemo(() => ({
+        onChange: (nodeId: string, newLabel: string) => {
+            commitChange('Edit label', {
+                nodes: canvasRef.current.nodes.map(node =>
+                    node.id === nodeId
+                        ? { ...node, data: { ...node.data, label: newLabel } }
+                        : node
+                ),
+            }, { mergeKey: `label:${nodeId}` });
+        },
+    }), [commitChange]);
+
+    // Local versions recorded on save; the next save continues `headVersionId` on `versionBranch`
+    const [versions, setVersions] = useState<FlowchartVersion[]>([]);
+    const [showVersions, setShowVersions] = useState(false);
+    const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+    const [versionBranch, setVersionBranch] = useState(DEFAULT_BRANCH);
+    const [headVersionId, setHeadVersionId] = useState<string | null>(null);
+
+    // Three-way merge: chosen files (mine defaults to the current chart), then the conflicts left to resolve
+    const [showMerge, setShowMerge] = useState(false);
+    const [mergeInputs, setMergeInputs] = useState<Record<MergeInputName, { fileName: string; project: FlowchartProject } | null>>({ base: null, ours: null, theirs: null });
+    const [mergeUseCurrent, setMergeUseCurrent] = useState(true);
+    const [mergeSession, setMergeSession] = useState<MergeSession | null>(null);
+    const mergeFileInputRef = useRef<HTMLInputElement>(null);
+    const mergeFileTargetRef = useRef<MergeInputName>('base');
+
+    // Saved templates (built-ins come from utils/templates)
+    const [templates, setTemplates] = useState<FlowchartTemplate[]>([]);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const templateFileInputRef = useRef<HTMLInputElement>(null);
+
+    // Node search (Ctrl+F); `searchCurrentId` is the match last centered on the canvas
+    const [showSearch, setShowSearch] = useState(false);
+    const [searchQuery, setSearchQuery] = useState<NodeSearchQuery>(EMPTY_SEARCH_QUERY);
+    const [searchCurrentId, setSearchCurrentId] = useState<string | null>(null);
+    const [searchFocus, setSearchFocus] = useState(0);
+    const [showReplace, setShowReplace] = useState(false);
+
+    // Live session: the page is mirrored into a CRDT replica that is synced through the server.
+    // `collabRevision` bumps when remote changes arrive, so they are applied with the current canvas state.
+    const [collabSession, setCollabSession] = useState<CollabSession | null>(null);
+    const [showCollabJoin, setShowCollabJoin] = useState(false);
+    const [showCollabPanel, setShowCollabPanel] = useState(false);
+    const [collabForm, setCollabForm] = useState(() => {
+        const saved = JSON.parse(localStorage.getItem(COLLAB_STORAGE_KEY) || '{}');
+        return { url: saved.url || getDefaultCollabUrl(), room: saved.room || '', name: saved.name || '' };
+    });
+    const [collabRevision, setCollabRevision] = useState(0);
+    const collabRef = useRef<CollabConnection | null>(null);
+    const replicaRef = useRef<CrdtReplica | null>(null);
+    // Remote changes not yet on the canvas, whether the server answered yet, and the page last synced
+    const collabPendingRef = useRef(false);
+    const collabWelcomedRef = useRef(false);
+    const collabBoundPageRef = useRef<string | null>(null);
+    // The canvas as last written to or read from the replica
+    const collabSyncedRef = useRef<HistorySnapshot | null>(null);
+    const collabPresenceRef = useRef<CollabPresence>({ cursor: null, selection: [] });
+    const presenceTimeoutRef = useRef<number | null>(null);
+    const presenceSentAtRef = useRef(0);
+
+    // Pages: the canvas holds the active page, the others are kept here (with their own undo history)
+    const [pages, setPages] = useState<FlowchartPage[]>([{ id: 'page_1', name: 'Page 1', nodes: [], edges: [] }]);
+    const [activePageId, setActivePageId] = useState('page_1');
+    const pageHistoryRef = useRef(new Map<string, PageHistory>());
+
+    // All pages with the live canvas state filled in for the active one
+    const collectPages = useCallback((): FlowchartPage[] =>
+        pages.map(page => page.id === activePageId
+            ? { ...page, nodes, edges, viewport: reactFlowInstance?.getViewport() ?? page.viewport }
+            : page), [pages, activePageId, nodes, edges, reactFlowInstance]);
+
+    // Convert project nodes to ReactFlow nodes
+    const toFlowNodes = useCallback((projectNodes: FlowchartProjectNode[]): FlowchartNode[] =>
+        createFlowNodes(projectNodes).map(node => ({
+            ...node,
+            data: {
+                ...node.data,
+                ...labelHandlers,
+            },
+        })), [labelHandlers]);
+
+    // Convert project edges to ReactFlow edges
+    const toFlowEdges = useCallback((projectEdges: FlowchartProjectEdge[]): Edge[] => createFlowEdges(projectEdges), []);
+
+    const toFlowPage = useCallback((page: FlowchartProjectPage): FlowchartPage => ({
+        ...page,
+        nodes: toFlowNodes(page.nodes),
+        edges: toFlowEdges(page.edges),
+    }), [toFlowNodes, toFlowEdges]);
 
-    // Load from localStorage on mount
+    // Load from localStorage on mount (a share link shows the shared chart instead)
     useEffect(() => {
+        if (isShareLink(window.location.hash)) {
+            readShareLink(window.location.hash).then(project => {
+                if (!project) {
+                    alert('This share link is damaged or incomplete. Opening your own charts instead.');
+                    leaveShareLink();
+                    return;
+                }
+                // The user's own charts stay unloaded (and unsaved) while the shared one is shown
+                setSharedChart(project);
+            });
+            return;
+        }
+
         const savedData = localStorage.getItem(STORAGE_KEY);
         if (savedData) {
             try {
-                const { nodes: savedNodes, edges: savedEdges, nodeIdCounter } = JSON.parse(savedData);
-
-                if (savedNodes && savedNodes.length > 0) {
+                const { nodes: savedNodes, edges: savedEdges, pages: savedPages, activePageId: savedActivePageId, nodeIdCounter, versionBranch: savedBranch, headVersionId: savedHeadVersionId } = JSON.parse(savedData);
+                if (savedBranch) setVersionBranch(savedBranch);
+                if (savedHeadVersionId) setHeadVersionId(savedHeadVersionId);
+
+                if (savedPages && savedPages.length > 0) {
+                    const restoredPages = (savedPages as FlowchartProjectPage[]).map(toFlowPage);
+                    const active = restoredPages.find(p => p.id === savedActivePageId) || restoredPages[0];
+
+                    setPages(restoredPages);
+                    setActivePageId(active.id);
+                    setNodes(active.nodes);
+                    setEdges(active.edges);
+                    nodeId = nodeIdCounter || 0;
+                    pageId = getNextPageNumber(restoredPages);
+
+                    // Undo history survives the reload for pages whose content still matches it
+                    idbGet<Record<string, StoredPageHistory>>('history', HISTORY_STORAGE_KEY).then(stored => {
+                        if (!stored) return;
+                        restoredPages.forEach(page => {
+                            const entry = stored[page.id];
+                            if (!entry || entry.checksum !== getHistoryChecksum(page.nodes, page.edges)) return;
+                            if (page.id === active.id) {
+                                // Changes made before the history arrived start a history of their own
+                                setHistory(prev => (prev.commands.length === 0 ? entry.history : prev));
+                            } else if (!pageHistoryRef.current.has(page.id)) {
+                                pageHistoryRef.current.set(page.id, entry.history);
+                            }
+                        });
+                    }).catch(error => console.error('Error loading undo history:', error));
+                } else if (savedNodes && savedNodes.length > 0) {
+                    // Autosave from before pages existed
                     // Restore nodes with onChange handler
                     const restoredNodes = savedNodes.map((n: any) => ({
                         ...n,
                         data: {
                             ...n.data,
-                            onChange: (id: string, newLabel: string) => {
-                                setNodes((nds: any) =>
-                                    nds.map((node: any) =>
-                                        node.id === id
-                                            ? { ...node, data: { ...node.data, label: newLabel } }
-                                            : node
-                                    )
-                                );
-                            },
+                            ...labelHandlers,
                         },
                     }));
 
@@ -153,19 +454,18 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
             }
         }
         setIsInitialLoad(false);
-    }, [setNodes, setEdges]);
+    }, [setNodes, setEdges, toFlowPage, labelHandlers]);
 
     // Auto-save to localStorage when nodes or edges change
     useEffect(() => {
         if (isInitialLoad) return;
 
         const saveData = {
-            nodes: nodes.map((n: any) => ({
-                ...n,
-                data: { label: n.data?.label || '' }
-            })),
-            edges,
+            pages: collectPages().map(createProjectPage),
+            activePageId,
             nodeIdCounter: nodeId,
+            versionBranch,
+            headVersionId,
             savedAt: new Date().toISOString()
         };
 
@@ -174,7 +474,46 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
         if (nodes.length > 0 || edges.length > 0) {
             setHasUnsavedChanges(true);
         }
-    }, [nodes, edges, isInitialLoad]);
+    }, [nodes, edges, pages, activePageId, versionBranch, headVersionId, collectPages, isInitialLoad]);
+
+    useEffect(() => {
+        loadVersions().then(setVersions).catch(error => console.error('Error loading versions:', error));
+        loadTemplates().then(setTemplates).catch(error => console.error('Error loading templates:', error));
+    }, []);
+
+    // Store the undo history next to the autosave (debounced, IndexedDB holds large histories)
+    useEffect(() => {
+        if (isInitialLoad) return;
+
+        if (historySaveTimeoutRef.current) {
+            clearTimeout(historySaveTimeoutRef.current);
+        }
+        historySaveTimeoutRef.current = window.setTimeout(() => {
+            const stored: Record<string, StoredPageHistory> = {};
+            collectPages().forEach(page => {
+                const pageHistory = page.id === activePageId ? history : pageHistoryRef.current.get(page.id);
+                if (pageHistory && pageHistory.commands.length > 0) {
+                    stored[page.id] = { checksum: getHistoryChecksum(page.nodes, page.edges), history: pageHistory };
+                }
+            });
+            idbSet('history', HISTORY_STORAGE_KEY, stored).catch(error => console.error('Error saving undo history:', error));
+        }, 500);
+
+        return () => {
+            if (historySaveTimeoutRef.current) {
+                clearTimeout(historySaveTimeoutRef.current);
+            }
+        };
+    }, [history, activePageId, collectPages, isInitialLoad]);
+
+    // Opening another share link in this tab (or leaving one with the back button) starts over
+    useEffect(() => {
+        const handleHashChange = () => {
+            if (isShareLink(window.location.hash) || sharedChart) window.location.reload();
+        };
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, [sharedChart]);
 
     // Warn before closing if there are unsaved changes
     useEffect(() => {
@@ -190,166 +529,239 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
         return () => window.removeEventListener('beforeunload', handleBeforeUnload);
     }, [hasUnsavedChanges, nodes.length, edges.length]);
 
-    // Save to history when nodes or edges change (for undo/redo) - with debounce
-    useEffect(() => {
-        if (isInitialLoad || isUndoRedoActionRef.current) {
-            isUndoRedoActionRef.current = false;
-            return;
-        }
+    // Undo or redo until `targetIndex` commands are applied (history panel jumps, Ctrl+Z, Ctrl+Y)
+    const handleJumpToHistory = useCallback((targetIndex: number) => {
+        if (targetIndex < 0 || targetIndex > history.commands.length || targetIndex === history.index) return;
 
-        // Skip if currently dragging - will save when drag ends
-        if (isDraggingRef.current) {
-            return;
-        }
+        const result = travelHistory(nodes, edges, history, targetIndex, {
+            node: (item, current) => restoreHistoryNode<FlowchartNode>(item, current, labelHandlers),
+            edge: (item, current) => ({ ...toFlowEdges([item])[0], selected: current?.selected }),
+        });
+        setNodes(sortContainersFirst(result.nodes));
+        setEdges(result.edges);
+        setHistory({ ...history, index: targetIndex });
+    }, [history, nodes, edges, labelHandlers, setNodes, setEdges, toFlowEdges]);
 
-        // Clear any pending history save
-        if (historyTimeoutRef.current) {
-            clearTimeout(historyTimeoutRef.current);
-        }
+    const handleUndo = useCallback(() => handleJumpToHistory(history.index - 1), [history.index, handleJumpToHistory]);
+    const handleRedo = useCallback(() => handleJumpToHistory(history.index + 1), [history.index, handleJumpToHistory]);
 
-        // Debounce history save to avoid excessive saves during rapid changes
-        historyTimeoutRef.current = window.setTimeout(() => {
-            // Create a snapshot of current state (without onChange handlers for comparison)
-            const currentState = {
-                nodes: nodes.map(n => ({
-                    ...n,
-                    data: { label: n.data?.label || '', color: n.data?.color, description: n.data?.description }
-                })) as FlowchartNode[],
-                edges: [...edges]
-            };
+    // Keep the shared page and the session's replica in step: local changes are written to the replica
+    // and sent, remote ones are applied to the canvas. Edits made while offline stay in the replica and
+    // are merged by the server on reconnect.
+    useEffect(() => {
+        const replica = replicaRef.current;
+        if (isInitialLoad || !collabSession || !replica || !collabWelcomedRef.current || activePageId !== collabSession.pageId) {
+            collabBoundPageRef.current = null;
+            return;
+        }
 
-            // Don't save if nothing changed (including position, size, and data)
-            if (historyRef.current.length > 0) {
-                const lastState = historyRef.current[historyIndexRef.current];
-                if (lastState &&
-                    JSON.stringify(lastState.nodes.map(n => ({
-                        id: n.id, type: n.type, position: n.position, data: n.data,
-                        width: n.width, height: n.height, style: n.style
-                    }))) ===
-                    JSON.stringify(currentState.nodes.map(n => ({
-                        id: n.id, type: n.type, position: n.position, data: n.data,
-                        width: n.width, height: n.height, style: n.style
-                    }))) &&
-                    JSON.stringify(lastState.edges) === JSON.stringify(currentState.edges)) {
-                    return;
-                }
+        const returned = collabBoundPageRef.current !== activePageId;
+        collabBoundPageRef.current = activePageId;
+        if (returned && isCrdtDocEmpty(replica.doc)) {
+            // First one in the room: the page becomes the shared chart (falls through to the local sync)
+            collabPendingRef.current = false;
+        } else if (returned || collabPendingRef.current) {
+            // The canvas just (re)joined the session, or remote changes arrived
+            collabPendingRef.current = false;
+            const snapshot = createHistorySnapshot(nodes, edges);
+            // Local edits that landed in the same render as the remote ones; only they are written,
+            // diffing the whole canvas against the replica would revert the remote changes
+            if (!returned && collabSyncedRef.current) {
+                const delta = updateCrdtDoc(replica, snapshot, collabSyncedRef.current);
+                if (delta) collabRef.current?.sendUpdate(delta);
             }
 
-            // Remove any future states if we're not at the end
-            if (historyIndexRef.current < historyRef.current.length - 1) {
-                historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
+            const shared = readCrdtDoc(replica.doc);
+            const currentNodes = new Map(nodes.map(n => [n.id, n]));
+            const currentEdges = new Map(edges.map(e => [e.id, e]));
+            const order = new Map(nodes.map((n, index) => [n.id, index]));
+            const nextNodes = sortContainersFirst(shared.nodes
+                .sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity))
+                .map(item => snapshot.nodes.get(item.id)?.key === JSON.stringify(item)
+                    ? currentNodes.get(item.id)!
+                    : restoreHistoryNode<FlowchartNode>(item, currentNodes.get(item.id), labelHandlers)));
+            const nextEdges = shared.edges.map(item => snapshot.edges.get(item.id)?.key === JSON.stringify(item)
+                ? currentEdges.get(item.id)!
+                : { ...toFlowEdges([item])[0], selected: currentEdges.get(item.id)?.selected });
+
+            const unchanged = nextNodes.length === nodes.length && nextNodes.every((n, i) => n === nodes[i])
+                && nextEdges.length === edges.length && nextEdges.every((e, i) => e === edges[i]);
+            if (unchanged) {
+                collabSyncedRef.current = snapshot;
+                return;
             }
 
-            // Add new state
-            historyRef.current.push(currentState);
-            historyIndexRef.current = historyRef.current.length - 1;
-
-            // Limit history size
-            if (historyRef.current.length > MAX_HISTORY) {
-                historyRef.current.shift();
-                historyIndexRef.current--;
-            }
-        }, 300); // 300ms debounce
+            // Collaborators' changes are not undo steps of this user
+            collabSyncedRef.current = createHistorySnapshot(nextNodes, nextEdges);
+            setNodes(nextNodes);
+            setEdges(nextEdges);
+            return;
+        }
 
-        return () => {
-            if (historyTimeoutRef.current) {
-                clearTimeout(historyTimeoutRef.current);
-            }
-        };
-    }, [nodes, edges, isInitialLoad]);
+        const snapshot = createHistorySnapshot(nodes, edges);
+        collabSyncedRef.current = snapshot;
+        const delta = updateCrdtDoc(replica, snapshot);
+        if (delta) collabRef.current?.sendUpdate(delta);
+    }, [nodes, edges, collabRevision, collabSession, activePageId, isInitialLoad, labelHandlers, setNodes, setEdges, toFlowEdges]);
+
+    const sendPresence = useCallback((presence: Partial<CollabPresence>) => {
+        collabPresenceRef.current = { ...collabPresenceRef.current, ...presence };
+        if (!collabRef.current || presenceTimeoutRef.current) return;
+
+        const wait = presenceSentAtRef.current + PRESENCE_INTERVAL_MS - Date.now();
+        presenceTimeoutRef.current = window.setTimeout(() => {
+            presenceTimeoutRef.current = null;
+            presenceSentAtRef.current = Date.now();
+            collabRef.current?.sendPresence(collabPresenceRef.current);
+        }, Math.max(wait, 0));
+    }, []);
 
-    // Undo handler
-    const handleUndo = useCallback(() => {
-        if (historyIndexRef.current <= 0) return;
+    // Tell collaborators what is selected on the shared page
+    const selectionKey = nodes.filter(n => n.selected).map(n => n.id).join(',');
+    useEffect(() => {
+        if (!collabSession) return;
+        sendPresence({ selection: activePageId === collabSession.pageId && selectionKey ? selectionKey.split(',') : [] });
+    }, [selectionKey, activePageId, collabSession?.pageId, sendPresence]);
+
+    const handleJoinCollab = useCallback(() => {
+        const url = collabForm.url.trim() || getDefaultCollabUrl();
+        const room = collabForm.room.trim() || 'default';
+        const name = collabForm.name.trim() || 'Guest';
+        localStorage.setItem(COLLAB_STORAGE_KEY, JSON.stringify({ url, room, name }));
+
+        const peerId = createPeerId();
+        const self = { id: peerId, name, color: getPeerColor(peerId) };
+        const replica = createCrdtReplica(peerId);
+        replicaRef.current = replica;
+        collabWelcomedRef.current = false;
+        collabPendingRef.current = false;
+        collabBoundPageRef.current = null;
+        collabSyncedRef.current = null;
+        collabPresenceRef.current = { cursor: null, selection: [] };
+        nodeIdPrefix = `${peerId}_`;
+
+        const updateSession = (update: (session: CollabSession) => Partial<CollabSession>) =>
+            setCollabSession(prev => (prev ? { ...prev, ...update(prev) } : prev));
+
+        collabRef.current?.close();
+        collabRef.current = connectCollaboration(url, room, self, () => replica.doc, {
+            onStatus: status => updateSession(() => (status === 'online' ? { status } : { status, peers: {} })),
+            onWelcome: (doc, peers) => {
+                mergeCrdtDoc(replica, doc);
+                collabWelcomedRef.current = true;
+                collabPendingRef.current = true;
+                updateSession(() => ({ peers: Object.fromEntries(peers.map(peer => [peer.id, peer])) }));
+                setCollabRevision(r => r + 1);
+                collabRef.current?.sendPresence(collabPresenceRef.current);
+            },
+            onUpdate: doc => {
+                if (!mergeCrdtDoc(replica, doc)) return;
+                collabPendingRef.current = true;
+                setCollabRevision(r => r + 1);
+            },
+            onPresence: peer => updateSession(prev => ({ peers: { ...prev.peers, [peer.id]: peer } })),
+            onLeave: peerId => updateSession(prev => {
+                const { [peerId]: _left, ...peers } = prev.peers;
+                return { peers };
+            }),
+        });
 
-        historyIndexRef.current--;
-        const previousState = historyRef.current[historyIndexRef.current];
+        setCollabForm({ url, room, name });
+        setCollabSession({ url, room, pageId: activePageId, self, status: 'connecting', peers: {} });
+        setShowCollabJoin(false);
+        setShowCollabPanel(true);
+    }, [collabForm, activePageId]);
+
+    const handleLeaveCollab = useCallback(() => {
+        collabRef.current?.close();
+        collabRef.current = null;
+        replicaRef.current = null;
+        nodeIdPrefix = '';
+        setCollabSession(null);
+        setShowCollabPanel(false);
+    }, []);
 
-        if (previousState) {
-            isUndoRedoActionRef.current = true;
-            // Restore nodes with onChange handler
-            const restoredNodes = previousState.nodes.map(n => ({
-                ...n,
-                data: {
-                    ...n.data,
-                    onChange: (nodeId: string, newLabel: string) => {
-                        setNodes(nds => nds.map(node =>
-                            node.id === nodeId
-                                ? { ...node, data: { ...node.data, label: newLabel } }
-                                : node
-                        ));
-                    },
-                },
-            }));
-            setNodes(restoredNodes);
-            setEdges(previousState.edges);
-        }
-    }, [setNodes, setEdges]);
+    useEffect(() => () => collabRef.current?.close(), []);
 
-    // Redo handler
-    const handleRedo = useCallback(() => {
-        if (historyIndexRef.current >= historyRef.current.length - 1) return;
+    // Add copied or imported nodes centered on `center` with fresh IDs; they replace the selection
+    const insertNodes = useCallback((newNodes: FlowchartNode[], newEdges: Edge[], center: { x: number; y: number }, historyLabel: string) => {
+        if (newNodes.length === 0) return;
 
-        historyIndexRef.current++;
-        const nextState = historyRef.current[historyIndexRef.current];
+        const bounds = getClipboardBounds(newNodes);
+        const offset = {
+            x: Math.round(center.x - bounds.x - bounds.width / 2),
+            y: Math.round(center.y - bounds.y - bounds.height / 2),
+        };
+        const content = remapClipboardContent(newNodes, newEdges, getNodeId, offset);
+        const current = canvasRef.current;
+
+        // Top-level nodes join the lane or group they land on
+        const placed = content.nodes.map(node => {
+            if (node.parentId) return { ...node, selected: true };
+            const size = getNodeSize(node);
+            return { ...placeInContainer(node, { x: node.position.x + size.width / 2, y: node.position.y + size.height / 2 }, current.nodes), selected: true };
+        });
 
-        if (nextState) {
-            isUndoRedoActionRef.current = true;
-            // Restore nodes with onChange handler
-            const restoredNodes = nextState.nodes.map(n => ({
-                ...n,
-                data: {
-                    ...n.data,
-                    onChange: (nodeId: string, newLabel: string) => {
-                        setNodes(nds => nds.map(node =>
-                            node.id === nodeId
-                                ? { ...node, data: { ...node.data, label: newLabel } }
-                                : node
-                        ));
-                    },
-                },
-            }));
-            setNodes(restoredNodes);
-            setEdges(nextState.edges);
-        }
-    }, [setNodes, setEdges]);
+        commitChange(historyLabel, {
+            nodes: sortContainersFirst([
+                ...current.nodes.map(n => ({ ...n, selected: false })),
+                ...placed
+            ]),
+            edges: [
+                ...current.edges.map(e => ({ ...e, selected: false })),
+                ...content.edges.map(e => ({ ...e, selected: false })),
+            ],
+        });
+    }, [commitChange]);
 
-    // Duplicate selected nodes handler
+    // Duplicate selected nodes (and the edges between them) slightly offset
     const handleDuplicateNodes = useCallback(() => {
-        const selectedNodes = nodes.filter(n => n.selected);
-        if (selectedNodes.length === 0) return;
-
-        const newNodes = selectedNodes.map(node => ({
-            ...node,
-            id: getNodeId(),
-            position: {
-                x: node.position.x + 30,
-                y: node.position.y + 30,
-            },
-            selected: true,
-            data: {
-                ...node.data,
-                onChange: (nodeId: string, newLabel: string) => {
-                    setNodes(nds => nds.map(n =>
-                        n.id === nodeId
-                            ? { ...n, data: { ...n.data, label: newLabel } }
-                            : n
-                    ));
-                },
-            },
-        }));
+        const payload = createClipboardPayload(nodes, edges);
+        if (!payload) return;
+
+        const copiedNodes = toFlowNodes(payload.nodes);
+        const bounds = getClipboardBounds(copiedNodes);
+        insertNodes(copiedNodes, toFlowEdges(payload.edges), {
+            x: bounds.x + bounds.width / 2 + 30,
+            y: bounds.y + bounds.height / 2 + 30,
+        }, `Duplicate ${copiedNodes.length === 1 ? 'node' : `${copiedNodes.length} nodes`}`);
+    }, [nodes, edges, toFlowNodes, toFlowEdges, insertNodes]);
+
+    // Drags, resizes and arrow-key moves reach the canvas as a stream of changes. Each is recorded once
+    // it ends (drags in onNodeDragStop), against the nodes as they were when it started.
+    const handleNodesChange = useCallback((changes: NodeChange<FlowchartNode>[]) => {
+        const current = canvasRef.current;
+        if (!gestureStartRef.current && changes.some(c => c.type === 'dimensions' && c.resizing)) {
+            gestureStartRef.current = new Map();
+        }
+        const start = gestureStartRef.current;
+        changes.forEach(change => {
+            if (start && (change.type === 'position' || change.type === 'dimensions') && !start.has(change.id)) {
+                const node = current.nodes.find(n => n.id === change.id);
+                if (node) start.set(change.id, node);
+            }
+        });
+        const nextNodes = applyNodeChanges(changes, current.nodes);
 
-        // Deselect original nodes and add new ones
-        setNodes(nds => [
-            ...nds.map(n => ({ ...n, selected: false })),
-            ...newNodes
-        ]);
-    }, [nodes, setNodes]);
+        // A resize ends with its final dimensions
+        if (start && changes.some(c => c.type === 'dimensions' && c.resizing === false)) {
+            gestureStartRef.current = null;
+            commitChange('Resize node', { nodes: nextNodes }, { start });
+            return;
+        }
+        // Arrow keys move the selection without a drag; holding them down adds up to one step
+        const movedIds = changes.flatMap(c => (c.type === 'position' && c.dragging === false ? [c.id] : []));
+        if (!start && movedIds.length > 0) {
+            commitChange(`Move ${countOf(movedIds.length, 'node')}`, { nodes: nextNodes }, { mergeKey: `move:${movedIds.join(',')}` });
+            return;
+        }
 
-    // Open inspector when node is clicked
-    const handleNodeClick = useCallback((_event: React.MouseEvent, node: FlowchartNode) => {
-        if (!node) return;
+        canvasRef.current = { ...current, nodes: nextNodes };
+        onNodesChange(changes);
+    }, [onNodesChange, commitChange]);
 
+    // Select a single node and show it in the inspector
+    const openNodeInspector = useCallback((node: FlowchartNode) => {
         // Select only this node (deselect others)
         setNodes(nds => nds.map(n => ({
             ...n,
@@ -369,39 +781,80 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
         });
     }, [setNodes]);
 
+    // Open inspector when node is clicked
+    const handleNodeClick = useCallback((_event: React.MouseEvent, node: FlowchartNode) => {
+        if (!node) return;
+        openNodeInspector(node);
+    }, [openNodeInspector]);
+
+    // Open the edge inspector when an edge is clicked
+    const handleEdgeClick = useCallback((_event: React.MouseEvent, edge: Edge) => {
+        setNodes(nds => nds.map(n => ({ ...n, selected: false })));
+        setEdges(eds => eds.map(e => ({ ...e, selected: e.id === edge.id })));
+
+        const appearance = getEdgeAppearance(edge);
+        setNodeSettings({
+            isOpen: true,
+            type: 'edge',
+            id: edge.id,
+            label: appearance.label,
+            color: appearance.color,
+            description: '',
+            nodeType: 'edge',
+            sourceNode: nodes.find(n => n.id === edge.source)?.data?.label || edge.source,
+            targetNode: nodes.find(n => n.id === edge.target)?.data?.label || edge.target,
+        });
+    }, [nodes, setNodes, setEdges]);
+
+    // Update edge appearance in real-time (auto-save)
+    const updateEdgeAppearance = useCallback((changes: Partial<EdgeAppearance>) => {
+        if (!nodeSettings.id || nodeSettings.type !== 'edge') return;
+        setNodeSettings((prev: InspectorState) => ({
+            ...prev,
+            ...(changes.label !== undefined ? { label: changes.label } : {}),
+            ...(changes.color !== undefined ? { color: changes.color } : {}),
+        }));
+        const properties = Object.keys(changes) as (keyof EdgeAppearance)[];
+        commitChange(properties.length === 1 ? EDGE_APPEARANCE_LABELS[properties[0]] : 'Edit edge', {
+            edges: canvasRef.current.edges.map(e => (e.id === nodeSettings.id ? applyEdgeAppearance(e, changes) : e)),
+        }, { mergeKey: `edge-${properties.join(',')}:${nodeSettings.id}` });
+    }, [nodeSettings.id, nodeSettings.type, commitChange]);
+
     // Update node settings in real-time (auto-save)
     const updateNodeProperty = useCallback((property: 'label' | 'color' | 'description', value: string) => {
         setNodeSettings((prev: InspectorState) => ({ ...prev, [property]: value }));
 
         // Apply change to the actual node immediately
         if (nodeSettings.id && nodeSettings.type === 'node') {
-            setNodes(nds => nds.map(n =>
-                n.id === nodeSettings.id
-                    ? {
-                        ...n,
-                        data: {
-                            ...n.data,
-                            [property]: value,
+            commitChange(NODE_PROPERTY_LABELS[property], {
+                nodes: canvasRef.current.nodes.map(n =>
+                    n.id === nodeSettings.id
+                        ? {
+                            ...n,
+                            data: {
+                                ...n.data,
+                                [property]: value,
+                            }
                         }
-                    }
-                    : n
-            ));
+                        : n
+                ),
+            }, { mergeKey: `${property}:${nodeSettings.id}` });
         }
-    }, [nodeSettings.id, nodeSettings.type, setNodes]);
+    }, [nodeSettings.id, nodeSettings.type, commitChange]);
 
     // Close node settings panel
     const handleCloseNodeSettings = useCallback(() => {
         setNodeSettings((prev: InspectorState) => ({ ...prev, isOpen: false, id: null, type: null }));
     }, []);
 
-    const isValidConnection = useCallback((connection: Connection) => {
+    const checkConnection = useCallback((connection: Connection, existingEdges: Edge[]) => {
         // 自己接続を防ぐ（同じノードへのループ）
         if (connection.source === connection.target) {
             return false;
         }
 
         // 既存の接続チェック（同じハンドルから複数の接続を防ぐ）
-        const hasExistingEdge = edges.some(
+        const hasExistingEdge = existingEdges.some(
             edge => edge.source === connection.source && edge.sourceHandle === connection.sourceHandle
         );
 
@@ -412,12 +865,12 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
         // Executionノードの制御：出力は1つのみ、入力は複数OK
         const sourceNode = nodes.find(n => n.id === connection.source);
 
-        // 接続元がExecutionノードの場合
-        if (sourceNode?.type === 'execution') {
+        // 接続元がExecution/Sub-processノードの場合
+        if (sourceNode?.type === 'execution' || sourceNode?.type === 'subprocess') {
             // このノードから既に出力があるかチェック
-            const hasExistingOutput = edges.some(e =>
+            const hasExistingOutput = existingEdges.some(e =>
                 e.source === connection.source &&
-                e.sourceHandle === 'execution-bottom'
+                e.sourceHandle === `${sourceNode.type}-bottom`
             );
 
             if (hasExistingOutput) {
@@ -426,7 +879,49 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
         }
 
         return true;
-    }, [edges, nodes]);
+    }, [nodes]);
+
+    const isValidConnection = useCallback((connection: Connection) => checkConnection(connection, edges), [checkConnection, edges]);
+
+    // Reverse the inspected edge, reattaching it to the default handles of its new ends
+    const handleSwapEdge = useCallback(() => {
+        const edge = edges.find(e => e.id === nodeSettings.id);
+        if (!edge) return;
+        const otherEdges = edges.filter(e => e.id !== edge.id);
+        const newSource = nodes.find(n => n.id === edge.target);
+        const newTarget = nodes.find(n => n.id === edge.source);
+
+        // Decisions and switches take the first free branch; End, Start and Comment nodes cannot swap roles
+        const branchHandles = newSource?.type === 'condition'
+            ? ['condition-bottom-true', 'condition-left-false', 'condition-right-false']
+            : newSource?.type === 'switch' ? getSwitchCases(newSource).map(c => getCaseHandleId(c.id)) : undefined;
+        const sourceHandle = branchHandles
+            ? branchHandles.find(handle => !otherEdges.some(e => e.source === newSource!.id && e.sourceHandle === handle))
+            : newSource && newSource.type !== 'end' && newSource.type !== 'comment' ? `${newSource.type}-bottom` : undefined;
+        const targetHandle = newTarget && newTarget.type !== 'start' && newTarget.type !== 'comment' ? `${newTarget.type}-top` : undefined;
+        const connection = { source: edge.target, target: edge.source, sourceHandle: sourceHandle || null, targetHandle: targetHandle || null };
+
+        if (!sourceHandle || !targetHandle || !checkConnection(connection, otherEdges)) {
+            alert('This edge cannot be reversed: the target has no free output or the source cannot receive connections.');
+            return;
+        }
+
+        // Branch labels implied by the old handle follow the new one; custom labels and colors are kept
+        const appearance = getEdgeAppearance(edge);
+        const impliedLabel = getImpliedLabel(newTarget, edge.sourceHandle);
+        const label = appearance.label === impliedLabel ? getImpliedLabel(newSource, sourceHandle) : appearance.label;
+        const color = appearance.color === getEdgeColor(appearance.label) ? getEdgeColor(label) : appearance.color;
+        const swapped = applyEdgeAppearance({ ...edge, ...connection }, { label, color });
+
+        commitChange('Reverse edge', { edges: canvasRef.current.edges.map(e => (e.id === edge.id ? swapped : e)) });
+        setNodeSettings((prev: InspectorState) => ({
+            ...prev,
+            label,
+            color,
+            sourceNode: prev.targetNode,
+            targetNode: prev.sourceNode,
+        }));
+    }, [edges, nodes, nodeSettings.id, checkConnection, commitChange]);
 
     const onConnect = useCallback(
         (params: Connection) => {
@@ -435,47 +930,18 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
             }
 
             const sourceNode = nodes.find(n => n.id === params.source);
-            let edgeLabel = '';
-
-            if (sourceNode?.type === 'condition') {
-                if (params.sourceHandle === 'condition-bottom-true') {
-                    edgeLabel = 'True';
-                } else if (params.sourceHandle === 'condition-left-false' || params.sourceHandle === 'condition-right-false') {
-                    edgeLabel = 'False';
-                }
-            }
-
-            // Set edge color based on label
-            const getEdgeColor = () => {
-                if (edgeLabel === 'True') return '#10b981';
-                if (edgeLabel === 'False') return '#ef4444';
-                return '#7c3aed'; // Violet-600 - deeper purple
-            };
+            // Condition branches and switch cases name their edges
+            const edgeLabel = getImpliedLabel(sourceNode, params.sourceHandle);
 
             const newEdge = {
                 ...params,
                 label: edgeLabel,
-                type: 'default',
-                animated: true,
-                style: {
-                    strokeWidth: 2,
-                    stroke: getEdgeColor(),
-                },
-                labelStyle: {
-                    fill: getEdgeColor(),
-                    fontWeight: 700,
-                    fontSize: 13,
-                    textShadow: '0 0 4px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.6)',
-                },
-                labelBgStyle: {
-                    fill: 'transparent',
-                    fillOpacity: 0,
-                },
+                ...(sourceNode?.type === 'comment' ? getAnnotationEdgeStyling() : getEdgeStyling(edgeLabel)),
             };
 
-            setEdges((eds) => addEdge(newEdge, eds));
+            commitChange('Connect', { edges: addEdge(newEdge, canvasRef.current.edges) });
         },
-        [setEdges, isValidConnection, nodes]
+        [commitChange, isValidConnection, nodes]
     );
 
     const onDragOver = useCallback((event: React.DragEvent) => {
@@ -491,6 +957,7 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
 
             const type = event.dataTransfer.getData('application/reactflow');
             const label = event.dataTransfer.getData('label');
+            const orientation = (event.dataTransfer.getData('orientation') || undefined) as LaneOrientation | undefined;
 
             if (!type) return;
 
@@ -512,11 +979,13 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                         return { width: 150, height: 150 };
                     case 'execution':
                         return { width: 150, height: 80 };
+                    case 'subprocess':
+                        return { width: 170, height: 80 };
                     case 'start':
                     case 'end':
                         return { width: 120, height: 120 };
                     default:
-                        return { width: 100, height: 100 };
+                        return getDefaultSize(nodeType, orientation);
                 }
             };
 
@@ -534,11 +1003,13 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                         return { width: 150, height: 150 };
                     case 'execution':
                         return { width: 150, height: 80 };
+                    case 'subprocess':
+                        return { width: 170, height: 80 };
                     case 'start':
                     case 'end':
                         return { width: 120, height: 120 };
                     default:
-                        return undefined;
+                        return getDefaultSize(nodeType, orientation);
                 }
             };
 
@@ -553,7 +1024,7 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                 }
             }
 
-            const newNode = {
+            const newNode = placeInContainer({
                 id: getNodeId(),
                 type,
                 position,
@@ -563,26 +1034,20 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                     label,
                     color: DEFAULT_NODE_COLORS[type] || '#3b82f6',
                     description: '',
-                    onChange: (nodeId: string, newLabel: string) => {
-                        setNodes((nds) =>
-                            nds.map((node) =>
-                                node.id === nodeId
-                                    ? { ...node, data: { ...node.data, label: newLabel } }
-                                    : node
-                            )
-                        );
-                    },
+                    ...(orientation ? { orientation } : {}),
+                    ...(type === 'switch' ? { cases: createSwitchCases(DEFAULT_SWITCH_CASES) } : {}),
+                    ...labelHandlers,
                 },
-            };
+            }, dropPosition, nodes);
 
-            setNodes((nds) => nds.concat(newNode));
+            commitChange('Add node', { nodes: sortContainersFirst(canvasRef.current.nodes.concat(newNode)) });
         },
-        [reactFlowInstance, setNodes, nodes]
+        [reactFlowInstance, commitChange, labelHandlers, nodes]
     );
 
     // Add node via tap (for mobile)
     const handleAddNode = useCallback(
-        (type: string, label: string) => {
+        (type: string, label: string, orientation?: LaneOrientation) => {
             if (!reactFlowInstance || !reactFlowWrapper.current) return;
 
             // Get viewport center
@@ -597,11 +1062,13 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                         return { width: 150, height: 150 };
                     case 'execution':
                         return { width: 150, height: 80 };
+                    case 'subprocess':
+                        return { width: 170, height: 80 };
                     case 'start':
                     case 'end':
                         return { width: 120, height: 120 };
                     default:
-                        return { width: 100, height: 100 };
+                        return getDefaultSize(nodeType, orientation);
                 }
             };
 
@@ -622,11 +1089,13 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                         return { width: 150, height: 150 };
                     case 'execution':
                         return { width: 150, height: 80 };
+                    case 'subprocess':
+                        return { width: 170, height: 80 };
                     case 'start':
                     case 'end':
                         return { width: 120, height: 120 };
                     default:
-                        return undefined;
+                        return getDefaultSize(nodeType, orientation);
                 }
             };
 
@@ -641,7 +1110,7 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                 }
             }
 
-            const newNode = {
+            const newNode = placeInContainer({
                 id: getNodeId(),
                 type,
                 position,
@@ -651,21 +1120,15 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                     label,
                     color: DEFAULT_NODE_COLORS[type] || '#3b82f6',
                     description: '',
-                    onChange: (nodeId: string, newLabel: string) => {
-                        setNodes((nds) =>
-                            nds.map((node) =>
-                                node.id === nodeId
-                                    ? { ...node, data: { ...node.data, label: newLabel } }
-                                    : node
-                            )
-                        );
-                    },
+                    ...(orientation ? { orientation } : {}),
+                    ...(type === 'switch' ? { cases: createSwitchCases(DEFAULT_SWITCH_CASES) } : {}),
+                    ...labelHandlers,
                 },
-            };
+            }, { x: position.x + nodeSize.width / 2, y: position.y + nodeSize.height / 2 }, nodes);
 
-            setNodes((nds) => nds.concat(newNode));
+            commitChange('Add node', { nodes: sortContainersFirst(canvasRef.current.nodes.concat(newNode)) });
         },
-        [reactFlowInstance, setNodes, nodes]
+        [reactFlowInstance, commitChange, labelHandlers, nodes]
     );
 
     const handleExportImage = useCallback(async () => {
@@ -681,40 +1144,137 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
         await new Promise(resolve => setTimeout(resolve, 100));
 
         // Export the image
-        await exportAsImage('flowchart-canvas', 'flowchart.png');
+        await exportAsImage('flowchart-canvas', 'flowchart.png', getThemeBackground());
 
         // Restore the original viewport state
         await new Promise(resolve => setTimeout(resolve, 50));
         reactFlowInstance.setViewport(currentViewport, { duration: 200 });
     }, [reactFlowInstance]);
 
+    const handleVectorExport = useCallback(() => {
+        const options = { background: exportBackground, selectedOnly: exportSelectionOnly };
+        if (vectorFormat === 'svg') {
+            exportAsSvg(nodes, edges, options);
+        } else {
+            exportAsPdf(nodes, edges, { ...options, pageMode: pdfPageMode });
+        }
+        setShowVectorExport(false);
+    }, [nodes, edges, vectorFormat, exportBackground, exportSelectionOnly, pdfPageMode]);
+
+    // Every page in one HTML file that opens in any browser, for people without the app
+    const handleExportHtml = useCallback(() => {
+        const allPages = collectPages();
+        const baseName = projectFileName?.replace(/\.[^.]+$/, '');
+        const title = baseName || allPages.find(p => p.id === activePageId)?.name || 'Flowchart';
+        exportAsHtml(allPages, title, activePageId, `${baseName || 'flowchart'}.html`);
+    }, [collectPages, projectFileName, activePageId]);
+
+    // Graph used by the Text/Mermaid/Code exports: sub-processes kept as references or spliced in from their pages
+    const getExportGraph = useCallback(() => {
+        if (subprocessMode === 'reference') return { nodes, edges };
+        const allPages = collectPages();
+        return inlineSubprocesses(nodes, edges, id => allPages.find(p => p.id === id));
+    }, [subprocessMode, nodes, edges, collectPages]);
+
     const handleExportText = useCallback(() => {
-        exportAsText(nodes, edges, 'flowchart.txt');
-    }, [nodes, edges]);
+        const graph = getExportGraph();
+        exportAsText(graph.nodes, graph.edges, 'flowchart.txt', mermaidDirection);
+    }, [getExportGraph, mermaidDirection]);
 
     const handleCopyMermaid = useCallback(async () => {
-        const success = await copyMermaidToClipboard(nodes, edges);
+        const graph = getExportGraph();
+        const success = await copyMermaidToClipboard(graph.nodes, graph.edges, mermaidDirection);
         if (success) {
             setCopySuccess(true);
             setTimeout(() => setCopySuccess(false), 2000);
         }
-    }, [nodes, edges]);
+    }, [getExportGraph, mermaidDirection]);
+
+    // Copy a link that holds the active page, so a chart can be shown without sending a file
+    const handleCopyShareLink = useCallback(async () => {
+        const activePage = collectPages().find(p => p.id === activePageId);
+        if (!activePage) return;
+
+        const link = await createShareLink(createProject([{ ...activePage, viewport: undefined }], activePage.id));
+        try {
+            await navigator.clipboard.writeText(link);
+            setShareLinkCopied(true);
+            setTimeout(() => setShareLinkCopied(false), 2000);
+        } catch (error) {
+            console.error('Error copying share link:', error);
+            window.prompt('Copy this link:', link);
+        }
+    }, [collectPages, activePageId]);
+
+    // Add the shared chart to the user's own project as new pages and continue editing there
+    const handleForkSharedChart = useCallback(() => {
+        if (!sharedChart) return;
+
+        const { data, pages: ownPages } = readAutosave();
+        let nextPageNumber = getNextPageNumber(ownPages);
+        const forkedPages = sharedChart.pages.map(page => ({ ...page, id: `page_${nextPageNumber++}` }));
+
+        // New nodes on the forked pages must not reuse the shared node IDs
+        const maxId = Math.max(...forkedPages.flatMap(page => page.nodes).map(n => {
+            const match = n.id.match(/node_(\d+)/);
+            return match ? parseInt(match[1], 10) : 0;
+        }), 0);
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            ...data,
+            pages: [...ownPages, ...forkedPages],
+            activePageId: forkedPages[0].id,
+            nodeIdCounter: Math.max(Number(data.nodeIdCounter) || 0, maxId + 1),
+            savedAt: new Date().toISOString(),
+        }));
+        leaveShareLink();
+    }, [sharedChart]);
+
+    // Generated code for the "Code" view (only computed while it is open)
+    const generatedCode = useMemo(() => {
+        if (!showCode) return { code: '', error: null };
+        try {
+            const graph = getExportGraph();
+            return { code: generateCode(graph.nodes, graph.edges, codeLanguage), error: null };
+        } catch (error) {
+            return { code: '', error: (error as Error).message };
+        }
+    }, [showCode, getExportGraph, codeLanguage]);
+
+    const handleCopyCode = useCallback(async () => {
+        try {
+            await navigator.clipboard.writeText(generatedCode.code);
+            setCodeCopySuccess(true);
+            setTimeout(() => setCodeCopySuccess(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy to clipboard:', error);
+        }
+    }, [generatedCode.code]);
+
+    const handleDownloadCode = useCallback(() => {
+        const graph = getExportGraph();
+        exportAsCode(graph.nodes, graph.edges, codeLanguage);
+    }, [getExportGraph, codeLanguage]);
 
-    // Delete selected nodes and edges
-    const handleDeleteSelected = useCallback(() => {
-        const selectedNodeIds = nodes.filter(n => n.selected).map(n => n.id);
-        const selectedEdgeIds = edges.filter(e => e.selected).map(e => e.id);
+    // Delete selected nodes and edges (as one undo step, named `historyLabel` when given)
+    const handleDeleteSelected = useCallback((historyLabel?: string) => {
+        const { nodes: currentNodes, edges: currentEdges } = canvasRef.current;
+        // Deleting a lane or group deletes the nodes inside it
+        const selectedNodeIds = [...withDescendants(new Set(currentNodes.filter(n => n.selected).map(n => n.id)), currentNodes)];
+        const selectedEdgeIds = currentEdges.filter(e => e.selected).map(e => e.id);
 
         if (selectedNodeIds.length === 0 && selectedEdgeIds.length === 0) return;
 
-        // Remove selected nodes
-        setNodes(nds => nds.filter(n => !selectedNodeIds.includes(n.id)));
-        // Remove selected edges and edges connected to deleted nodes
-        setEdges(eds => eds.filter(e =>
-            !selectedEdgeIds.includes(e.id) &&
-            !selectedNodeIds.includes(e.source) &&
-            !selectedNodeIds.includes(e.target)
-        ));
+        commitChange(historyLabel || `Delete ${selectedNodeIds.length > 0 ? countOf(selectedNodeIds.length, 'node') : countOf(selectedEdgeIds.length, 'edge')}`, {
+            // Remove selected nodes
+            nodes: currentNodes.filter(n => !selectedNodeIds.includes(n.id)),
+            // Remove selected edges and edges connected to deleted nodes
+            edges: currentEdges.filter(e =>
+                !selectedEdgeIds.includes(e.id) &&
+                !selectedNodeIds.includes(e.source) &&
+                !selectedNodeIds.includes(e.target)
+            ),
+        });
 
         // Close inspector if the deleted node/edge was being inspected
         if (nodeSettings.id && (selectedNodeIds.includes(nodeSettings.id) || selectedEdgeIds.includes(nodeSettings.id))) {
@@ -730,12 +1290,16 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                 targetNode: '',
             });
         }
-    }, [nodes, edges, setNodes, setEdges, nodeSettings.id]);
+    }, [commitChange, nodeSettings.id]);
 
     // Delete a specific node by ID
     const handleDeleteNode = useCallback((nodeIdToDelete: string) => {
-        setNodes(nds => nds.filter(n => n.id !== nodeIdToDelete));
-        setEdges(eds => eds.filter(e => e.source !== nodeIdToDelete && e.target !== nodeIdToDelete));
+        const { nodes: currentNodes, edges: currentEdges } = canvasRef.current;
+        const deletedIds = withDescendants(new Set([nodeIdToDelete]), currentNodes);
+        commitChange(`Delete ${countOf(deletedIds.size, 'node')}`, {
+            nodes: currentNodes.filter(n => !deletedIds.has(n.id)),
+            edges: currentEdges.filter(e => !deletedIds.has(e.source) && !deletedIds.has(e.target)),
+        });
 
         // Close inspector
         setNodeSettings({
@@ -749,19 +1313,71 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
             sourceNode: '',
             targetNode: '',
         });
-    }, [setNodes, setEdges]);
+    }, [commitChange]);
+
+    // Delete a specific edge by ID
+    const handleDeleteEdge = useCallback((edgeIdToDelete: string) => {
+        commitChange('Delete edge', { edges: canvasRef.current.edges.filter(e => e.id !== edgeIdToDelete) });
+        handleCloseNodeSettings();
+    }, [commitChange, handleCloseNodeSettings]);
 
     // Project save handler
     const handleSaveProject = useCallback(() => {
-        saveProject(nodes, edges);
+        const currentPages = collectPages();
+        saveProject(currentPages, activePageId);
         setHasUnsavedChanges(false);
-    }, [nodes, edges]);
+
+        // Each save is also kept as a local version, unless nothing changed since the one it continues
+        const project = createProject(currentPages, activePageId);
+        const head = versions.find(v => v.id === headVersionId);
+        if (head && isSameContent(head.project, project)) return;
+
+        const version = createVersion(project, { branch: versionBranch, parentId: head?.id, fileName: projectFileName ?? undefined });
+        storeVersion(version)
+            .then(() => {
+                setVersions(prev => [version, ...prev]);
+                setHeadVersionId(version.id);
+            })
+            .catch(error => console.error('Error saving version:', error));
+    }, [collectPages, activePageId, versions, headVersionId, versionBranch, projectFileName]);
 
     // Project load handlers
     const handleLoadProject = useCallback(() => {
         projectFileInputRef.current?.click();
     }, []);
 
+    // Replace the whole canvas with a project (opened file, sub-process file or restored parent)
+    const applyProject = useCallback((project: FlowchartProject, targetPageId?: string) => {
+        const newPages = project.pages.map(toFlowPage);
+        const active = newPages.find(p => p.id === (targetPageId || project.activePageId)) || newPages[0];
+
+        // Update node ID counter
+        const maxId = Math.max(...project.pages.flatMap(page => page.nodes).map(n => {
+            const match = n.id.match(/node_(\d+)/);
+            return match ? parseInt(match[1], 10) : 0;
+        }), 0);
+        nodeId = maxId + 1;
+        pageId = getNextPageNumber(newPages);
+
+        pageHistoryRef.current.clear();
+        setHistory(EMPTY_HISTORY);
+        setPages(newPages);
+        setActivePageId(active.id);
+        setNodes(active.nodes);
+        setEdges(active.edges);
+        setSimulation(null);
+        handleCloseNodeSettings();
+
+        // Restore the page viewport, or fit view after loading
+        setTimeout(() => {
+            if (active.viewport) {
+                reactFlowInstance?.setViewport(active.viewport);
+            } else {
+                reactFlowInstance?.fitView({ padding: 0.2 });
+            }
+        }, 100);
+    }, [setNodes, setEdges, reactFlowInstance, toFlowPage, handleCloseNodeSettings]);
+
     const handleProjectFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
@@ -772,71 +1388,9 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
             const project = loadProject(content);
 
             if (project) {
-                // Convert project nodes to ReactFlow nodes
-                const newNodes = project.nodes.map(node => ({
-                    id: node.id,
-                    type: node.type,
-                    position: node.position,
-                    style: node.size ? { width: node.size.width, height: node.size.height } : undefined,
-                    data: {
-                        label: node.data.label,
-                        onChange: (nodeId: string, newLabel: string) => {
-                            setNodes((nds: any) =>
-                                nds.map((n: any) =>
-                                    n.id === nodeId
-                                        ? { ...n, data: { ...n.data, label: newLabel } }
-                                        : n
-                                )
-                            );
-                        },
-                    },
-                }));
-
-                // Convert project edges to ReactFlow edges
-                const getEdgeColor = (sourceHandle: string | undefined) => {
-                    if (sourceHandle?.includes('true')) return '#22c55e';
-                    if (sourceHandle?.includes('false')) return '#ef4444';
-                    return '#818cf8';
-                };
-
-                const newEdges = project.edges.map(edge => ({
-                    id: edge.id,
-                    source: edge.source,
-                    target: edge.target,
-                    sourceHandle: edge.sourceHandle,
-                    targetHandle: edge.targetHandle,
-                    label: edge.label,
-                    type: 'default',
-                    animated: true,
-                    style: {
-                        strokeWidth: 2,
-                        stroke: getEdgeColor(edge.sourceHandle),
-                    },
-                    labelStyle: {
-                        fill: getEdgeColor(edge.sourceHandle),
-                        fontWeight: 700,
-                        fontSize: 13,
-                    },
-                    labelBgStyle: {
-                        fill: 'transparent',
-                        fillOpacity: 0,
-                    },
-                }));
-
-                // Update node ID counter
-                const maxId = Math.max(...project.nodes.map(n => {
-                    const match = n.id.match(/node_(\d+)/);
-                    return match ? parseInt(match[1], 10) : 0;
-                }), 0);
-                nodeId = maxId + 1;
-
-                setNodes(newNodes as any);
-                setEdges(newEdges as any);
-
-                // Fit view after loading
-                setTimeout(() => {
-                    reactFlowInstance?.fitView({ padding: 0.2 });
-                }, 100);
+                applyProject(project);
+                setProjectFileName(file.name);
+                setBreadcrumbs([]);
             } else {
                 alert('Failed to load project file. Please check the file format.');
             }
@@ -845,227 +1399,649 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
 
         // Reset file input
         event.target.value = '';
-    }, [setNodes, setEdges, reactFlowInstance]);
-
-    const handleAutoLayout = useCallback(() => {
-        if (!reactFlowInstance || nodes.length === 0) return;
-
-        const HORIZONTAL_SPACING = 250;
-        const VERTICAL_SPACING = 200;
-
-        // Find start nodes (entry points)
-        const startNodes = nodes.filter((n: any) => n.type === 'start');
-        if (startNodes.length === 0) {
-            // If no start node, just arrange in a grid
-            const updatedNodes = nodes.map((node: any, index: number) => ({
-                ...node,
-                position: {
-                    x: (index % 4) * HORIZONTAL_SPACING + 100,
-                    y: Math.floor(index / 4) * VERTICAL_SPACING + 50,
-                },
-            }));
-            setNodes(updatedNodes);
-            setTimeout(() => reactFlowInstance.fitView({ padding: 0.2 }), 0);
+    }, [applyProject]);
+
+    // Open a recorded version like a file; `branch` names the line that later saves continue
+    const openVersion = useCallback((version: FlowchartVersion, branch: string) => {
+        applyProject(version.project);
+        setProjectFileName(version.fileName ?? null);
+        setBreadcrumbs([]);
+        setVersionBranch(branch);
+        setHeadVersionId(version.id);
+        setCompareVersionId(null);
+    }, [applyProject]);
+
+    const handleRestoreVersion = useCallback((version: FlowchartVersion) => {
+        if (!window.confirm(`Restore the version saved ${new Date(version.savedAt).toLocaleString()}?\n\nThe current chart and its undo history will be replaced. Save it first if needed.`)) {
             return;
         }
+        openVersion(version, version.branch);
+    }, [openVersion]);
+
+    const handleBranchVersion = useCallback((version: FlowchartVersion) => {
+        const name = window.prompt('Name of the new branch (the current chart will be replaced by this version):', `${version.branch}-2`)?.trim();
+        if (!name) return;
+        openVersion(version, name);
+    }, [openVersion]);
+
+    const handleDeleteVersion = useCallback((version: FlowchartVersion) => {
+        if (!window.confirm(`Delete the version saved ${new Date(version.savedAt).toLocaleString()}?`)) return;
+
+        deleteVersion(version.id)
+            .then(() => {
+                setVersions(prev => prev.filter(v => v.id !== version.id));
+                setCompareVersionId(prev => (prev === version.id ? null : prev));
+                // The next save continues from the deleted version's parent
+                setHeadVersionId(prev => (prev === version.id ? version.parentId ?? null : prev));
+            })
+            .catch(error => console.error('Error deleting version:', error));
+    }, []);
 
-        // Build adjacency map with handle info
-        const childrenMap = new Map<string, { nodeId: string; handleType: string }[]>();
-
-        edges.forEach((edge: any) => {
-            if (!childrenMap.has(edge.source)) {
-                childrenMap.set(edge.source, []);
-            }
-            childrenMap.get(edge.source)!.push({
-                nodeId: edge.target,
-                handleType: edge.sourceHandle || 'default',
-            });
-        });
+    const handleChooseMergeFile = useCallback((target: MergeInputName) => {
+        mergeFileTargetRef.current = target;
+        mergeFileInputRef.current?.click();
+    }, []);
 
-        // BFS with position tracking - tracking CENTER positions
-        const centerPositions = new Map<string, { x: number; y: number }>();
-        const visited = new Set<string>();
-        const queue: { nodeId: string; centerX: number; y: number; isBranch: boolean }[] = [];
+    const handleMergeFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
 
-        // Helper to get node dimensions (checks multiple possible locations)
-        const getNodeSize = (node: any) => {
-            // Check direct width/height (measured by ReactFlow)
-            if (node?.width && node?.height) {
-                return { width: node.width, height: node.height };
-            }
-            // Check measured dimensions
-            if (node?.measured?.width && node?.measured?.height) {
-                return { width: node.measured.width, height: node.measured.height };
-            }
-            // Check style dimensions
-            if (node?.style?.width && node?.style?.height) {
-                return { width: node.style.width, height: node.style.height };
-            }
-            // Default sizes based on type
-            switch (node?.type) {
-                case 'condition':
-                    return { width: 150, height: 150 };
-                case 'execution':
-                    return { width: 150, height: 80 };
-                case 'start':
-                case 'end':
-                    return { width: 120, height: 120 };
-                default:
-                    return { width: 100, height: 100 };
+        const target = mergeFileTargetRef.current;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const project = loadProject(e.target?.result as string);
+            if (project) {
+                setMergeInputs(prev => ({ ...prev, [target]: { fileName: file.name, project } }));
+            } else {
+                alert('Failed to load project file. Please check the file format.');
             }
         };
+        reader.readAsText(file);
 
-        // Main flow center X
-        const mainCenterX = 400;
+        // Reset file input
+        event.target.value = '';
+    }, []);
 
-        // Start from start nodes
-        startNodes.forEach((startNode: any, idx: number) => {
-            queue.push({
-                nodeId: startNode.id,
-                centerX: mainCenterX + idx * HORIZONTAL_SPACING * 3,
-                y: 50,
-                isBranch: false,
+    // Merge both copies into the canvas; conflicts start out with mine and are listed for resolution
+    const handleRunMerge = useCallback(() => {
+        const ours = mergeUseCurrent ? createProject(collectPages(), activePageId) : mergeInputs.ours?.project;
+        if (!mergeInputs.base || !mergeInputs.theirs || !ours) return;
+
+        const result = mergeProjects(mergeInputs.base.project, ours, mergeInputs.theirs.project);
+        applyProject(result.project);
+        if (!mergeUseCurrent) setProjectFileName(mergeInputs.ours?.fileName ?? null);
+        setBreadcrumbs([]);
+        setMergeSession({ conflicts: result.conflicts, resolved: {}, merged: result.merged, notes: result.notes });
+        setShowMerge(false);
+    }, [mergeUseCurrent, mergeInputs, collectPages, activePageId, applyProject]);
+
+    // Put one side's version of the conflicting items on its page
+    const handleResolveConflict = useCallback((conflict: MergeConflict, side: MergeSide) => {
+        const option = conflict.options[side];
+        if (conflict.pageId === activePageId) {
+            commitChange('Resolve conflict', {
+                nodes: sortContainersFirst(replaceItems(canvasRef.current.nodes, conflict.nodeIds, toFlowNodes(option.nodes))),
+                edges: replaceItems(canvasRef.current.edges, conflict.edgeIds, toFlowEdges(option.edges)),
             });
-        });
-
-        while (queue.length > 0) {
-            const { nodeId, centerX, y, isBranch } = queue.shift()!;
-
-            if (visited.has(nodeId)) continue;
-            visited.add(nodeId);
-
-            // Store the CENTER position (will convert to top-left later)
-            centerPositions.set(nodeId, { x: centerX, y });
-
-            const children = childrenMap.get(nodeId) || [];
-            const node = nodes.find((n: any) => n.id === nodeId);
-            const isCondition = node?.type === 'condition';
-            const nodeSize = getNodeSize(node);
-
-            // Calculate next Y based on current node's height
-            const nextY = y + nodeSize.height + 50; // 50px gap between nodes
-
-            if (isCondition && children.length > 0) {
-                // For condition nodes
-                const trueChild = children.find(c => c.handleType.includes('true'));
-                const falseChild = children.find(c =>
-                    c.handleType.includes('left-false') || c.handleType.includes('right-false')
-                );
-
-                // True goes down - stays on center line
-                if (trueChild && !visited.has(trueChild.nodeId)) {
-                    queue.push({
-                        nodeId: trueChild.nodeId,
-                        centerX: centerX, // Same center X as parent
-                        y: nextY,
-                        isBranch: false,
-                    });
-                }
-
-                // False goes to the side based on handle direction
-                if (falseChild && !visited.has(falseChild.nodeId)) {
-                    let falseCenterX = centerX + HORIZONTAL_SPACING; // Default: right
-                    if (falseChild.handleType.includes('left')) {
-                        falseCenterX = centerX - HORIZONTAL_SPACING; // Left
-                    }
-                    queue.push({
-                        nodeId: falseChild.nodeId,
-                        centerX: falseCenterX,
-                        y: y, // Same Y level
-                        isBranch: true,
-                    });
+        } else {
+            setPages(prev => prev.map(page => page.id === conflict.pageId
+                ? {
+                    ...page,
+                    nodes: sortContainersFirst(replaceItems(page.nodes, conflict.nodeIds, toFlowNodes(option.nodes))),
+                    edges: replaceItems(page.edges, conflict.edgeIds, toFlowEdges(option.edges)),
                 }
-
-                // Handle other children
-                children.forEach((child, idx) => {
-                    if (child !== trueChild && child !== falseChild && !visited.has(child.nodeId)) {
-                        queue.push({
-                            nodeId: child.nodeId,
-                            centerX: centerX + (idx + 1) * HORIZONTAL_SPACING,
-                            y: nextY,
-                            isBranch: true,
-                        });
-                    }
-                });
+                : page));
+        }
+        setMergeSession(prev => prev && { ...prev, resolved: { ...prev.resolved, [conflict.id]: side } });
+    }, [activePageId, commitChange, toFlowNodes, toFlowEdges]);
+
+    const handleResolveAllConflicts = useCallback((side: MergeSide) => {
+        mergeSession?.conflicts
+            .filter(conflict => !mergeSession.resolved[conflict.id])
+            .forEach(conflict => handleResolveConflict(conflict, side));
+    }, [mergeSession, handleResolveConflict]);
+
+    const handleCloseMerge = useCallback(() => {
+        const open = mergeSession?.conflicts.filter(c => !mergeSession.resolved[c.id]).length ?? 0;
+        if (open > 0 && !window.confirm(`${open} conflicts are still open. Keep mine for them and close the merge?`)) return;
+        setMergeSession(null);
+    }, [mergeSession]);
+
+    // Switch the canvas to another page, keeping the current one's nodes, viewport and history
+    const activatePage = useCallback((target: FlowchartPage, updatedPages: FlowchartPage[]) => {
+        // A deleted page's history is dropped rather than stored under its ID again
+        if (updatedPages.some(p => p.id === activePageId)) {
+            pageHistoryRef.current.set(activePageId, history);
+        }
+        setHistory(pageHistoryRef.current.get(target.id) ?? EMPTY_HISTORY);
+
+        setPages(updatedPages);
+        setActivePageId(target.id);
+        setNodes(target.nodes.map(n => ({ ...n, selected: false })));
+        setEdges(target.edges.map(e => ({ ...e, selected: false })));
+        setSimulation(null);
+        handleCloseNodeSettings();
+
+        setTimeout(() => {
+            if (target.viewport) {
+                reactFlowInstance?.setViewport(target.viewport);
             } else {
-                // For non-condition nodes, children go down
-                children.forEach((child, idx) => {
-                    if (!visited.has(child.nodeId)) {
-                        let childCenterX = centerX;
-                        if (children.length > 1) {
-                            childCenterX = centerX + (idx - (children.length - 1) / 2) * HORIZONTAL_SPACING;
-                        }
-                        queue.push({
-                            nodeId: child.nodeId,
-                            centerX: childCenterX,
-                            y: nextY,
-                            isBranch: isBranch,
-                        });
-                    }
-                });
+                reactFlowInstance?.fitView({ padding: 0.2 });
             }
-        }
+        }, 0);
+    }, [activePageId, history, setNodes, setEdges, handleCloseNodeSettings, reactFlowInstance]);
+
+    const handleSelectPage = useCallback((targetId: string) => {
+        if (targetId === activePageId) return;
+        const updatedPages = collectPages();
+        const target = updatedPages.find(p => p.id === targetId);
+        if (target) activatePage(target, updatedPages);
+    }, [activePageId, collectPages, activatePage]);
+
+    const handleAddPage = useCallback(() => {
+        const page: FlowchartPage = { id: getPageId(), name: `Page ${pages.length + 1}`, nodes: [], edges: [] };
+        activatePage(page, [...collectPages(), page]);
+    }, [pages.length, collectPages, activatePage]);
+
+    const handleRenamePage = useCallback((targetId: string, name: string) => {
+        setPages(prev => prev.map(p => (p.id === targetId ? { ...p, name } : p)));
+    }, []);
 
-        // Handle unvisited nodes (not connected to start)
-        let unvisitedY = 50;
-        let unvisitedCenterX = mainCenterX + HORIZONTAL_SPACING * 3;
-        nodes.forEach((node: any) => {
-            if (!visited.has(node.id)) {
-                centerPositions.set(node.id, { x: unvisitedCenterX, y: unvisitedY });
-                unvisitedY += VERTICAL_SPACING;
-                if (unvisitedY > 600) {
-                    unvisitedY = 50;
-                    unvisitedCenterX += HORIZONTAL_SPACING;
-                }
-            }
+    const handleDeletePage = useCallback((targetId: string) => {
+        const page = pages.find(p => p.id === targetId);
+        if (!page || pages.length <= 1) return;
+        if (!window.confirm(`Delete page "${page.name}"?`)) return;
+
+        pageHistoryRef.current.delete(targetId);
+        const index = pages.indexOf(page);
+        const remaining = collectPages().filter(p => p.id !== targetId);
+        if (targetId === activePageId) {
+            activatePage(remaining[Math.min(index, remaining.length - 1)], remaining);
+        } else {
+            setPages(remaining);
+        }
+    }, [pages, activePageId, collectPages, activatePage]);
+
+    const handleReorderPages = useCallback((fromIndex: number, toIndex: number) => {
+        setPages(prev => {
+            const next = [...prev];
+            const [moved] = next.splice(fromIndex, 1);
+            next.splice(toIndex, 0, moved);
+            return next;
         });
+    }, []);
 
-        // Convert center positions to top-left positions and apply
-        const updatedNodes = nodes.map((node: any) => {
-            const centerPos = centerPositions.get(node.id);
-            if (!centerPos) return node;
-
-            const nodeSize = getNodeSize(node);
+    // Sub-process links: set from the inspector, stored on the node data
+    const updateSubprocessReference = useCallback((reference: SubprocessReference | undefined) => {
+        if (!nodeSettings.id) return;
+        commitChange(reference ? 'Link sub-process' : 'Unlink sub-process', {
+            nodes: canvasRef.current.nodes.map(n =>
+                n.id === nodeSettings.id ? { ...n, data: { ...n.data, subprocess: reference } } : n
+            ),
+        });
+    }, [nodeSettings.id, commitChange]);
+
+    // Switching a lane between horizontal and vertical swaps its width and height
+    const updateLaneOrientation = useCallback((orientation: LaneOrientation) => {
+        if (!nodeSettings.id) return;
+        commitChange('Change lane orientation', { nodes: canvasRef.current.nodes.map(n => {
+            if (n.id !== nodeSettings.id || n.type !== 'swimlane' || (n.data?.orientation || 'horizontal') === orientation) return n;
+            const width = n.measured?.width || Number(n.style?.width) || 0;
+            const height = n.measured?.height || Number(n.style?.height) || 0;
             return {
-                ...node,
-                position: {
-                    x: centerPos.x - nodeSize.width / 2,
-                    y: centerPos.y,
-                },
+                ...n,
+                width: height || undefined,
+                height: width || undefined,
+                style: { ...n.style, width: height || undefined, height: width || undefined },
+                data: { ...n.data, orientation },
             };
-        });
+        }) });
+    }, [nodeSettings.id, commitChange]);
 
-        setNodes(updatedNodes);
-        setTimeout(() => reactFlowInstance.fitView({ padding: 0.2 }), 0);
-    }, [nodes, edges, reactFlowInstance, setNodes]);
+    // Switch cases: renamed cases relabel edges still showing the old name, removed cases drop their edge
+    const updateSwitchCases = useCallback((cases: SwitchCase[]) => {
+        const { nodes: currentNodes, edges: currentEdges } = canvasRef.current;
+        const node = currentNodes.find(n => n.id === nodeSettings.id && n.type === 'switch');
+        if (!node) return;
+        const previous = getSwitchCases(node);
+        const caseById = new Map(cases.map(c => [c.id, c]));
+        const requiredWidth = getSwitchSize(cases.length).width;
+
+        const nextNodes = currentNodes.map(n => {
+            if (n.id !== node.id) return n;
+            const width = n.measured?.width || Number(n.style?.width) || 0;
+            // Grow the node so every case keeps a readable cell
+            const resized = width && width < requiredWidth
+                ? { ...(n.width ? { width: requiredWidth } : {}), style: { ...n.style, width: requiredWidth } }
+                : {};
+            return { ...n, ...resized, data: { ...n.data, cases } };
+        });
+        const nextEdges = currentEdges.flatMap(e => {
+            const caseId = e.source === node.id ? getCaseIdFromHandle(e.sourceHandle) : undefined;
+            if (caseId === undefined) return [e];
+            const next = caseById.get(caseId);
+            if (!next) return [];
+            const old = previous.find(c => c.id === caseId);
+            return old && old.label !== next.label && e.label === old.label ? [applyEdgeAppearance(e, { label: next.label })] : [e];
+        });
+        commitChange('Edit cases', { nodes: nextNodes, edges: nextEdges }, { mergeKey: `cases:${node.id}` });
+    }, [nodeSettings.id, commitChange]);
 
-    // Keyboard shortcuts
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            // Don't trigger shortcuts when typing in input/textarea
-            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+    const handleSubprocessLinkFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) updateSubprocessReference({ fileName: file.name });
+        event.target.value = '';
+    }, [updateSubprocessReference]);
+
+    const currentCrumb = useCallback((): SubprocessCrumb => ({
+        pageId: activePageId,
+        name: pages.find(p => p.id === activePageId)?.name || 'Page',
+        fileName: projectFileName,
+    }), [activePageId, pages, projectFileName]);
+
+    // Drill down into the chart referenced by a sub-process node
+    const handleOpenSubprocess = useCallback((node: FlowchartNode) => {
+        const reference = getSubprocessReference(node);
+        if (reference?.pageId) {
+            if (!pages.some(p => p.id === reference.pageId)) {
+                alert('The page linked to this sub-process no longer exists.');
                 return;
             }
+            setBreadcrumbs(prev => [...prev, currentCrumb()]);
+            handleSelectPage(reference.pageId);
+        } else if (reference?.fileName) {
+            // Browsers cannot reopen a file by name, so ask for it
+            subprocessOpenInputRef.current?.click();
+        } else {
+            openNodeInspector(node);
+            alert('Link this sub-process to a page or a .fchart file in the inspector first.');
+        }
+    }, [pages, currentCrumb, handleSelectPage, openNodeInspector]);
 
-            const isMac = navigator.platform.toUpperCase().includes('MAC');
-            const modKey = isMac ? e.metaKey : e.ctrlKey;
+    const handleSubprocessOpenFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
 
-            // Ctrl/Cmd + S: Save project
-            if (modKey && e.key === 's') {
-                e.preventDefault();
-                handleSaveProject();
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const project = loadProject(e.target?.result as string);
+            if (!project) {
+                alert('Failed to load project file. Please check the file format.');
+                return;
             }
+            // Keep the parent project so the breadcrumb can bring it back
+            setBreadcrumbs(prev => [...prev, { ...currentCrumb(), project: createProject(collectPages(), activePageId) }]);
+            applyProject(project);
+            setProjectFileName(file.name);
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    }, [currentCrumb, collectPages, activePageId, applyProject]);
 
-            // Ctrl/Cmd + E: Export as PNG
-            if (modKey && e.key === 'e') {
-                e.preventDefault();
-                handleExportImage();
-            }
+    const handleNodeDoubleClick = useCallback((_event: React.MouseEvent, node: FlowchartNode) => {
+        if (node.type === 'subprocess') handleOpenSubprocess(node);
+    }, [handleOpenSubprocess]);
 
-            // Ctrl/Cmd + Z: Undo
-            if (modKey && e.key === 'z' && !e.shiftKey) {
-                e.preventDefault();
-                handleUndo();
+    // Navigate back up the drill-down path
+    const handleSelectBreadcrumb = useCallback((index: number) => {
+        const crumb = breadcrumbs[index];
+        // The first snapshot at or after the crumb holds the project the crumb's page belongs to
+        const snapshot = breadcrumbs.slice(index).find(c => c.project);
+
+        if (snapshot?.project) {
+            if (!window.confirm(`Return to ${crumb.fileName || 'the parent chart'}?\n\nUnsaved changes to ${projectFileName || 'this chart'} will be lost. Save it first if needed.`)) {
+                return;
+            }
+            applyProject(snapshot.project, crumb.pageId);
+            setProjectFileName(crumb.fileName);
+        } else if (pages.some(p => p.id === crumb.pageId)) {
+            handleSelectPage(crumb.pageId);
+        }
+        setBreadcrumbs(breadcrumbs.slice(0, index));
+    }, [breadcrumbs, projectFileName, pages, applyProject, handleSelectPage]);
+
+    // Mermaid import: parse, replace the canvas and lay out the result
+    const handleImportMermaid = useCallback(() => {
+        let result;
+        try {
+            result = parseMermaid(mermaidImportText, { createId: () => getNodeId() });
+        } catch (error) {
+            alert(`Failed to import Mermaid diagram.\n\n${(error as Error).message}`);
+            return;
+        }
+
+        if (nodes.length > 0 && !window.confirm('Replace the current flowchart with the imported diagram?')) {
+            return;
+        }
+
+        const direction = result.direction === 'LR' || result.direction === 'RL' ? 'LR' : 'TB';
+        commitChange('Import Mermaid diagram', {
+            nodes: computeAutoLayout(toFlowNodes(result.nodes), result.edges as Edge[], { direction }),
+            edges: toFlowEdges(result.edges),
+        });
+        setShowMermaidImport(false);
+        setMermaidImportText('');
+
+        setTimeout(() => {
+            reactFlowInstance?.fitView({ padding: 0.2 });
+        }, 100);
+    }, [mermaidImportText, nodes.length, commitChange, toFlowNodes, toFlowEdges, reactFlowInstance]);
+
+    const handleMermaidFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            setMermaidImportText(e.target?.result as string);
+        };
+        reader.readAsText(file);
+
+        // Reset file input
+        event.target.value = '';
+    }, []);
+
+    // Source code import: build the chart from a function, then auto layout once it is on the canvas
+    const handleImportSource = useCallback(() => {
+        let result;
+        try {
+            result = parseSourceCode(sourceImportText, {
+                language: sourceImportLanguage === 'auto' ? undefined : sourceImportLanguage,
+                createId: () => getNodeId(),
+            });
+        } catch (error) {
+            alert(`Failed to generate a flowchart from the code.\n\n${(error as Error).message}`);
+            return;
+        }
+
+        if (nodes.length > 0 && !window.confirm('Replace the current flowchart with the generated one?')) {
+            return;
+        }
+
+        // The layout that follows is merged into the same undo step
+        commitChange('Generate from code', { nodes: toFlowNodes(result.nodes), edges: toFlowEdges(result.edges) }, { mergeKey: 'generate-from-code' });
+        setIsLayoutPending(true);
+        setShowSourceImport(false);
+        setSourceImportText('');
+    }, [sourceImportText, sourceImportLanguage, nodes.length, commitChange, toFlowNodes, toFlowEdges]);
+
+    const handleSourceFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        setSourceImportLanguage(/\.py$/i.test(file.name) ? 'python' : 'javascript');
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            setSourceImportText(e.target?.result as string);
+        };
+        reader.readAsText(file);
+
+        // Reset file input
+        event.target.value = '';
+    }, []);
+
+    // Structural validation (recomputed on every change)
+    const diagnostics = useMemo(() => validateFlowchart(nodes, edges), [nodes, edges]);
+
+    // Select the node or edge a diagnostic refers to and bring it into view
+    const handleSelectDiagnostic = useCallback((diagnostic: Diagnostic) => {
+        if (diagnostic.nodeId) {
+            const node = nodes.find(n => n.id === diagnostic.nodeId);
+            if (!node) return;
+            openNodeInspector(node);
+            setEdges(eds => eds.map(e => ({ ...e, selected: false })));
+            reactFlowInstance?.fitView({ nodes: [{ id: node.id }], duration: 300, maxZoom: 1.2, padding: 0.5 });
+        } else if (diagnostic.edgeId) {
+            setNodes(nds => nds.map(n => ({ ...n, selected: false })));
+            setEdges(eds => eds.map(e => ({ ...e, selected: e.id === diagnostic.edgeId })));
+        }
+    }, [nodes, openNodeInspector, setNodes, setEdges, reactFlowInstance]);
+
+    // Select a merge conflict on the canvas (switching to its page first)
+    const handleSelectConflict = useCallback((conflict: MergeConflict) => {
+        if (conflict.pageId !== activePageId) handleSelectPage(conflict.pageId);
+
+        const edge = conflict.kind === 'edge' ? conflict.options.ours.edges[0] ?? conflict.options.theirs.edges[0] : undefined;
+        const focusIds = edge ? [edge.source, edge.target] : conflict.nodeIds;
+        setNodes(nds => nds.map(n => ({ ...n, selected: conflict.kind === 'node' && n.id === conflict.itemId })));
+        setEdges(eds => eds.map(e => ({ ...e, selected: conflict.kind === 'edge' && e.id === conflict.itemId })));
+        setTimeout(() => {
+            reactFlowInstance?.fitView({ nodes: focusIds.map(id => ({ id })), duration: 300, maxZoom: 1.2, padding: 0.5 });
+        }, 50);
+    }, [activePageId, handleSelectPage, setNodes, setEdges, reactFlowInstance]);
+
+    // Run mode: start at the selected Start node (or the first one) and walk the graph
+    const handleStartSimulation = useCallback(() => {
+        const selectedStart = nodes.find(n => n.selected && n.type === 'start');
+        setSimulation(startSimulation(nodes, edges, {
+            startNodeId: selectedStart?.id,
+            answers: parseSimulationAnswers(simulationAnswers),
+        }));
+    }, [nodes, edges, simulationAnswers]);
+
+    const handleSimulationStep = useCallback((branch?: SimulationBranch) => {
+        setSimulation(prev => prev && stepSimulation(prev, nodes, edges, branch));
+    }, [nodes, edges]);
+
+    // Highlight the active node and the path taken while running
+    // Differences between the compared version and the active page
+    const comparedVersion = versions.find(v => v.id === compareVersionId);
+    const versionDiff = useMemo(() => comparedVersion
+        ? diffPages(comparedVersion.project.pages.find(p => p.id === activePageId), createProjectPage({ id: activePageId, name: '', nodes, edges }))
+        : null, [comparedVersion, activePageId, nodes, edges]);
+
+    // Merge conflicts on the active page that still need a decision
+    const openConflicts = useMemo(() => (mergeSession?.conflicts ?? [])
+        .filter(c => c.pageId === activePageId && !mergeSession!.resolved[c.id]), [mergeSession, activePageId]);
+
+    // Highlight the active node and the path taken while running, the differences to a compared version and open merge conflicts
+    const searchResult = useMemo(
+        () => (showSearch ? searchNodes(nodes, searchQuery) : { matches: [] }),
+        [showSearch, nodes, searchQuery]
+    );
+    const searchMatches = useMemo(
+        () => (showSearch && isSearchActive(searchQuery) ? new Set(searchResult.matches) : null),
+        [showSearch, searchQuery, searchResult]
+    );
+
+    // Filters offered in the search bar: the node types and colors on this page (and any still selected)
+    const searchFilters = useMemo(() => {
+        if (!showSearch) return { types: [], colors: [] };
+        const types = new Set([...nodes.map(n => n.type || ''), ...searchQuery.types]);
+        const colors = new Set([...nodes.map(getNodeColor), ...searchQuery.colors]);
+        return {
+            types: Object.keys(NODE_TYPE_NAMES).filter(type => types.has(type)),
+            colors: [...colors].filter(Boolean).sort(),
+        };
+    }, [showSearch, nodes, searchQuery]);
+
+    const displayNodes = useMemo(() => {
+        if (!simulation && !versionDiff && openConflicts.length === 0 && !searchMatches) return nodes;
+
+        const diffClasses = new Map<string, string>();
+        versionDiff?.moved.forEach(id => diffClasses.set(id, 'diff-moved'));
+        versionDiff?.edited.forEach(id => diffClasses.set(id, 'diff-changed'));
+        versionDiff?.relabeled.forEach(change => diffClasses.set(change.id, 'diff-changed'));
+        versionDiff?.added.forEach(id => diffClasses.set(id, 'diff-added'));
+        openConflicts.filter(c => c.kind === 'node').forEach(c => diffClasses.set(c.itemId, 'merge-conflict'));
+
+        const shown = nodes.map(n => {
+            const simulationClass = !simulation ? undefined : n.id === simulation.currentNodeId
+                ? 'simulation-active'
+                : simulation.lastVisitStep[n.id] !== undefined ? 'simulation-visited' : undefined;
+            const searchClass = !searchMatches ? undefined : !searchMatches.has(n.id)
+                ? 'search-dimmed'
+                : n.id === searchCurrentId ? 'search-match search-current' : 'search-match';
+            const className = [diffClasses.get(n.id), simulationClass, searchClass].filter(Boolean).join(' ');
+            return className ? { ...n, className } : n;
+        });
+
+        // Removed nodes are drawn where they were, beneath the current chart
+        const removed: FlowchartNode[] = (versionDiff?.removed ?? []).map(node => ({
+            id: `${REMOVED_ID_PREFIX}${node.id}`,
+            type: node.type,
+            position: node.position,
+            style: node.size ? { width: node.size.width, height: node.size.height } : undefined,
+            // Known size, so the ghosts need no measuring when they are rebuilt
+            ...(node.size ? { width: node.size.width, height: node.size.height, measured: { ...node.size } } : {}),
+            data: { ...node.data },
+            className: 'diff-removed',
+            draggable: false,
+            selectable: false,
+            connectable: false,
+            deletable: false,
+            focusable: false,
+        }));
+        return [...removed, ...shown];
+    }, [nodes, simulation, versionDiff, openConflicts, searchMatches, searchCurrentId]);
+
+    const displayEdges = useMemo(() => {
+        if (!simulation && !versionDiff && openConflicts.length === 0 && !searchMatches) return edges;
+
+        const addedEdgeIds = new Set(versionDiff?.addedEdges);
+        const conflictEdgeIds = new Set(openConflicts.filter(c => c.kind === 'edge').map(c => c.itemId));
+        const shown = edges.map(e => {
+            const className = [
+                addedEdgeIds.has(e.id) ? 'diff-added' : undefined,
+                conflictEdgeIds.has(e.id) ? 'merge-conflict' : undefined,
+                simulation?.traversedEdgeIds.includes(e.id) ? 'simulation-traversed' : undefined,
+                // Edges stay visible while they touch a match
+                searchMatches && !searchMatches.has(e.source) && !searchMatches.has(e.target) ? 'search-dimmed' : undefined,
+            ].filter(Boolean).join(' ');
+            return className ? { ...e, className } : e;
+        });
+        if (!versionDiff) return shown;
+
+        // Removed edges are drawn between current nodes or the ghosts of removed ones
+        const currentIds = new Set(nodes.map(n => n.id));
+        const removedIds = new Set(versionDiff.removed.map(n => n.id));
+        const getEnd = (id: string) => (currentIds.has(id) ? id : removedIds.has(id) ? `${REMOVED_ID_PREFIX}${id}` : undefined);
+        const removed = versionDiff.removedEdges.flatMap(edge => {
+            const source = getEnd(edge.source);
+            const target = getEnd(edge.target);
+            if (!source || !target) return [];
+            return [{
+                ...toFlowEdges([edge])[0],
+                id: `${REMOVED_ID_PREFIX}${edge.id}`,
+                source,
+                target,
+                animated: false,
+                className: 'diff-removed',
+                selectable: false,
+                deletable: false,
+                focusable: false,
+            }];
+        });
+        return [...shown, ...removed];
+    }, [edges, nodes, simulation, versionDiff, openConflicts, toFlowEdges, searchMatches]);
+
+    const handleSearchChange = useCallback((query: NodeSearchQuery) => {
+        setSearchQuery(query);
+        setSearchCurrentId(null);
+    }, []);
+
+    // Center the next or previous match (Enter / Shift+Enter in the search bar)
+    const handleSearchStep = useCallback((step: 1 | -1) => {
+        const { matches } = searchResult;
+        if (matches.length === 0) return;
+
+        const index = searchCurrentId ? matches.indexOf(searchCurrentId) : -1;
+        const nextIndex = index === -1
+            ? (step === 1 ? 0 : matches.length - 1)
+            : (index + step + matches.length) % matches.length;
+        const node = nodes.find(n => n.id === matches[nextIndex]);
+        if (!node || !reactFlowInstance) return;
+
+        const position = getAbsolutePosition(node, nodes);
+        const size = getNodeSize(node);
+        setSearchCurrentId(node.id);
+        reactFlowInstance.setCenter(position.x + size.width / 2, position.y + size.height / 2, {
+            zoom: Math.max(reactFlowInstance.getZoom(), 1),
+            duration: 300,
+        });
+    }, [searchResult, searchCurrentId, nodes, reactFlowInstance]);
+
+    const handleCloseSearch = useCallback(() => {
+        setShowSearch(false);
+        setSearchCurrentId(null);
+    }, []);
+
+    // All matches are written in one update, so that Replace All is a single undo step
+    const handleReplaceText = useCallback((matches: TextMatch[], replacement: string) => {
+        if (matches.length === 0) return;
+
+        const result = replaceTextMatches(nodes, edges, matches, replacement);
+        const found = matches[0].text.slice(matches[0].start, matches[0].end);
+        commitChange(`Replace ${matches.length === 1 ? '1 match' : `${matches.length} matches`} of "${found}"`, result);
+
+        // Keep an open inspector in step with the replaced text
+        setNodeSettings((prev: InspectorState) => {
+            if (!prev.isOpen || !matches.some(match => match.itemId === prev.id)) return prev;
+            if (prev.type === 'edge') {
+                const edge = result.edges.find(e => e.id === prev.id);
+                return { ...prev, label: typeof edge?.label === 'string' ? edge.label : '' };
+            }
+            const node = result.nodes.find(n => n.id === prev.id);
+            return { ...prev, label: node?.data.label ?? '', description: node?.data.description ?? '' };
+        });
+    }, [nodes, edges, commitChange]);
+
+    const handleSelectReplaceMatch = useCallback((match: TextMatch) => {
+        const edge = match.field === 'edgeLabel' ? edges.find(e => e.id === match.itemId) : undefined;
+        const focusIds = edge ? [edge.source, edge.target] : [match.itemId];
+        setNodes(nds => nds.map(n => ({ ...n, selected: !edge && n.id === match.itemId })));
+        setEdges(eds => eds.map(e => ({ ...e, selected: e.id === edge?.id })));
+        reactFlowInstance?.fitView({ nodes: focusIds.map(id => ({ id })), duration: 300, maxZoom: 1.2, padding: 0.5 });
+    }, [edges, setNodes, setEdges, reactFlowInstance]);
+
+    const layoutCanvas = useCallback((historyLabel: string, mergeKey?: string) => {
+        if (!reactFlowInstance || nodes.length === 0) return;
+
+        commitChange(historyLabel, {
+            nodes: computeAutoLayout(nodes, edges, { direction: layoutDirection, selectedOnly: layoutSelectionOnly }),
+        }, { mergeKey });
+        setTimeout(() => reactFlowInstance.fitView({ padding: 0.2 }), 0);
+    }, [nodes, edges, reactFlowInstance, commitChange, layoutDirection, layoutSelectionOnly]);
+
+    const handleAutoLayout = useCallback(() => layoutCanvas('Auto layout'), [layoutCanvas]);
+
+    // Run the auto layout after generated nodes have reached the canvas
+    useEffect(() => {
+        if (!isLayoutPending) return;
+        setIsLayoutPending(false);
+        layoutCanvas('Generate from code', 'generate-from-code');
+    }, [isLayoutPending, layoutCanvas]);
+
+    // Keyboard shortcuts
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Don't trigger shortcuts when typing in input/textarea
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+                return;
+            }
+
+            // A shared chart is read-only
+            if (sharedChart && e.key !== '?') return;
+
+            const isMac = navigator.platform.toUpperCase().includes('MAC');
+            const modKey = isMac ? e.metaKey : e.ctrlKey;
+
+            // Ctrl/Cmd + S: Save project
+            if (modKey && e.key === 's') {
+                e.preventDefault();
+                handleSaveProject();
+            }
+
+            // Ctrl/Cmd + E: Export as PNG
+            if (modKey && e.key === 'e') {
+                e.preventDefault();
+                handleExportImage();
+            }
+
+            // Ctrl/Cmd + Z: Undo
+            if (modKey && e.key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
             }
 
             // Ctrl/Cmd + Shift + Z or Ctrl/Cmd + Y: Redo
@@ -1080,6 +2056,19 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                 handleDuplicateNodes();
             }
 
+            // Ctrl/Cmd + F: Find nodes
+            if (modKey && e.key === 'f') {
+                e.preventDefault();
+                setShowSearch(true);
+                setSearchFocus(prev => prev + 1);
+            }
+
+            // Ctrl/Cmd + H: Find and replace
+            if (modKey && e.key === 'h') {
+                e.preventDefault();
+                setShowReplace(true);
+            }
+
             // Ctrl/Cmd + A: Select all nodes
             if (modKey && e.key === 'a') {
                 e.preventDefault();
@@ -1100,8 +2089,8 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                 setShowHelp(false);
             }
 
-            // Backspace: Delete selected nodes/edges
-            if (e.key === 'Backspace') {
+            // Delete or Backspace: Delete selected nodes/edges
+            if (e.key === 'Delete' || e.key === 'Backspace') {
                 e.preventDefault();
                 handleDeleteSelected();
             }
@@ -1109,151 +2098,653 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [handleSaveProject, handleExportImage, handleUndo, handleRedo, handleDuplicateNodes, handleDeleteSelected, setNodes, setEdges]);
+    }, [handleSaveProject, handleExportImage, handleUndo, handleRedo, handleDuplicateNodes, handleDeleteSelected, setNodes, setEdges, sharedChart]);
+
+    // Flow position of a screen point, by default the middle of the canvas
+    const getFlowPoint = useCallback((screen?: { x: number; y: number }) => {
+        if (!reactFlowInstance || !reactFlowWrapper.current) return { x: 0, y: 0 };
+        const bounds = reactFlowWrapper.current.getBoundingClientRect();
+        const { x, y, zoom } = reactFlowInstance.getViewport();
+        const point = screen ?? { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 };
+        return {
+            x: (point.x - bounds.left - x) / zoom,
+            y: (point.y - bounds.top - y) / zoom,
+        };
+    }, [reactFlowInstance]);
+
+    // Flow position for pasted content: under the pointer when it is over the canvas, else the viewport center
+    const getPasteCenter = useCallback(() => getFlowPoint(pointerRef.current ?? undefined), [getFlowPoint]);
+
+    const handleInsertTemplate = useCallback((template: FlowchartTemplate) => {
+        insertNodes(toFlowNodes(template.nodes), toFlowEdges(template.edges), getFlowPoint(), `Insert template "${template.name}"`);
+        setShowTemplates(false);
+    }, [insertNodes, toFlowNodes, toFlowEdges, getFlowPoint]);
+
+    const handleNewPageFromTemplate = useCallback((template: FlowchartTemplate) => {
+        const content = remapClipboardContent(toFlowNodes(template.nodes), toFlowEdges(template.edges), getNodeId, { x: 0, y: 0 });
+        const page: FlowchartPage = { id: getPageId(), name: template.name, nodes: content.nodes, edges: content.edges };
+        activatePage(page, [...collectPages(), page]);
+        setShowTemplates(false);
+    }, [toFlowNodes, toFlowEdges, collectPages, activatePage]);
+
+    // The selection (with lane and group contents), or the whole page when nothing is selected
+    const handleSaveTemplate = useCallback((name: string, description: string) => {
+        const source = nodes.some(n => n.selected) ? nodes : nodes.map(n => ({ ...n, selected: true }));
+        const payload = createClipboardPayload(source, edges);
+        if (!payload) {
+            alert('Nothing to save: this page is empty.');
+            return;
+        }
+
+        const template = createTemplate(name, payload, description);
+        storeTemplate(template)
+            .then(() => setTemplates(prev => [template, ...prev]))
+            .catch(error => {
+                console.error('Error saving template:', error);
+                alert('Failed to save the template.');
+            });
+    }, [nodes, edges]);
+
+    const handleDeleteTemplate = useCallback((template: FlowchartTemplate) => {
+        if (!window.confirm(`Delete template "${template.name}"?`)) return;
+        deleteTemplate(template.id)
+            .then(() => setTemplates(prev => prev.filter(t => t.id !== template.id)))
+            .catch(error => console.error('Error deleting template:', error));
+    }, []);
+
+    const handleExportTemplates = useCallback((selected: FlowchartTemplate[]) => {
+        const fileName = selected.length === 1 ? `${selected[0].name.replace(/[\\/:*?"<>|]+/g, '_')}.json` : 'templates.json';
+        exportTemplates(selected, fileName);
+    }, []);
+
+    const handleTemplateFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const imported = readTemplateFile(e.target?.result as string);
+            if (!imported || imported.length === 0) {
+                alert('Failed to import templates. Please choose a template file or a .fchart project.');
+                return;
+            }
+            Promise.all(imported.map(storeTemplate))
+                .then(() => setTemplates(prev => [...imported, ...prev]))
+                .catch(error => {
+                    console.error('Error importing templates:', error);
+                    alert('Failed to save the imported templates.');
+                });
+        };
+        reader.readAsText(file);
+
+        // Reset file input
+        event.target.value = '';
+    }, []);
+
+    // Copy the selection as JSON (for this app) and Mermaid text (for other tools)
+    const copySelection = useCallback((clipboardData: DataTransfer): boolean => {
+        const payload = createClipboardPayload(nodes, edges);
+        if (!payload) return false;
+
+        const text = exportAsMermaid(toFlowNodes(payload.nodes), toFlowEdges(payload.edges), mermaidDirection);
+        clipboardData.setData(CLIPBOARD_MIME_TYPE, JSON.stringify(payload));
+        clipboardData.setData('text/plain', text);
+        clipboardRef.current = { payload, text };
+        return true;
+    }, [nodes, edges, toFlowNodes, toFlowEdges, mermaidDirection]);
+
+    // Paste copied nodes, or import Mermaid text copied from another tool
+    const pasteClipboard = useCallback((clipboardData: DataTransfer): boolean => {
+        const text = clipboardData.getData('text/plain');
+        const payload = readClipboardPayload(clipboardData.getData(CLIPBOARD_MIME_TYPE))
+            ?? readClipboardPayload(text)
+            ?? (clipboardRef.current && clipboardRef.current.text === text ? clipboardRef.current.payload : undefined);
+
+        if (payload) {
+            const count = payload.nodes.length;
+            insertNodes(toFlowNodes(payload.nodes), toFlowEdges(payload.edges), getPasteCenter(), `Paste ${count === 1 ? 'node' : `${count} nodes`}`);
+            return true;
+        }
+
+        if (!isMermaidFlowchart(text)) return false;
+
+        let result;
+        try {
+            result = parseMermaid(text, { createId: () => getNodeId() });
+        } catch (error) {
+            alert(`Failed to paste Mermaid diagram.\n\n${(error as Error).message}`);
+            return true;
+        }
+
+        const direction = result.direction === 'LR' || result.direction === 'RL' ? 'LR' : 'TB';
+        const edgesToPaste = toFlowEdges(result.edges);
+        insertNodes(computeAutoLayout(toFlowNodes(result.nodes), edgesToPaste, { direction }), edgesToPaste, getPasteCenter(), 'Paste Mermaid diagram');
+        return true;
+    }, [toFlowNodes, toFlowEdges, insertNodes, getPasteCenter]);
+
+    // Ctrl/Cmd + C, X, V: clipboard events (text fields and selected page text keep the browser behavior)
+    useEffect(() => {
+        const isEditingText = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            return target instanceof HTMLInputElement
+                || target instanceof HTMLTextAreaElement
+                || !!target?.isContentEditable
+                || !!window.getSelection()?.toString();
+        };
+
+        const handleCopy = (e: ClipboardEvent) => {
+            if (!e.clipboardData || isEditingText(e)) return;
+            if (copySelection(e.clipboardData)) e.preventDefault();
+        };
+
+        const handleCut = (e: ClipboardEvent) => {
+            if (!e.clipboardData || isEditingText(e) || sharedChart) return;
+            if (copySelection(e.clipboardData)) {
+                e.preventDefault();
+                handleDeleteSelected('Cut selection');
+            }
+        };
+
+        const handlePaste = (e: ClipboardEvent) => {
+            if (!e.clipboardData || isEditingText(e) || sharedChart) return;
+            if (pasteClipboard(e.clipboardData)) e.preventDefault();
+        };
 
+        document.addEventListener('copy', handleCopy);
+        document.addEventListener('cut', handleCut);
+        document.addEventListener('paste', handlePaste);
+        return () => {
+            document.removeEventListener('copy', handleCopy);
+            document.removeEventListener('cut', handleCut);
+            document.removeEventListener('paste', handlePaste);
+        };
+    }, [copySelection, pasteClipboard, handleDeleteSelected, sharedChart]);
+
+    const inspectedNode = nodeSettings.type === 'node' ? nodes.find(n => n.id === nodeSettings.id) : undefined;
+    const inspectedCases = getSwitchCases(inspectedNode);
+    // Case buttons for a run stopped at a switch
+    const simulationNode = simulation?.status === 'waiting' ? nodes.find(n => n.id === simulation.currentNodeId) : undefined;
+    const simulationCases = simulationNode?.type === 'switch' ? getSwitchCases(simulationNode).map(c => c.label) : undefined;
+    const inspectedReference = inspectedNode?.data?.subprocess;
+    const inspectedEdge = nodeSettings.type === 'edge' ? edges.find(e => e.id === nodeSettings.id) : undefined;
+    const inspectedEdgeAppearance = inspectedEdge ? getEdgeAppearance(inspectedEdge) : undefined;
+    const activePageName = pages.find(p => p.id === activePageId)?.name;
+
+    // A chart opened from a share link is only viewed until it is forked
+    if (sharedChart) {
+        return (
+            <div className="flowchart-builder">
+                <FlowchartViewer project={sharedChart}>
+                    <Panel position="top-center" className="shared-banner">
+                        <Eye size={16} />
+                        <span>
+                            Shared chart <strong>{sharedChart.pages.find(p => p.id === sharedChart.activePageId)?.name ?? sharedChart.pages[0].name}</strong> · read-only
+                        </span>
+                        <button className="control-button primary" onClick={handleForkSharedChart} title="Add this chart to your own pages and edit it">
+                            <GitFork size={16} />
+                            <span>Fork &amp; Edit</span>
+                        </button>
+                        <button className="control-button" onClick={leaveShareLink} title="Close the shared chart and open your own">
+                            <span>My Charts</span>
+                        </button>
+                    </Panel>
+                </FlowchartViewer>
+            </div>
+        );
+    }
 
     return (
         <div className="flowchart-builder">
-            <Sidebar onAutoLayout={handleAutoLayout} onNodeAdd={handleAddNode} />
-            <div className="flowchart-container" ref={reactFlowWrapper}>
-                <ReactFlow
-                    nodes={nodes}
-                    edges={edges}
-                    onNodesChange={onNodesChange}
-                    onEdgesChange={onEdgesChange}
-                    onConnect={onConnect}
-                    onInit={setReactFlowInstance}
-                    onDrop={onDrop}
-                    onDragOver={onDragOver}
-                    onNodeClick={handleNodeClick}
-                    onNodeDragStart={(_event, _node) => {
-                        isDraggingRef.current = true;
-                        // Maintain selection of the node shown in inspector
-                        if (nodeSettings.isOpen && nodeSettings.id) {
-                            setNodes(nds => nds.map(n => ({
-                                ...n,
-                                selected: n.id === nodeSettings.id
-                            })));
+            <Sidebar
+                onAutoLayout={handleAutoLayout}
+                onNodeAdd={handleAddNode}
+                layoutDirection={layoutDirection}
+                onLayoutDirectionChange={setLayoutDirection}
+                layoutSelectionOnly={layoutSelectionOnly}
+                onLayoutSelectionOnlyChange={setLayoutSelectionOnly}
+            />
+            <div className="flowchart-container">
+                <PageTabs
+                    pages={pages}
+                    activePageId={activePageId}
+                    onSelect={handleSelectPage}
+                    onAdd={handleAddPage}
+                    onRename={handleRenamePage}
+                    onDelete={handleDeletePage}
+                    onReorder={handleReorderPages}
+                />
+                {breadcrumbs.length > 0 && (
+                    <nav className="subprocess-breadcrumbs" aria-label="Sub-process path">
+                        {breadcrumbs.map((crumb, index) => (
+                            <span key={index} className="subprocess-crumb-item">
+                                <button className="subprocess-crumb" onClick={() => handleSelectBreadcrumb(index)}>
+                                    {crumb.project && crumb.fileName ? `${crumb.fileName} / ${crumb.name}` : crumb.name}
+                                </button>
+                                <ChevronRight size={14} />
+                            </span>
+                        ))}
+                        <span className="subprocess-crumb current">
+                            {breadcrumbs[breadcrumbs.length - 1].project && projectFileName
+                                ? `${projectFileName} / ${activePageName}`
+                                : activePageName}
+                        </span>
+                    </nav>
+                )}
+                <div
+                    className="flowchart-canvas-area"
+                    ref={reactFlowWrapper}
+                    onMouseMove={(e) => {
+                        pointerRef.current = { x: e.clientX, y: e.clientY };
+                        if (collabSession?.pageId === activePageId && reactFlowInstance) {
+                            sendPresence({ cursor: reactFlowInstance.screenToFlowPosition(pointerRef.current) });
                         }
                     }}
-                    onNodeDragStop={() => {
-                        isDraggingRef.current = false;
-                        // Force a history save after drag ends
-                        setNodes(n => [...n]);
-                    }}
-                    nodeTypes={nodeTypes}
-                    fitView
-                    id="flowchart-canvas"
-                    deleteKeyCode="Delete"
-                    connectionLineStyle={{ stroke: '#60a5fa', strokeWidth: 2 }}
-                    defaultEdgeOptions={{
-                        animated: true,
-                        style: { strokeWidth: 2, stroke: '#60a5fa' },
+                    onMouseLeave={() => {
+                        pointerRef.current = null;
+                        if (collabSession) sendPresence({ cursor: null });
                     }}
                 >
-                    <Background
-                        variant={BackgroundVariant.Dots}
-                        gap={20}
-                        size={1}
-                        color="rgba(255, 255, 255, 0.1)"
-                    />
-                    <Controls
-                        className="custom-controls"
-                        showInteractive={false}
-                        onFitView={() => {
-                            if (reactFlowInstance) {
-                                reactFlowInstance.fitView({ padding: 0.2 });
-                                // インスペクター開いているときはビューポートを左にずらす
-                                if (nodeSettings.isOpen) {
-                                    setTimeout(() => {
-                                        const viewport = reactFlowInstance.getViewport();
-                                        reactFlowInstance.setViewport({
-                                            ...viewport,
-                                            x: viewport.x - 150, // インスペクター幅の半分
-                                        });
-                                    }, 50);
-                                }
+                    <ReactFlow
+                        nodes={displayNodes}
+                        edges={displayEdges}
+                        onNodesChange={handleNodesChange}
+                        onEdgesChange={onEdgesChange}
+                        onConnect={onConnect}
+                        onInit={setReactFlowInstance}
+                        onDrop={onDrop}
+                        onDragOver={onDragOver}
+                        onNodeClick={handleNodeClick}
+                        onNodeDoubleClick={handleNodeDoubleClick}
+                        onEdgeClick={handleEdgeClick}
+                        onNodeDragStart={(_event, _node) => {
+                            // The dragged nodes' starting versions are collected as their first positions arrive
+                            gestureStartRef.current = new Map();
+                            // Maintain selection of the node shown in inspector
+                            if (nodeSettings.isOpen && nodeSettings.id) {
+                                setNodes(nds => nds.map(n => ({
+                                    ...n,
+                                    selected: n.id === nodeSettings.id
+                                })));
                             }
                         }}
-                    />
-                    <MiniMap
-                        className={`custom-minimap ${nodeSettings.isOpen ? 'inspector-open' : ''}`}
-                        nodeColor={(node) => {
-                            switch (node.type) {
-                                case 'start': return '#10b981';
-                                case 'end': return '#ef4444';
-                                case 'execution': return '#3b82f6';
-                                case 'condition': return '#f59e0b';
-                                default: return '#6b7280';
-                            }
+                        onNodeDragStop={(_event, _node, draggedNodes) => {
+                            const start = gestureStartRef.current ?? undefined;
+                            gestureStartRef.current = null;
+                            // Nodes dropped over a lane or group join it; dragged out, they return to the canvas
+                            const draggedIds = new Set(draggedNodes.map(n => n.id));
+                            commitChange(`Move ${countOf(draggedIds.size, 'node')}`, {
+                                nodes: reparentNodes(canvasRef.current.nodes, draggedIds),
+                            }, { start });
+                        }}
+                        nodeTypes={nodeTypes}
+                        fitView
+                        id="flowchart-canvas"
+                        // Deleting is handled with the keyboard shortcuts, so that it is recorded as one undo step
+                        deleteKeyCode={null}
+                        connectionLineStyle={{ stroke: '#60a5fa', strokeWidth: 2 }}
+                        defaultEdgeOptions={{
+                            animated: true,
+                            style: { strokeWidth: 2, stroke: '#60a5fa' },
                         }}
-                        maskColor="rgba(0, 0, 0, 0.6)"
-                    />
+                    >
+                        <Background
+                            variant={BackgroundVariant.Dots}
+                            gap={20}
+                            size={1}
+                            color="rgba(255, 255, 255, 0.1)"
+                        />
+                        <Controls
+                            className="custom-controls"
+                            showInteractive={false}
+                            onFitView={() => {
+                                if (reactFlowInstance) {
+                                    reactFlowInstance.fitView({ padding: 0.2 });
+                                    // インスペクター開いているときはビューポートを左にずらす
+                                    if (nodeSettings.isOpen) {
+                                        setTimeout(() => {
+                                            const viewport = reactFlowInstance.getViewport();
+                                            reactFlowInstance.setViewport({
+                                                ...viewport,
+                                                x: viewport.x - 150, // インスペクター幅の半分
+                                            });
+                                        }, 50);
+                                    }
+                                }
+                            }}
+                        />
+                        <MiniMap
+                            className={`custom-minimap ${nodeSettings.isOpen ? 'inspector-open' : ''}`}
+                            nodeColor={(node) => {
+                                // Lanes and groups stay faint so their members remain visible
+                                if (isContainerNode(node)) return `${DEFAULT_NODE_COLORS[node.type!]}33`;
+                                switch (node.type) {
+                                    case 'start': return '#10b981';
+                                    case 'end': return '#ef4444';
+                                    case 'execution': return '#3b82f6';
+                                    case 'subprocess': return '#8b5cf6';
+                                    case 'condition': return '#f59e0b';
+                                    default: return DEFAULT_NODE_COLORS[node.type || ''] || '#6b7280';
+                                }
+                            }}
+                            maskColor="rgba(0, 0, 0, 0.6)"
+                        />
+                        {collabSession?.pageId === activePageId && (
+                            <CollaboratorOverlay peers={Object.values(collabSession.peers)} nodes={nodes} />
+                        )}
 
-                    <Panel position="top-right" className={`control-panel ${isControlsOpen ? 'open' : ''} ${nodeSettings.isOpen ? 'inspector-open' : ''}`}>
-                        <div className="control-panel-header" onClick={() => setIsControlsOpen(!isControlsOpen)}>
-                            <h3 className="gradient-text">Controls</h3>
-                            <ChevronDown size={18} className={`chevron-icon ${isControlsOpen ? 'rotated' : ''}`} />
-                        </div>
-                        <div className={`control-buttons-wrapper ${isControlsOpen ? 'open' : ''}`}>
-                            <div className="control-buttons">
-                                <button
-                                    className="control-button primary"
-                                    onClick={handleSaveProject}
-                                    title="Save Project (.fchart)"
-                                >
-                                    <Save size={18} />
-                                    <span>Save</span>
-                                </button>
-                                <button
-                                    className="control-button primary"
-                                    onClick={handleLoadProject}
-                                    title="Open Project (.fchart)"
-                                >
-                                    <FolderOpen size={18} />
-                                    <span>Open</span>
-                                </button>
-                                <div className="button-divider"></div>
-                                <button
-                                    className="control-button"
-                                    onClick={handleExportImage}
-                                    title="Export as PNG"
-                                >
-                                    <Download size={18} />
-                                    <span>PNG</span>
-                                </button>
-                                <button
-                                    className="control-button"
-                                    onClick={handleExportText}
-                                    title="Export as Text"
-                                >
-                                    <FileText size={18} />
-                                    <span>Text</span>
-                                </button>
-                                <button
-                                    className={`control-button ${copySuccess ? 'success' : ''}`}
-                                    onClick={handleCopyMermaid}
-                                    title="Copy Mermaid Diagram"
-                                >
-                                    {copySuccess ? <CheckCircle size={18} /> : <Copy size={18} />}
-                                    <span>{copySuccess ? 'Copied!' : 'Mermaid'}</span>
-                                </button>
+                        <Panel position="top-right" className={`control-panel ${isControlsOpen ? 'open' : ''} ${nodeSettings.isOpen ? 'inspector-open' : ''}`}>
+                            <div className="control-panel-header" onClick={() => setIsControlsOpen(!isControlsOpen)}>
+                                <h3 className="gradient-text">Controls</h3>
+                                <ChevronDown size={18} className={`chevron-icon ${isControlsOpen ? 'rotated' : ''}`} />
                             </div>
-                        </div>
-                    </Panel>
+                            <div className={`control-buttons-wrapper ${isControlsOpen ? 'open' : ''}`}>
+                                <div className="control-buttons">
+                                    <button
+                                        className="control-button primary"
+                                        onClick={handleSaveProject}
+                                        title="Save Project (.fchart)"
+                                    >
+                                        <Save size={18} />
+                                        <span>Save</span>
+                                    </button>
+                                    <button
+                                        className="control-button primary"
+                                        onClick={handleLoadProject}
+                                        title="Open Project (.fchart)"
+                                    >
+                                        <FolderOpen size={18} />
+                                        <span>Open</span>
+                                    </button>
+                                    <button
+                                        className={`control-button ${shareLinkCopied ? 'success' : ''}`}
+                                        onClick={handleCopyShareLink}
+                                        title="Copy a link that opens this page read-only (the chart is stored in the link itself)"
+                                    >
+                                        {shareLinkCopied ? <CheckCircle size={18} /> : <Link size={18} />}
+                                        <span>{shareLinkCopied ? 'Link copied!' : 'Share Link'}</span>
+                                    </button>
+                                    <div className="button-divider"></div>
+                                    <button
+                                        className="control-button"
+                                        onClick={handleExportImage}
+                                        title="Export as PNG"
+                                    >
+                                        <Download size={18} />
+                                        <span>PNG</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowVectorExport(true)}
+                                        title="Export as SVG or PDF"
+                                    >
+                                        <FileImage size={18} />
+                                        <span>SVG / PDF</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={handleExportHtml}
+                                        title="Export all pages as a standalone HTML viewer"
+                                    >
+                                        <Globe size={18} />
+                                        <span>HTML</span>
+                                    </button>
+                                    {nodes.some(n => n.type === 'subprocess') && (
+                                        <button
+                                            className="control-button"
+                                            onClick={() => setSubprocessMode(prev => prev === 'reference' ? 'inline' : 'reference')}
+                                            title="How Text, Mermaid and Code exports treat sub-processes: keep them as references or inline the linked pages"
+                                        >
+                                            <Layers size={18} />
+                                            <span>{subprocessMode === 'inline' ? 'Sub-charts: Inline' : 'Sub-charts: Reference'}</span>
+                                        </button>
+                                    )}
+                                    <button
+                                        className="control-button"
+                                        onClick={handleExportText}
+                                        title="Export as Text"
+                                    >
+                                        <FileText size={18} />
+                                        <span>Text</span>
+                                    </button>
+                                    <div className="control-button-row">
+                                        <button
+                                            className={`control-button ${copySuccess ? 'success' : ''}`}
+                                            onClick={handleCopyMermaid}
+                                            title="Copy Mermaid Diagram"
+                                        >
+                                            {copySuccess ? <CheckCircle size={18} /> : <Copy size={18} />}
+                                            <span>{copySuccess ? 'Copied!' : 'Mermaid'}</span>
+                                        </button>
+                                        <button
+                                            className="control-button direction-toggle"
+                                            onClick={() => setMermaidDirection(prev => prev === 'TB' ? 'LR' : 'TB')}
+                                            title={`Mermaid direction: ${mermaidDirection === 'TB' ? 'Top to Bottom' : 'Left to Right'}`}
+                                        >
+                                            <span>{mermaidDirection}</span>
+                                        </button>
+                                    </div>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowTemplates(true)}
+                                        title="Template library: insert a ready-made flow or save the selection for reuse"
+                                    >
+                                        <LayoutTemplate size={18} />
+                                        <span>Templates</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowMermaidImport(true)}
+                                        title="Import Mermaid Diagram"
+                                    >
+                                        <Upload size={18} />
+                                        <span>Import</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowSourceImport(true)}
+                                        title="Generate flowchart from a JavaScript/TypeScript or Python function"
+                                    >
+                                        <FileCode size={18} />
+                                        <span>From Code</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowCode(true)}
+                                        title="Show generated code"
+                                    >
+                                        <Code size={18} />
+                                        <span>Code</span>
+                                    </button>
+                                    <div className="button-divider"></div>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => {
+                                            setShowSearch(true);
+                                            setSearchFocus(prev => prev + 1);
+                                        }}
+                                        title="Find nodes by text, type or color (Ctrl+F)"
+                                    >
+                                        <Search size={18} />
+                                        <span>Find</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowReplace(prev => !prev)}
+                                        title="Find and replace in labels, descriptions and edge labels (Ctrl+H)"
+                                    >
+                                        <Replace size={18} />
+                                        <span>Replace</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowHistory(prev => !prev)}
+                                        title="Undo history: jump back or forward to any step"
+                                    >
+                                        <History size={18} />
+                                        <span>History</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => {
+                                            setShowVersions(prev => !prev);
+                                            setCompareVersionId(null);
+                                        }}
+                                        title="Versions recorded on each save: compare, restore or branch"
+                                    >
+                                        <GitBranch size={18} />
+                                        <span>Versions</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowMerge(true)}
+                                        title="Three-way merge of two edited copies of a project"
+                                    >
+                                        <GitMerge size={18} />
+                                        <span>Merge</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => (collabSession ? setShowCollabPanel(true) : setShowCollabJoin(true))}
+                                        title="Edit this page together with others on the local network"
+                                    >
+                                        <Users size={18} />
+                                        <span>{collabSession ? 'Live Session' : 'Collaborate'}</span>
+                                    </button>
+                                    <button
+                                        className="control-button"
+                                        onClick={() => setShowValidation(prev => !prev)}
+                                        title="Validate flowchart structure"
+                                    >
+                                        <ShieldCheck size={18} />
+                                        <span>Validate</span>
+                                        {diagnostics.length > 0 && (
+                                            <span className={`control-badge ${diagnostics.some(d => d.severity === 'error') ? 'error' : 'warning'}`}>
+                                                {diagnostics.length}
+                                            </span>
+                                        )}
+                                    </button>
+                                    <button
+                                        className={`control-button ${simulation ? 'success' : ''}`}
+                                        onClick={handleStartSimulation}
+                                        title="Run: step through the flowchart from the Start node"
+                                    >
+                                        <Play size={18} />
+                                        <span>{simulation ? 'Restart Run' : 'Run'}</span>
+                                    </button>
+                                </div>
+                            </div>
+                        </Panel>
+
+                        {(showValidation || showHistory || showVersions || showReplace || mergeSession || (collabSession && showCollabPanel)) && (
+                            <Panel position="top-left" className="validation-panel-container">
+                                {showReplace && (
+                                    <FindReplacePanel
+                                        nodes={nodes}
+                                        edges={edges}
+                                        initialFind={searchQuery.regex ? '' : searchQuery.text}
+                                        onReplace={handleReplaceText}
+                                        onSelect={handleSelectReplaceMatch}
+                                        onClose={() => setShowReplace(false)}
+                                    />
+                                )}
+                                {showValidation && (
+                                    <ValidationPanel
+                                        diagnostics={diagnostics}
+                                        onSelect={handleSelectDiagnostic}
+                                        onClose={() => setShowValidation(false)}
+                                    />
+                                )}
+                                {showHistory && (
+                                    <HistoryPanel
+                                        history={history}
+                                        onJump={handleJumpToHistory}
+                                        onClose={() => setShowHistory(false)}
+                                    />
+                                )}
+                                {collabSession && showCollabPanel && (
+                                    <CollaborationPanel
+                                        session={collabSession}
+                                        pageName={pages.find(p => p.id === collabSession.pageId)?.name ?? collabSession.pageId}
+                                        isPageActive={collabSession.pageId === activePageId}
+                                        onLeave={handleLeaveCollab}
+                                        onClose={() => setShowCollabPanel(false)}
+                                    />
+                                )}
+                                {mergeSession && (
+                                    <MergePanel
+                                        session={mergeSession}
+                                        pageNames={Object.fromEntries(pages.map(p => [p.id, p.name]))}
+                                        onSelect={handleSelectConflict}
+                                        onResolve={handleResolveConflict}
+                                        onResolveAll={handleResolveAllConflicts}
+                                        onSave={handleSaveProject}
+                                        onClose={handleCloseMerge}
+                                    />
+                                )}
+                                {showVersions && (
+                                    <VersionsPanel
+                                        versions={versions}
+                                        branch={versionBranch}
+                                        headVersionId={headVersionId}
+                                        compareVersionId={compareVersionId}
+                                        diff={versionDiff}
+                                        onCompare={setCompareVersionId}
+                                        onRestore={handleRestoreVersion}
+                                        onBranch={handleBranchVersion}
+                                        onDelete={handleDeleteVersion}
+                                        onClose={() => {
+                                            setShowVersions(false);
+                                            setCompareVersionId(null);
+                                        }}
+                                    />
+                                )}
+                            </Panel>
+                        )}
 
-                    <Panel position="top-left" style={{
-                        padding: '6px 10px',
-                        background: 'rgba(0, 0, 0, 0.5)',
-                        borderRadius: '6px',
-                        fontSize: '11px',
-                        color: 'rgba(255, 255, 255, 0.7)',
-                        fontWeight: '600',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                    }}>
-                        {APP_VERSION}
-                    </Panel>
-                </ReactFlow>
+                        {showSearch && (
+                            <Panel position="top-center">
+                                <SearchBar
+                                    query={searchQuery}
+                                    result={searchResult}
+                                    currentIndex={searchCurrentId ? searchResult.matches.indexOf(searchCurrentId) : -1}
+                                    types={searchFilters.types}
+                                    colors={searchFilters.colors}
+                                    focusSignal={searchFocus}
+                                    onChange={handleSearchChange}
+                                    onNext={() => handleSearchStep(1)}
+                                    onPrevious={() => handleSearchStep(-1)}
+                                    onClose={handleCloseSearch}
+                                />
+                            </Panel>
+                        )}
+
+                        {simulation && (
+                            <Panel position="bottom-center">
+                                <SimulationPanel
+                                    state={simulation}
+                                    cases={simulationCases}
+                                    answersText={simulationAnswers}
+                                    onAnswersChange={setSimulationAnswers}
+                                    onStep={handleSimulationStep}
+                                    onRestart={handleStartSimulation}
+                                    onClose={() => setSimulation(null)}
+                                />
+                            </Panel>
+                        )}
+
+                        <Panel position="top-left" style={{
+                            padding: '6px 10px',
+                            background: 'rgba(0, 0, 0, 0.5)',
+                            borderRadius: '6px',
+                            fontSize: '11px',
+                            color: 'rgba(255, 255, 255, 0.7)',
+                            fontWeight: '600',
+                            border: '1px solid rgba(255, 255, 255, 0.1)',
+                        }}>
+                            {APP_VERSION}
+                        </Panel>
+                    </ReactFlow>
+                </div>
                 <input
                     ref={projectFileInputRef}
                     type="file"
@@ -1261,6 +2752,48 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                     style={{ display: 'none' }}
                     onChange={handleProjectFileChange}
                 />
+                <input
+                    ref={templateFileInputRef}
+                    type="file"
+                    accept=".json,.fchart"
+                    style={{ display: 'none' }}
+                    onChange={handleTemplateFileChange}
+                />
+                <input
+                    ref={mergeFileInputRef}
+                    type="file"
+                    accept=".fchart,.json"
+                    style={{ display: 'none' }}
+                    onChange={handleMergeFileChange}
+                />
+                <input
+                    ref={mermaidFileInputRef}
+                    type="file"
+                    accept=".mmd,.mermaid,.md,.txt"
+                    style={{ display: 'none' }}
+                    onChange={handleMermaidFileChange}
+                />
+                <input
+                    ref={sourceFileInputRef}
+                    type="file"
+                    accept=".js,.jsx,.ts,.tsx,.mjs,.py"
+                    style={{ display: 'none' }}
+                    onChange={handleSourceFileChange}
+                />
+                <input
+                    ref={subprocessLinkInputRef}
+                    type="file"
+                    accept=".fchart"
+                    style={{ display: 'none' }}
+                    onChange={handleSubprocessLinkFileChange}
+                />
+                <input
+                    ref={subprocessOpenInputRef}
+                    type="file"
+                    accept=".fchart"
+                    style={{ display: 'none' }}
+                    onChange={handleSubprocessOpenFileChange}
+                />
             </div>
 
             {/* Right Side Inspector Panel (Unity-style) */}
@@ -1271,16 +2804,159 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                             {nodeSettings.nodeType === 'start' && '▶'}
                             {nodeSettings.nodeType === 'end' && '⬛'}
                             {nodeSettings.nodeType === 'execution' && '▭'}
+                            {nodeSettings.nodeType === 'subprocess' && '⊞'}
+                            {nodeSettings.nodeType === 'io' && '▱'}
+                            {nodeSettings.nodeType === 'document' && '🗎'}
+                            {nodeSettings.nodeType === 'database' && '⛁'}
+                            {nodeSettings.nodeType === 'manual' && '⏢'}
+                            {nodeSettings.nodeType === 'manualInput' && '⌨'}
+                            {nodeSettings.nodeType === 'connector' && '⬠'}
+                            {nodeSettings.nodeType === 'comment' && '❝'}
+                            {nodeSettings.nodeType === 'swimlane' && '☰'}
+                            {nodeSettings.nodeType === 'group' && '⬚'}
+                            {nodeSettings.nodeType === 'edge' && '⟶'}
                             {nodeSettings.nodeType === 'condition' && '◇'}
+                            {nodeSettings.nodeType === 'switch' && '⑂'}
                         </span>
-                        <h3>{nodeSettings.label || 'Node'}</h3>
+                        <h3>{nodeSettings.label || (nodeSettings.type === 'edge' ? 'Edge' : 'Node')}</h3>
                     </div>
                     <button className="inspector-close" onClick={handleCloseNodeSettings}>
                         ✕
                     </button>
                 </div>
 
-                {nodeSettings.isOpen && (
+                {nodeSettings.isOpen && nodeSettings.type === 'edge' && inspectedEdge && inspectedEdgeAppearance && (
+                    <div className="inspector-content">
+                        {/* Edge Label Section */}
+                        <div className="inspector-section">
+                            <div className="inspector-section-title">Label</div>
+                            <div className="inspector-field">
+                                <input
+                                    type="text"
+                                    value={inspectedEdgeAppearance.label}
+                                    onChange={(e) => updateEdgeAppearance({ label: e.target.value })}
+                                    placeholder="e.g. retry, timeout"
+                                />
+                            </div>
+                        </div>
+
+                        {/* Edge Color Section */}
+                        <div className="inspector-section">
+                            <div className="inspector-section-title">Color</div>
+                            <div className="inspector-field">
+                                <div className="color-picker-row">
+                                    <input
+                                        type="color"
+                                        value={inspectedEdgeAppearance.color}
+                                        onChange={(e) => updateEdgeAppearance({ color: e.target.value })}
+                                        className="color-picker"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={inspectedEdgeAppearance.color}
+                                        onChange={(e) => updateEdgeAppearance({ color: e.target.value })}
+                                        className="color-text"
+                                        placeholder="#000000"
+                                    />
+                                </div>
+                                <div className="color-presets">
+                                    {['#7c3aed', '#10b981', '#ef4444', '#f59e0b', '#3b82f6', '#ec4899', '#06b6d4', '#94a3b8'].map(color => (
+                                        <button
+                                            key={color}
+                                            className={`color-preset ${inspectedEdgeAppearance.color === color ? 'active' : ''}`}
+                                            style={{ background: color }}
+                                            onClick={() => updateEdgeAppearance({ color })}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Line Section */}
+                        <div className="inspector-section">
+                            <div className="inspector-section-title">Line</div>
+                            <div className="inspector-field edge-line-options">
+                                <label className="edge-option-row">
+                                    <span>Path</span>
+                                    <select
+                                        className="inspector-select"
+                                        value={inspectedEdgeAppearance.pathType}
+                                        onChange={(e) => updateEdgeAppearance({ pathType: e.target.value as EdgeAppearance['pathType'] })}
+                                    >
+                                        {EDGE_PATH_TYPES.map(pathType => (
+                                            <option key={pathType.id} value={pathType.id}>{pathType.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="edge-option-row">
+                                    <span>Width</span>
+                                    <input
+                                        type="range"
+                                        min={1}
+                                        max={8}
+                                        step={0.5}
+                                        value={inspectedEdgeAppearance.strokeWidth}
+                                        onChange={(e) => updateEdgeAppearance({ strokeWidth: Number(e.target.value) })}
+                                    />
+                                    <span className="edge-option-value">{inspectedEdgeAppearance.strokeWidth}px</span>
+                                </label>
+                                <label className="edge-option-row">
+                                    <span>Arrowhead</span>
+                                    <select
+                                        className="inspector-select"
+                                        value={inspectedEdgeAppearance.arrowhead}
+                                        onChange={(e) => updateEdgeAppearance({ arrowhead: e.target.value as EdgeAppearance['arrowhead'] })}
+                                    >
+                                        {ARROWHEAD_STYLES.map(arrowhead => (
+                                            <option key={arrowhead.id} value={arrowhead.id}>{arrowhead.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="edge-option-toggle">
+                                    <input
+                                        type="checkbox"
+                                        checked={inspectedEdgeAppearance.dashed}
+                                        onChange={(e) => updateEdgeAppearance({ dashed: e.target.checked })}
+                                    />
+                                    <span>Dashed</span>
+                                </label>
+                                <label className="edge-option-toggle">
+                                    <input
+                                        type="checkbox"
+                                        checked={inspectedEdgeAppearance.animated}
+                                        onChange={(e) => updateEdgeAppearance({ animated: e.target.checked })}
+                                    />
+                                    <span>Animated</span>
+                                </label>
+                            </div>
+                        </div>
+
+                        {/* Connection Section */}
+                        <div className="inspector-section">
+                            <div className="inspector-section-title">Connection</div>
+                            <div className="inspector-field">
+                                <p className="edge-endpoints">
+                                    <span>{nodeSettings.sourceNode}</span> → <span>{nodeSettings.targetNode}</span>
+                                </p>
+                                <button className="import-secondary-btn edge-swap-btn" onClick={handleSwapEdge}>
+                                    <ArrowLeftRight size={16} />
+                                    <span>Swap Source and Target</span>
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="inspector-section inspector-danger-section">
+                            <button
+                                className="inspector-delete-btn"
+                                onClick={() => handleDeleteEdge(inspectedEdge.id)}
+                            >
+                                Delete Edge
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {nodeSettings.isOpen && nodeSettings.type === 'node' && (
                     <div className="inspector-content">
                         {/* Label Section */}
                         <div className={`inspector-section ${inspectorCollapsed.label ? 'collapsed' : ''}`}>
@@ -1343,6 +3019,116 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                             )}
                         </div>
 
+                        {/* Sub-process Link Section */}
+                        {inspectedNode?.type === 'subprocess' && (
+                            <div className="inspector-section">
+                                <div className="inspector-section-title">Linked Chart</div>
+                                <div className="inspector-field">
+                                    <select
+                                        className="inspector-select"
+                                        value={inspectedReference?.pageId ? `page:${inspectedReference.pageId}` : inspectedReference?.fileName ? 'file' : ''}
+                                        onChange={(e) => {
+                                            const value = e.target.value;
+                                            if (value === 'file') return;
+                                            updateSubprocessReference(value ? { pageId: value.slice('page:'.length) } : undefined);
+                                        }}
+                                    >
+                                        <option value="">Not linked</option>
+                                        {pages.filter(p => p.id !== activePageId).map(p => (
+                                            <option key={p.id} value={`page:${p.id}`}>Page: {p.name}</option>
+                                        ))}
+                                        {inspectedReference?.pageId && !pages.some(p => p.id === inspectedReference.pageId) && (
+                                            <option value={`page:${inspectedReference.pageId}`}>Missing page ({inspectedReference.pageId})</option>
+                                        )}
+                                        {inspectedReference?.fileName && <option value="file">File: {inspectedReference.fileName}</option>}
+                                    </select>
+                                    <div className="subprocess-link-actions">
+                                        <button className="import-secondary-btn" onClick={() => subprocessLinkInputRef.current?.click()}>
+                                            Link .fchart file…
+                                        </button>
+                                        <button
+                                            className="import-secondary-btn"
+                                            disabled={!inspectedReference?.pageId && !inspectedReference?.fileName}
+                                            onClick={() => handleOpenSubprocess(inspectedNode)}
+                                        >
+                                            Open
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Lane Orientation Section */}
+                        {inspectedNode?.type === 'swimlane' && (
+                            <div className="inspector-section">
+                                <div className="inspector-section-title">Lane</div>
+                                <div className="inspector-field">
+                                    <select
+                                        className="inspector-select"
+                                        value={inspectedNode.data?.orientation || 'horizontal'}
+                                        onChange={(e) => updateLaneOrientation(e.target.value as LaneOrientation)}
+                                    >
+                                        <option value="horizontal">Horizontal (stacked rows)</option>
+                                        <option value="vertical">Vertical (side-by-side columns)</option>
+                                    </select>
+                                    <p className="inspector-hint">
+                                        {nodes.filter(n => n.parentId === inspectedNode.id).length} node(s) in this lane
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Switch Cases Section */}
+                        {inspectedNode?.type === 'switch' && (
+                            <div className="inspector-section">
+                                <div className="inspector-section-title">Cases</div>
+                                <div className="inspector-field">
+                                    {inspectedCases.map((c, index) => (
+                                        <div key={c.id} className="switch-case-row">
+                                            <input
+                                                type="text"
+                                                value={c.label}
+                                                onChange={(e) => updateSwitchCases(inspectedCases.map(other => (other.id === c.id ? { ...other, label: e.target.value } : other)))}
+                                                placeholder={`Case ${index + 1}`}
+                                            />
+                                            <button
+                                                className="switch-case-btn"
+                                                disabled={index === 0}
+                                                onClick={() => updateSwitchCases(moveItem(inspectedCases, index, index - 1))}
+                                                title="Move up"
+                                            >
+                                                ↑
+                                            </button>
+                                            <button
+                                                className="switch-case-btn"
+                                                disabled={index === inspectedCases.length - 1}
+                                                onClick={() => updateSwitchCases(moveItem(inspectedCases, index, index + 1))}
+                                                title="Move down"
+                                            >
+                                                ↓
+                                            </button>
+                                            <button
+                                                className="switch-case-btn remove"
+                                                onClick={() => updateSwitchCases(inspectedCases.filter(other => other.id !== c.id))}
+                                                title="Remove case and its connection"
+                                            >
+                                                ×
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        className="import-secondary-btn switch-case-add"
+                                        onClick={() => updateSwitchCases([...inspectedCases, createSwitchCase(`Case ${inspectedCases.length + 1}`, inspectedCases)])}
+                                    >
+                                        + Add case
+                                    </button>
+                                    <p className="inspector-hint">
+                                        Each case has its own output. A case named "Default" or "Else" becomes the fallback branch in generated code.
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Description Section */}
                         <div className={`inspector-section description-section ${inspectorCollapsed.description ? 'collapsed' : ''}`}>
                             <div
@@ -1380,6 +3166,334 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
             </aside>
 
 
+            {/* Template Library Modal */}
+            {showTemplates && (
+                <TemplateGallery
+                    templates={templates}
+                    selectionCount={nodes.filter(n => n.selected).length}
+                    onInsert={handleInsertTemplate}
+                    onCreatePage={handleNewPageFromTemplate}
+                    onSave={handleSaveTemplate}
+                    onDelete={handleDeleteTemplate}
+                    onImport={() => templateFileInputRef.current?.click()}
+                    onExport={handleExportTemplates}
+                    onClose={() => setShowTemplates(false)}
+                />
+            )}
+
+            {/* Mermaid Import Modal */}
+            {showMermaidImport && (
+                <div className="help-modal-overlay" onClick={() => setShowMermaidImport(false)}>
+                    <div className="help-modal import-modal" onClick={e => e.stopPropagation()}>
+                        <div className="help-header">
+                            <h2>Import Mermaid</h2>
+                            <p className="help-subtitle">Paste a flowchart TD definition or open a .mmd file</p>
+                        </div>
+                        <textarea
+                            className="import-textarea"
+                            value={mermaidImportText}
+                            onChange={(e) => setMermaidImportText(e.target.value)}
+                            placeholder={'flowchart TD\n  A(["Start"]) --> B{"Valid?"}\n  B -->|Yes| C["Process"]\n  B -->|No| D(["End"])\n  C --> D'}
+                            rows={10}
+                            autoFocus
+                        />
+                        <div className="import-actions">
+                            <button className="import-secondary-btn" onClick={() => mermaidFileInputRef.current?.click()}>
+                                <FolderOpen size={16} />
+                                <span>Open File</span>
+                            </button>
+                            <button
+                                className="help-close-btn"
+                                onClick={handleImportMermaid}
+                                disabled={!mermaidImportText.trim()}
+                            >
+                                Import
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Live Session Modal */}
+            {showCollabJoin && (
+                <div className="help-modal-overlay" onClick={() => setShowCollabJoin(false)}>
+                    <div className="help-modal import-modal" onClick={e => e.stopPropagation()}>
+                        <div className="help-header">
+                            <h2>Collaborate</h2>
+                            <p className="help-subtitle">Edit this page live with others through a sync server on your network</p>
+                        </div>
+                        <div className="collab-form">
+                            <label>
+                                <span>Server</span>
+                                <input
+                                    type="text"
+                                    value={collabForm.url}
+                                    onChange={e => setCollabForm(prev => ({ ...prev, url: e.target.value }))}
+                                    placeholder={getDefaultCollabUrl()}
+                                />
+                            </label>
+                            <label>
+                                <span>Room</span>
+                                <input
+                                    type="text"
+                                    value={collabForm.room}
+                                    onChange={e => setCollabForm(prev => ({ ...prev, room: e.target.value }))}
+                                    placeholder="default"
+                                />
+                            </label>
+                            <label>
+                                <span>Your name</span>
+                                <input
+                                    type="text"
+                                    value={collabForm.name}
+                                    onChange={e => setCollabForm(prev => ({ ...prev, name: e.target.value }))}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleJoinCollab(); }}
+                                    placeholder="Guest"
+                                    maxLength={100}
+                                    autoFocus
+                                />
+                            </label>
+                            <p className="export-hint">
+                                Start the server with <code>npm run sync-server</code>. Joining a room that already has a chart replaces this page with it; an empty room starts from this page.
+                            </p>
+                        </div>
+                        <div className="import-actions">
+                            <button className="help-close-btn" onClick={handleJoinCollab}>
+                                Join
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Three-way Merge Modal */}
+            {showMerge && (
+                <div className="help-modal-overlay" onClick={() => setShowMerge(false)}>
+                    <div className="help-modal import-modal" onClick={e => e.stopPropagation()}>
+                        <div className="help-header">
+                            <h2>Merge Projects</h2>
+                            <p className="help-subtitle">Combine two edited copies of a .fchart with the version they started from</p>
+                        </div>
+                        <div className="export-options">
+                            {([
+                                ['base', 'Base', 'Common ancestor'],
+                                ['ours', 'Mine', 'My copy'],
+                                ['theirs', 'Theirs', 'Their copy'],
+                            ] as const).map(([input, label, hint]) => (
+                                <div className="export-option-row" key={input}>
+                                    <span className="export-option-label">{label}</span>
+                                    {input === 'ours' && (
+                                        <div className="code-tabs">
+                                            <button
+                                                className={`code-tab ${mergeUseCurrent ? 'active' : ''}`}
+                                                onClick={() => setMergeUseCurrent(true)}
+                                            >
+                                                Current chart
+                                            </button>
+                                            <button
+                                                className={`code-tab ${!mergeUseCurrent ? 'active' : ''}`}
+                                                onClick={() => setMergeUseCurrent(false)}
+                                            >
+                                                File
+                                            </button>
+                                        </div>
+                                    )}
+                                    {(input !== 'ours' || !mergeUseCurrent) && (
+                                        <button className="import-secondary-btn" onClick={() => handleChooseMergeFile(input)} title={hint}>
+                                            <FolderOpen size={16} />
+                                            <span>{mergeInputs[input]?.fileName ?? 'Choose File'}</span>
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                            <p className="export-hint">Nodes, edges and pages are matched by ID. Changes made on one side are merged; conflicting ones are listed on the canvas and start with mine.</p>
+                        </div>
+                        <div className="import-actions">
+                            <button
+                                className="help-close-btn"
+                                onClick={handleRunMerge}
+                                disabled={!mergeInputs.base || !mergeInputs.theirs || (!mergeUseCurrent && !mergeInputs.ours)}
+                            >
+                                Merge
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* SVG / PDF Export Modal */}
+            {showVectorExport && (
+                <div className="help-modal-overlay" onClick={() => setShowVectorExport(false)}>
+                    <div className="help-modal import-modal" onClick={e => e.stopPropagation()}>
+                        <div className="help-header">
+                            <h2>Vector Export</h2>
+                            <p className="help-subtitle">Sharp at any zoom level and in print</p>
+                        </div>
+                        <div className="export-options">
+                            <div className="export-option-row">
+                                <span className="export-option-label">Format</span>
+                                <div className="code-tabs">
+                                    {(['svg', 'pdf'] as const).map(format => (
+                                        <button
+                                            key={format}
+                                            className={`code-tab ${vectorFormat === format ? 'active' : ''}`}
+                                            onClick={() => setVectorFormat(format)}
+                                        >
+                                            {format.toUpperCase()}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="export-option-row">
+                                <span className="export-option-label">Background</span>
+                                <div className="code-tabs">
+                                    {([['theme', 'Theme'], ['transparent', 'Transparent']] as const).map(([id, label]) => (
+                                        <button
+                                            key={id}
+                                            className={`code-tab ${exportBackground === id ? 'active' : ''}`}
+                                            onClick={() => setExportBackground(id)}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="export-option-row">
+                                <span className="export-option-label">Content</span>
+                                <div className="code-tabs">
+                                    <button
+                                        className={`code-tab ${!exportSelectionOnly ? 'active' : ''}`}
+                                        onClick={() => setExportSelectionOnly(false)}
+                                    >
+                                        Whole chart
+                                    </button>
+                                    <button
+                                        className={`code-tab ${exportSelectionOnly ? 'active' : ''}`}
+                                        onClick={() => setExportSelectionOnly(true)}
+                                        disabled={!nodes.some(n => n.selected)}
+                                    >
+                                        Selection only
+                                    </button>
+                                </div>
+                            </div>
+                            {vectorFormat === 'pdf' && (
+                                <div className="export-option-row">
+                                    <span className="export-option-label">Pages</span>
+                                    <div className="code-tabs">
+                                        {([['single', 'Single page'], ['multi', 'A4 pages']] as const).map(([id, label]) => (
+                                            <button
+                                                key={id}
+                                                className={`code-tab ${pdfPageMode === id ? 'active' : ''}`}
+                                                onClick={() => setPdfPageMode(id)}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {vectorFormat === 'pdf' && (
+                                <p className="export-hint">Choose "Save as PDF" in the print dialog.</p>
+                            )}
+                        </div>
+                        <div className="import-actions">
+                            <button className="help-close-btn" onClick={handleVectorExport} disabled={nodes.length === 0}>
+                                Export {vectorFormat.toUpperCase()}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Source Code Import Modal */}
+            {showSourceImport && (
+                <div className="help-modal-overlay" onClick={() => setShowSourceImport(false)}>
+                    <div className="help-modal import-modal" onClick={e => e.stopPropagation()}>
+                        <div className="help-header">
+                            <h2>Flowchart from Code</h2>
+                            <p className="help-subtitle">Paste a JavaScript/TypeScript or Python function</p>
+                        </div>
+                        <div className="code-tabs">
+                            {([['auto', 'Auto'], ['javascript', 'JavaScript / TypeScript'], ['python', 'Python']] as const).map(([id, label]) => (
+                                <button
+                                    key={id}
+                                    className={`code-tab ${sourceImportLanguage === id ? 'active' : ''}`}
+                                    onClick={() => setSourceImportLanguage(id)}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <textarea
+                            className="import-textarea"
+                            value={sourceImportText}
+                            onChange={(e) => setSourceImportText(e.target.value)}
+                            placeholder={'function checkout(cart) {\n  if (cart.isEmpty()) {\n    return null;\n  }\n  const order = createOrder(cart);\n  return order;\n}'}
+                            rows={12}
+                            autoFocus
+                        />
+                        <div className="import-actions">
+                            <button className="import-secondary-btn" onClick={() => sourceFileInputRef.current?.click()}>
+                                <FolderOpen size={16} />
+                                <span>Open File</span>
+                            </button>
+                            <button
+                                className="help-close-btn"
+                                onClick={handleImportSource}
+                                disabled={!sourceImportText.trim()}
+                            >
+                                Generate
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Generated Code Modal */}
+            {showCode && (
+                <div className="help-modal-overlay" onClick={() => setShowCode(false)}>
+                    <div className="help-modal code-modal" onClick={e => e.stopPropagation()}>
+                        <div className="help-header">
+                            <h2>Generated Code</h2>
+                            <p className="help-subtitle">Decisions become if/else, back-edges become while loops</p>
+                        </div>
+                        <div className="code-tabs">
+                            {CODE_LANGUAGES.map(language => (
+                                <button
+                                    key={language.id}
+                                    className={`code-tab ${codeLanguage === language.id ? 'active' : ''}`}
+                                    onClick={() => setCodeLanguage(language.id)}
+                                >
+                                    {language.label}
+                                </button>
+                            ))}
+                        </div>
+                        {generatedCode.error ? (
+                            <div className="code-error">{generatedCode.error}</div>
+                        ) : (
+                            <pre className="code-output">{generatedCode.code}</pre>
+                        )}
+                        <div className="import-actions">
+                            <button
+                                className="import-secondary-btn"
+                                onClick={handleCopyCode}
+                                disabled={!!generatedCode.error}
+                            >
+                                {codeCopySuccess ? <CheckCircle size={16} /> : <Copy size={16} />}
+                                <span>{codeCopySuccess ? 'Copied!' : 'Copy'}</span>
+                            </button>
+                            <button
+                                className="help-close-btn"
+                                onClick={handleDownloadCode}
+                                disabled={!!generatedCode.error}
+                            >
+                                Download
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Keyboard Shortcuts Help Modal */}
             {showHelp && (
                 <div className="help-modal-overlay" onClick={handleCloseHelp}>
@@ -1392,7 +3506,7 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                                 <div className="shortcut-keys">
                                     <kbd>Ctrl</kbd><span className="key-separator">+</span><kbd>S</kbd>
                                 </div>
-                                <span className="shortcut-label">Save Project</span>
+                                <span className="shortcut-label">Save Project (records a version)</span>
                             </div>
                             <div className="shortcut-item">
                                 <div className="shortcut-keys">
@@ -1412,6 +3526,24 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                                 </div>
                                 <span className="shortcut-label">Redo</span>
                             </div>
+                            <div className="shortcut-item">
+                                <div className="shortcut-keys">
+                                    <kbd>Ctrl</kbd><span className="key-separator">+</span><kbd>C</kbd>
+                                </div>
+                                <span className="shortcut-label">Copy Selection</span>
+                            </div>
+                            <div className="shortcut-item">
+                                <div className="shortcut-keys">
+                                    <kbd>Ctrl</kbd><span className="key-separator">+</span><kbd>X</kbd>
+                                </div>
+                                <span className="shortcut-label">Cut Selection</span>
+                            </div>
+                            <div className="shortcut-item">
+                                <div className="shortcut-keys">
+                                    <kbd>Ctrl</kbd><span className="key-separator">+</span><kbd>V</kbd>
+                                </div>
+                                <span className="shortcut-label">Paste (nodes or Mermaid text)</span>
+                            </div>
                             <div className="shortcut-item">
                                 <div className="shortcut-keys">
                                     <kbd>Ctrl</kbd><span className="key-separator">+</span><kbd>D</kbd>
@@ -1424,6 +3556,18 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                                 </div>
                                 <span className="shortcut-label">Select All</span>
                             </div>
+                            <div className="shortcut-item">
+                                <div className="shortcut-keys">
+                                    <kbd>Ctrl</kbd><span className="key-separator">+</span><kbd>F</kbd>
+                                </div>
+                                <span className="shortcut-label">Find Nodes (Enter for next match)</span>
+                            </div>
+                            <div className="shortcut-item">
+                                <div className="shortcut-keys">
+                                    <kbd>Ctrl</kbd><span className="key-separator">+</span><kbd>H</kbd>
+                                </div>
+                                <span className="shortcut-label">Find and Replace</span>
+                            </div>
                             <div className="shortcut-item">
                                 <div className="shortcut-keys">
                                     <kbd>Delete</kbd><span className="key-separator">/</span><kbd>Backspace</kbd>
@@ -1443,7 +3587,7 @@ export const FlowchartBuilder = ({ externalShowHelp, onHelpClose }: FlowchartBui
                                 <span className="shortcut-label">Show this Help</span>
                             </div>
                         </div>
-                        <p className="help-tip">💡 Double-click a node to edit its label</p>
+                        <p className="help-tip">💡 Double-click a node to edit its label (a Sub-process opens its linked chart). Drop nodes onto a lane or group to move them with it</p>
                         <button className="help-close-btn" onClick={handleCloseHelp}>
                             Close
                         </button>
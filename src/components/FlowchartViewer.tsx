@@ -0,0 +1,84 @@
+import { ReactNode, useCallback, useMemo, useState } from 'react';
+import { ReactFlow, ReactFlowProvider, Background, BackgroundVariant, Controls, Node } from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import { nodeTypes } from './nodes/CustomNodes';
+import { createFlowEdges, createFlowNodes, FlowchartProject } from '../utils/export';
+import './FlowchartBuilder.css';
+import './PageTabs.css';
+import './FlowchartViewer.css';
+
+interface FlowchartViewerProps {
+    project: FlowchartProject;
+    // Page shown first (defaults to the project's active page)
+    initialPageId?: string;
+    // Shown over the canvas, e.g. a banner with actions
+    children?: ReactNode;
+    className?: string;
+}
+
+/**
+ * Read-only view of a project: pan, zoom, page tabs and sub-process drill-down, but no editing.
+ * Needs the theme variables of index.css when embedded in another app.
+ */
+export const FlowchartViewer = ({ project, initialPageId, children, className }: FlowchartViewerProps) => {
+    const [activePageId, setActivePageId] = useState(initialPageId || project.activePageId || project.pages[0]?.id);
+    const page = project.pages.find(p => p.id === activePageId) || project.pages[0];
+
+    const nodes = useMemo(() => (page ? createFlowNodes(page.nodes) : []), [page]);
+    const edges = useMemo(() => (page ? createFlowEdges(page.edges) : []), [page]);
+
+    // Sub-processes linked to another page of the project open it
+    const handleNodeDoubleClick = useCallback((_event: React.MouseEvent, node: Node) => {
+        const targetId = (node.data?.subprocess as { pageId?: string } | undefined)?.pageId;
+        if (targetId && project.pages.some(p => p.id === targetId)) setActivePageId(targetId);
+    }, [project.pages]);
+
+    return (
+        <div className={`flowchart-viewer ${className ?? ''}`}>
+            {project.pages.length > 1 && (
+                <div className="page-tabs" role="tablist">
+                    {project.pages.map(p => (
+                        <button
+                            key={p.id}
+                            role="tab"
+                            aria-selected={p.id === page?.id}
+                            className={`page-tab ${p.id === page?.id ? 'active' : ''}`}
+                            onClick={() => setActivePageId(p.id)}
+                        >
+                            <span className="page-tab-name">{p.name}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flowchart-viewer-canvas">
+                <ReactFlowProvider>
+                    <ReactFlow
+                        // Remount per page so that each one is fitted to the view
+                        key={page?.id}
+                        nodes={nodes}
+                        edges={edges}
+                        nodeTypes={nodeTypes}
+                        onNodeDoubleClick={handleNodeDoubleClick}
+                        nodesDraggable={false}
+                        nodesConnectable={false}
+                        elementsSelectable={false}
+                        deleteKeyCode={null}
+                        zoomOnDoubleClick={false}
+                        fitView
+                        fitViewOptions={{ padding: 0.2 }}
+                        minZoom={0.1}
+                    >
+                        <Background
+                            variant={BackgroundVariant.Dots}
+                            gap={20}
+                            size={1}
+                            color="rgba(255, 255, 255, 0.1)"
+                        />
+                        <Controls className="custom-controls" showInteractive={false} />
+                        {children}
+                    </ReactFlow>
+                </ReactFlowProvider>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { PageHistory } from '../utils/history';
+import './HistoryPanel.css';
+
+interface HistoryPanelProps {
+    history: PageHistory;
+    onJump: (index: number) => void;
+    onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel = ({ history, onJump, onClose }: HistoryPanelProps) => {
+    const currentRef = useRef<HTMLButtonElement>(null);
+
+    // Keep the current step in view as commands are added or undone
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [history.index, history.commands.length]);
+
+    const steps = [
+        { id: 'initial', label: 'Initial state', timestamp: undefined as number | undefined },
+        ...history.commands.map(command => ({ id: command.id, label: command.label, timestamp: command.timestamp as number | undefined })),
+    ];
+
+    return (
+        <div className="history-panel">
+            <div className="history-header">
+                <h3 className="gradient-text">History</h3>
+                <span className="history-count">{history.index} / {history.commands.length}</span>
+                <button
+                    className="history-action"
+                    onClick={() => onJump(history.index - 1)}
+                    disabled={history.index === 0}
+                    title="Undo (Ctrl+Z)"
+                >
+                    <Undo2 size={16} />
+                </button>
+                <button
+                    className="history-action"
+                    onClick={() => onJump(history.index + 1)}
+                    disabled={history.index === history.commands.length}
+                    title="Redo (Ctrl+Y)"
+                >
+                    <Redo2 size={16} />
+                </button>
+                <button className="history-action" onClick={onClose} title="Close">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <ul className="history-list">
+                {steps.map((step, index) => {
+                    const state = index === history.index ? 'current' : index > history.index ? 'undone' : '';
+                    return (
+                        <li key={step.id}>
+                            <button
+                                ref={index === history.index ? currentRef : undefined}
+                                className={`history-item ${state}`}
+                                onClick={() => onJump(index)}
+                                title={index === history.index ? 'Current state' : 'Go back to this point'}
+                            >
+                                <span className="history-label">{step.label}</span>
+                                {step.timestamp !== undefined && (
+                                    <span className="history-time">{formatTime(step.timestamp)}</span>
+                                )}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
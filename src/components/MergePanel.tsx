@@ -0,0 +1,107 @@
+import { AlertTriangle, CheckCircle, Save, X } from 'lucide-react';
+import { MergeConflict, MergeSide } from '../utils/merge';
+import './MergePanel.css';
+
+/**
+ * Conflicts of a merge loaded on the canvas and how each was resolved so far
+ */
+export interface MergeSession {
+    conflicts: MergeConflict[];
+    resolved: Record<string, MergeSide>;
+    merged: Record<MergeSide, number>;
+    notes: string[];
+}
+
+interface MergePanelProps {
+    session: MergeSession;
+    pageNames: Record<string, string>;
+    onSelect: (conflict: MergeConflict) => void;
+    onResolve: (conflict: MergeConflict, side: MergeSide) => void;
+    onResolveAll: (side: MergeSide) => void;
+    onSave: () => void;
+    onClose: () => void;
+}
+
+export const MergePanel = ({ session, pageNames, onSelect, onResolve, onResolveAll, onSave, onClose }: MergePanelProps) => {
+    const openCount = session.conflicts.filter(c => !session.resolved[c.id]).length;
+    const showPages = new Set(session.conflicts.map(c => c.pageId)).size > 1;
+
+    return (
+        <div className="merge-panel">
+            <div className="merge-header">
+                <h3 className="gradient-text">Merge</h3>
+                <span className={`merge-count ${openCount > 0 ? 'open' : 'done'}`}>
+                    {openCount > 0 ? `${openCount} of ${session.conflicts.length} conflicts open` : 'All resolved'}
+                </span>
+                <button className="merge-close" onClick={onClose} title="Close (open conflicts keep mine)">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <p className="merge-summary">
+                Merged automatically: {session.merged.ours} changes from mine, {session.merged.theirs} from theirs.
+            </p>
+            {session.notes.map(note => (
+                <p key={note} className="merge-note">{note}</p>
+            ))}
+
+            {session.conflicts.length === 0 ? (
+                <div className="merge-empty">
+                    <CheckCircle size={16} />
+                    <span>No conflicts</span>
+                </div>
+            ) : (
+                <ul className="merge-list">
+                    {session.conflicts.map(conflict => {
+                        const choice = session.resolved[conflict.id];
+                        return (
+                            <li key={conflict.id} className={`merge-conflict-item ${choice ? 'resolved' : ''}`}>
+                                <button className="merge-conflict-title" onClick={() => onSelect(conflict)} title="Show on canvas">
+                                    {choice ? <CheckCircle size={14} /> : <AlertTriangle size={14} />}
+                                    <span>
+                                        {showPages && <span className="merge-page">{pageNames[conflict.pageId] ?? conflict.pageId} · </span>}
+                                        {conflict.description}
+                                    </span>
+                                </button>
+                                {conflict.details.length > 0 && (
+                                    <table className="merge-details">
+                                        <tbody>
+                                            {conflict.details.map(detail => (
+                                                <tr key={detail.field}>
+                                                    <th>{detail.field}</th>
+                                                    <td className={choice === 'ours' ? 'chosen' : ''}>{detail.ours}</td>
+                                                    <td className={choice === 'theirs' ? 'chosen' : ''}>{detail.theirs}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                                <div className="merge-choices">
+                                    <button className={choice === 'ours' ? 'active' : ''} onClick={() => onResolve(conflict, 'ours')}>
+                                        Keep mine
+                                    </button>
+                                    <button className={choice === 'theirs' ? 'active' : ''} onClick={() => onResolve(conflict, 'theirs')}>
+                                        Take theirs
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <div className="merge-actions">
+                {openCount > 0 && (
+                    <>
+                        <button onClick={() => onResolveAll('ours')}>All mine</button>
+                        <button onClick={() => onResolveAll('theirs')}>All theirs</button>
+                    </>
+                )}
+                <button className="primary" onClick={onSave} title="Save the merged project (.fchart)">
+                    <Save size={14} />
+                    <span>Save merged</span>
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import './PageTabs.css';
+
+interface PageTab {
+    id: string;
+    name: string;
+}
+
+interface PageTabsProps {
+    pages: PageTab[];
+    activePageId: string;
+    onSelect: (pageId: string) => void;
+    onAdd: () => void;
+    onRename: (pageId: string, name: string) => void;
+    onDelete: (pageId: string) => void;
+    onReorder: (fromIndex: number, toIndex: number) => void;
+}
+
+export const PageTabs = ({ pages, activePageId, onSelect, onAdd, onRename, onDelete, onReorder }: PageTabsProps) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const startRename = (page: PageTab) => {
+        setEditingId(page.id);
+        setDraftName(page.name);
+    };
+
+    const commitRename = () => {
+        if (editingId && draftName.trim()) {
+            onRename(editingId, draftName.trim());
+        }
+        setEditingId(null);
+    };
+
+    const handleDrop = (index: number) => {
+        if (dragIndex !== null && dragIndex !== index) {
+            onReorder(dragIndex, index);
+        }
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    return (
+        <div className="page-tabs">
+            {pages.map((page, index) => (
+                <div
+                    key={page.id}
+                    className={`page-tab ${page.id === activePageId ? 'active' : ''} ${dropIndex === index && dragIndex !== index ? 'drop-target' : ''}`}
+                    draggable={editingId !== page.id}
+                    onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragIndex(index);
+                    }}
+                    onDragOver={(e) => {
+                        if (dragIndex === null) return;
+                        e.preventDefault();
+                        setDropIndex(index);
+                    }}
+                    onDragEnd={() => {
+                        setDragIndex(null);
+                        setDropIndex(null);
+                    }}
+                    onDrop={() => handleDrop(index)}
+                    onClick={() => onSelect(page.id)}
+                    onDoubleClick={() => startRename(page)}
+                    title="Double-click to rename, drag to reorder"
+                >
+                    {editingId === page.id ? (
+                        <input
+                            className="page-tab-input"
+                            value={draftName}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            onBlur={commitRename}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitRename();
+                                if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            autoFocus
+                        />
+                    ) : (
+                        <span className="page-tab-name">{page.name}</span>
+                    )}
+                    {pages.length > 1 && (
+                        <button
+                            className="page-tab-close"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onDelete(page.id);
+                            }}
+                            title="Delete page"
+                        >
+                            <X size={12} />
+                        </button>
+                    )}
+                </div>
+            ))}
+            <button className="page-tab-add" onClick={onAdd} title="Add page">
+                <Plus size={16} />
+            </button>
+        </div>
+    );
+};
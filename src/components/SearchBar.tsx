@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Filter, Search, X } from 'lucide-react';
+import { NodeSearchQuery, NodeSearchResult, NODE_TYPE_NAMES } from '../utils/search';
+import './SearchBar.css';
+
+interface SearchBarProps {
+    query: NodeSearchQuery;
+    result: NodeSearchResult;
+    // Match centered on the canvas, -1 before the first jump
+    currentIndex: number;
+    // Node types and colors present on the page, offered as filters
+    types: string[];
+    colors: string[];
+    // Changes on every Ctrl+F so that the field is focused again
+    focusSignal: number;
+    onChange: (query: NodeSearchQuery) => void;
+    onNext: () => void;
+    onPrevious: () => void;
+    onClose: () => void;
+}
+
+const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+export const SearchBar = ({ query, result, currentIndex, types, colors, focusSignal, onChange, onNext, onPrevious, onClose }: SearchBarProps) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [showFilters, setShowFilters] = useState(query.types.length > 0 || query.colors.length > 0);
+    const filterCount = query.types.length + query.colors.length;
+    const total = result.matches.length;
+
+    useEffect(() => {
+        inputRef.current?.focus();
+        inputRef.current?.select();
+    }, [focusSignal]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.shiftKey) onPrevious(); else onNext();
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+            // Keep the browser's own find bar closed
+            e.preventDefault();
+            inputRef.current?.select();
+        }
+    };
+
+    const status = result.error
+        ? 'Invalid regex'
+        : total === 0
+            ? (query.text.trim() || filterCount > 0 ? 'No results' : '')
+            : currentIndex >= 0 ? `${currentIndex + 1} of ${total}` : `${total} ${total === 1 ? 'result' : 'results'}`;
+
+    return (
+        <div className="search-bar">
+            <div className="search-row">
+                <Search size={16} className="search-icon" />
+                <input
+                    ref={inputRef}
+                    type="text"
+                    value={query.text}
+                    onChange={e => onChange({ ...query, text: e.target.value })}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Find nodes by label or description"
+                    spellCheck={false}
+                />
+                <span className={`search-status ${result.error ? 'error' : ''}`} title={result.error}>{status}</span>
+                <button
+                    className={`search-toggle ${query.regex ? 'active' : ''}`}
+                    onClick={() => onChange({ ...query, regex: !query.regex })}
+                    title="Regular expression"
+                >
+                    .*
+                </button>
+                <button
+                    className={`search-toggle ${showFilters || filterCount > 0 ? 'active' : ''}`}
+                    onClick={() => setShowFilters(prev => !prev)}
+                    title="Filter by node type or color"
+                >
+                    <Filter size={14} />
+                    {filterCount > 0 && <span className="search-filter-count">{filterCount}</span>}
+                </button>
+                <button className="search-nav" onClick={onPrevious} disabled={total === 0} title="Previous match (Shift+Enter)">
+                    <ChevronUp size={16} />
+                </button>
+                <button className="search-nav" onClick={onNext} disabled={total === 0} title="Next match (Enter)">
+                    <ChevronDown size={16} />
+                </button>
+                <button className="search-nav" onClick={onClose} title="Close (Esc)">
+                    <X size={16} />
+                </button>
+            </div>
+
+            {showFilters && (
+                <div className="search-filters">
+                    <div className="search-filter-group">
+                        {types.map(type => (
+                            <button
+                                key={type}
+                                className={`search-chip ${query.types.includes(type) ? 'active' : ''}`}
+                                onClick={() => onChange({ ...query, types: toggle(query.types, type) })}
+                            >
+                                {NODE_TYPE_NAMES[type] || type}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="search-filter-group">
+                        {colors.map(color => (
+                            <button
+                                key={color}
+                                className={`search-swatch ${query.colors.includes(color) ? 'active' : ''}`}
+                                style={{ background: color }}
+                                onClick={() => onChange({ ...query, colors: toggle(query.colors, color) })}
+                                title={color}
+                            />
+                        ))}
+                        {filterCount > 0 && (
+                            <button className="search-clear" onClick={() => onChange({ ...query, types: [], colors: [] })}>
+                                Clear filters
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,9 +1,13 @@
 import { useState } from 'react';
-import { Circle, Square, Diamond, StopCircle, Layers, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Circle, Square, Diamond, Split, StopCircle, Columns, ArrowRightLeft, FileText, Database, Hand, Keyboard, Pentagon, MessageSquare, Rows, Kanban, Group, Layers, ChevronLeft, ChevronRight } from 'lucide-react';
+import { LayoutDirection } from '../utils/layout';
+import { SymbolType } from '../utils/symbols';
+import { LaneOrientation } from '../utils/groups';
 import './Sidebar.css';
 
 interface NodeTypeConfig {
-    type: 'start' | 'end' | 'execution' | 'condition';
+    type: 'start' | 'end' | 'execution' | 'subprocess' | 'condition' | 'switch' | 'swimlane' | 'group' | SymbolType;
+    orientation?: LaneOrientation;
     label: string;
     icon: React.ReactNode;
     color: string;
@@ -11,7 +15,11 @@ interface NodeTypeConfig {
 
 interface SidebarProps {
     onAutoLayout?: () => void;
-    onNodeAdd?: (nodeType: string, label: string) => void;
+    onNodeAdd?: (nodeType: string, label: string, orientation?: LaneOrientation) => void;
+    layoutDirection?: LayoutDirection;
+    onLayoutDirectionChange?: (direction: LayoutDirection) => void;
+    layoutSelectionOnly?: boolean;
+    onLayoutSelectionOnlyChange?: (selectionOnly: boolean) => void;
 }
 
 const nodeTypes: NodeTypeConfig[] = [
@@ -33,27 +41,111 @@ const nodeTypes: NodeTypeConfig[] = [
         icon: <Square size={20} />,
         color: '#3b82f6',
     },
+    {
+        type: 'subprocess',
+        label: 'Sub-process',
+        icon: <Columns size={20} />,
+        color: '#8b5cf6',
+    },
     {
         type: 'condition',
         label: 'Decision',
         icon: <Diamond size={20} />,
         color: '#f59e0b',
     },
+    {
+        type: 'switch',
+        label: 'Switch',
+        icon: <Split size={20} />,
+        color: '#d97706',
+    },
+    {
+        type: 'io',
+        label: 'Input/Output',
+        icon: <ArrowRightLeft size={20} />,
+        color: '#06b6d4',
+    },
+    {
+        type: 'document',
+        label: 'Document',
+        icon: <FileText size={20} />,
+        color: '#14b8a6',
+    },
+    {
+        type: 'database',
+        label: 'Stored Data',
+        icon: <Database size={20} />,
+        color: '#6366f1',
+    },
+    {
+        type: 'manual',
+        label: 'Manual Operation',
+        icon: <Hand size={20} />,
+        color: '#f97316',
+    },
+    {
+        type: 'manualInput',
+        label: 'Manual Input',
+        icon: <Keyboard size={20} />,
+        color: '#ec4899',
+    },
+    {
+        type: 'connector',
+        label: 'Connector',
+        icon: <Pentagon size={20} />,
+        color: '#64748b',
+    },
+    {
+        type: 'comment',
+        label: 'Comment',
+        icon: <MessageSquare size={20} />,
+        color: '#94a3b8',
+    },
+    {
+        type: 'swimlane',
+        orientation: 'horizontal',
+        label: 'Horizontal Lane',
+        icon: <Rows size={20} />,
+        color: '#0ea5e9',
+    },
+    {
+        type: 'swimlane',
+        orientation: 'vertical',
+        label: 'Vertical Lane',
+        icon: <Kanban size={20} />,
+        color: '#0ea5e9',
+    },
+    {
+        type: 'group',
+        label: 'Group',
+        icon: <Group size={20} />,
+        color: '#64748b',
+    },
 ];
 
-export const Sidebar = ({ onAutoLayout, onNodeAdd }: SidebarProps) => {
+export const Sidebar = ({
+    onAutoLayout,
+    onNodeAdd,
+    layoutDirection = 'TB',
+    onLayoutDirectionChange,
+    layoutSelectionOnly = false,
+    onLayoutSelectionOnlyChange,
+}: SidebarProps) => {
     const [isCollapsed, setIsCollapsed] = useState(false);
 
-    const onDragStart = (event: React.DragEvent, nodeType: string, label: string) => {
+    const onDragStart = (event: React.DragEvent, nodeType: string, label: string, orientation?: LaneOrientation) => {
         event.dataTransfer.setData('application/reactflow', nodeType);
         event.dataTransfer.setData('label', label);
+        if (orientation) {
+            event.dataTransfer.setData('orientation', orientation);
+        }
         event.dataTransfer.effectAllowed = 'move';
     };
 
     // Handle tap to add (for mobile)
-    const handleNodeClick = (nodeType: string, label: string) => {
+    const handleNodeClick = (nodeType: string, label: string, orientation?: LaneOrientation) => {
         if (onNodeAdd) {
-            onNodeAdd(nodeType, label);
+            onNodeAdd(nodeType, label, orientation);
         }
     };
 
@@ -78,11 +170,11 @@ export const Sidebar = ({ onAutoLayout, onNodeAdd }: SidebarProps) => {
                         <div className="node-list">
                             {nodeTypes.map((node) => (
                                 <div
-                                    key={node.type}
+                                    key={`${node.type}-${node.orientation || ''}`}
                                     className="node-item"
                                     draggable
-                                    onDragStart={(e) => onDragStart(e, node.type, node.label)}
-                                    onClick={() => handleNodeClick(node.type, node.label)}
+                                    onDragStart={(e) => onDragStart(e, node.type, node.label, node.orientation)}
+                                    onClick={() => handleNodeClick(node.type, node.label, node.orientation)}
                                     style={{
                                         '--node-color': node.color,
                                     } as React.CSSProperties}
@@ -110,6 +202,27 @@ export const Sidebar = ({ onAutoLayout, onNodeAdd }: SidebarProps) => {
                                 <Layers size={18} />
                                 <span>Auto Layout</span>
                             </button>
+                            <div className="layout-options">
+                                <div className="layout-direction">
+                                    {(['TB', 'LR'] as const).map(direction => (
+                                        <button
+                                            key={direction}
+                                            className={`layout-option ${layoutDirection === direction ? 'active' : ''}`}
+                                            onClick={() => onLayoutDirectionChange?.(direction)}
+                                            title={direction === 'TB' ? 'Top to Bottom' : 'Left to Right'}
+                                        >
+                                            {direction}
+                                        </button>
+                                    ))}
+                                </div>
+                                <button
+                                    className={`layout-option ${layoutSelectionOnly ? 'active' : ''}`}
+                                    onClick={() => onLayoutSelectionOnlyChange?.(!layoutSelectionOnly)}
+                                    title="Only lay out the selected nodes"
+                                >
+                                    Selection only
+                                </button>
+                            </div>
                         </div>
                     </>
                 )}
@@ -119,11 +232,11 @@ export const Sidebar = ({ onAutoLayout, onNodeAdd }: SidebarProps) => {
                         <div className="collapsed-nodes">
                             {nodeTypes.map((node) => (
                                 <div
-                                    key={node.type}
+                                    key={`${node.type}-${node.orientation || ''}`}
                                     className="collapsed-node-item"
                                     draggable
-                                    onDragStart={(e) => onDragStart(e, node.type, node.label)}
-                                    onClick={() => handleNodeClick(node.type, node.label)}
+                                    onDragStart={(e) => onDragStart(e, node.type, node.label, node.orientation)}
+                                    onClick={() => handleNodeClick(node.type, node.label, node.orientation)}
                                     title={node.label}
                                     style={{ color: node.color }}
                                 >
@@ -0,0 +1,138 @@
+import { useState, useEffect, useRef } from 'react';
+import { Play, Pause, StepForward, RotateCcw, X } from 'lucide-react';
+import { SimulationState, SimulationBranch } from '../utils/simulator';
+import './SimulationPanel.css';
+
+interface SimulationPanelProps {
+    state: SimulationState;
+    answersText: string;
+    // Case labels offered when the run stops at a switch node
+    cases?: string[];
+    onAnswersChange: (text: string) => void;
+    onStep: (branch?: SimulationBranch) => void;
+    onRestart: () => void;
+    onClose: () => void;
+}
+
+const AUTO_STEP_INTERVAL = 700;
+
+const STATUS_LABELS: Record<SimulationState['status'], string> = {
+    running: 'Running',
+    waiting: 'Waiting for decision',
+    finished: 'Finished',
+    deadEnd: 'Dead end',
+    loop: 'Infinite loop',
+    error: 'Error',
+};
+
+// Trace badge style: True/False get their branch colors, switch cases a neutral one
+const getBranchClass = (branch: SimulationBranch) => (branch === 'True' || branch === 'False' ? branch.toLowerCase() : 'case');
+
+export const SimulationPanel = ({ state, answersText, cases, onAnswersChange, onStep, onRestart, onClose }: SimulationPanelProps) => {
+    const [isPlaying, setIsPlaying] = useState(false);
+    const traceEndRef = useRef<HTMLDivElement>(null);
+
+    // Auto-step while playing; pauses at decisions and stops when the run is over
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (state.status !== 'running') {
+            if (state.status !== 'waiting') setIsPlaying(false);
+            return;
+        }
+
+        const timer = window.setTimeout(() => onStep(), AUTO_STEP_INTERVAL);
+        return () => clearTimeout(timer);
+    }, [isPlaying, state, onStep]);
+
+    // Keep the latest trace entry in view
+    useEffect(() => {
+        traceEndRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [state.trace.length]);
+
+    const isOver = state.status !== 'running' && state.status !== 'waiting';
+
+    return (
+        <div className="simulation-panel">
+            <div className="simulation-header">
+                <h3 className="gradient-text">Run</h3>
+                <span className={`simulation-status ${state.status}`}>{STATUS_LABELS[state.status]}</span>
+                <button className="simulation-close" onClick={onClose} title="Exit Run mode">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <div className="simulation-toolbar">
+                <button
+                    className="simulation-btn"
+                    onClick={() => setIsPlaying(prev => !prev)}
+                    disabled={isOver}
+                    title={isPlaying ? 'Pause' : 'Play'}
+                >
+                    {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button
+                    className="simulation-btn"
+                    onClick={() => onStep()}
+                    disabled={state.status !== 'running'}
+                    title="Step"
+                >
+                    <StepForward size={16} />
+                </button>
+                <button
+                    className="simulation-btn"
+                    onClick={() => {
+                        setIsPlaying(false);
+                        onRestart();
+                    }}
+                    title="Restart"
+                >
+                    <RotateCcw size={16} />
+                </button>
+                <input
+                    type="text"
+                    className="simulation-answers"
+                    value={answersText}
+                    onChange={(e) => onAnswersChange(e.target.value)}
+                    placeholder="Scripted answers: True, False, case, ..."
+                    title="Comma-separated answers used in order at each decision: True/False for conditions, a case name or number for switches (applied on restart)"
+                />
+            </div>
+
+            {state.status === 'waiting' && cases && (
+                <div className="simulation-decision">
+                    {cases.map((label, index) => (
+                        <button key={index} className="simulation-branch case" onClick={() => onStep(label)}>{label}</button>
+                    ))}
+                </div>
+            )}
+
+            {state.status === 'waiting' && !cases && (
+                <div className="simulation-decision">
+                    <button className="simulation-branch true" onClick={() => onStep('True')}>True</button>
+                    <button className="simulation-branch false" onClick={() => onStep('False')}>False</button>
+                </div>
+            )}
+
+            {state.message && (
+                <p className={`simulation-message ${state.status}`}>{state.message}</p>
+            )}
+
+            <div className="simulation-trace">
+                {state.trace.map(entry => (
+                    <div
+                        key={entry.step}
+                        className={`simulation-trace-item ${entry.nodeId === state.currentNodeId && entry.step === state.trace.length ? 'current' : ''}`}
+                    >
+                        <span className="trace-step">{entry.step}</span>
+                        <span className={`trace-type ${entry.nodeType}`}>{entry.nodeType}</span>
+                        <span className="trace-label">{entry.label}</span>
+                        {entry.branch && (
+                            <span className={`trace-branch ${getBranchClass(entry.branch)}`}>{entry.branch}</span>
+                        )}
+                    </div>
+                ))}
+                <div ref={traceEndRef} />
+            </div>
+        </div>
+    );
+};
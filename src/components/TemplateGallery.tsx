@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { Download, FilePlus2, PlusSquare, Save, Trash2, Upload } from 'lucide-react';
+import { createFlowEdges, createFlowNodes } from '../utils/export';
+import { getBuiltInTemplates, FlowchartTemplate } from '../utils/templates';
+import { buildFlowchartSvg } from '../utils/vectorExport';
+import './TemplateGallery.css';
+
+// Thumbnail drawn with the SVG exporter, so it matches the canvas styling
+const TemplatePreview = ({ template }: { template: FlowchartTemplate }) => {
+    const src = useMemo(() => {
+        const { svg } = buildFlowchartSvg(createFlowNodes(template.nodes), createFlowEdges(template.edges), { background: 'transparent', padding: 20 });
+        return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    }, [template]);
+
+    return <img className="template-preview" src={src} alt="" draggable={false} />;
+};
+
+interface TemplateCardProps {
+    template: FlowchartTemplate;
+    onInsert: (template: FlowchartTemplate) => void;
+    onCreatePage: (template: FlowchartTemplate) => void;
+    onExport?: (templates: FlowchartTemplate[]) => void;
+    onDelete?: (template: FlowchartTemplate) => void;
+}
+
+const TemplateCard = ({ template, onInsert, onCreatePage, onExport, onDelete }: TemplateCardProps) => (
+    <div className="template-card">
+        <button className="template-card-main" onClick={() => onInsert(template)} title="Insert at the center of the view">
+            <TemplatePreview template={template} />
+            <span className="template-name">{template.name}</span>
+            {template.description && <span className="template-description">{template.description}</span>}
+            <span className="template-meta">{template.nodes.length} {template.nodes.length === 1 ? 'node' : 'nodes'}</span>
+        </button>
+        <div className="template-card-actions">
+            <button onClick={() => onInsert(template)} title="Insert at the center of the view">
+                <PlusSquare size={14} />
+                <span>Insert</span>
+            </button>
+            <button onClick={() => onCreatePage(template)} title="Start a new page from this template">
+                <FilePlus2 size={14} />
+                <span>New Page</span>
+            </button>
+            {(onExport || onDelete) && (
+                <div className="template-card-tools">
+                    {onExport && (
+                        <button onClick={() => onExport([template])} title="Export as file">
+                            <Download size={14} />
+                        </button>
+                    )}
+                    {onDelete && (
+                        <button className="danger" onClick={() => onDelete(template)} title="Delete template">
+                            <Trash2 size={14} />
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    </div>
+);
+
+interface TemplateGalleryProps {
+    templates: FlowchartTemplate[];
+    // Selected nodes on the canvas; 0 saves the whole page
+    selectionCount: number;
+    onInsert: (template: FlowchartTemplate) => void;
+    onCreatePage: (template: FlowchartTemplate) => void;
+    onSave: (name: string, description: string) => void;
+    onDelete: (template: FlowchartTemplate) => void;
+    onImport: () => void;
+    onExport: (templates: FlowchartTemplate[]) => void;
+    onClose: () => void;
+}
+
+/**
+ * Modal listing built-in and saved templates, with saving, import and export
+ */
+export const TemplateGallery = ({ templates, selectionCount, onInsert, onCreatePage, onSave, onDelete, onImport, onExport, onClose }: TemplateGalleryProps) => {
+    const builtIns = useMemo(() => getBuiltInTemplates(), []);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+
+    const handleSave = () => {
+        if (!name.trim()) return;
+        onSave(name.trim(), description.trim());
+        setName('');
+        setDescription('');
+    };
+
+    return (
+        <div className="help-modal-overlay" onClick={onClose}>
+            <div className="help-modal template-modal" onClick={e => e.stopPropagation()}>
+                <div className="help-header">
+                    <h2>Templates</h2>
+                    <p className="help-subtitle">Insert a ready-made flow at the center of the view, or start a new page from it</p>
+                </div>
+
+                <div className="template-save">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+                        placeholder="Template name"
+                    />
+                    <input
+                        type="text"
+                        value={description}
+                        onChange={e => setDescription(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+                        placeholder="Description (optional)"
+                    />
+                    <button className="import-secondary-btn" onClick={handleSave} disabled={!name.trim()}>
+                        <Save size={16} />
+                        <span>{selectionCount > 0 ? `Save Selection (${selectionCount})` : 'Save Page'}</span>
+                    </button>
+                </div>
+
+                <div className="template-scroll">
+                    <h3 className="template-section-title">Built-in</h3>
+                    <div className="template-grid">
+                        {builtIns.map(template => (
+                            <TemplateCard key={template.id} template={template} onInsert={onInsert} onCreatePage={onCreatePage} />
+                        ))}
+                    </div>
+
+                    <h3 className="template-section-title">My Templates</h3>
+                    {templates.length === 0 ? (
+                        <p className="export-hint">Select nodes and save them as a template to reuse them in any chart.</p>
+                    ) : (
+                        <div className="template-grid">
+                            {templates.map(template => (
+                                <TemplateCard
+                                    key={template.id}
+                                    template={template}
+                                    onInsert={onInsert}
+                                    onCreatePage={onCreatePage}
+                                    onExport={onExport}
+                                    onDelete={onDelete}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="import-actions">
+                    <button className="import-secondary-btn" onClick={onImport} title="Import a template file or the pages of a .fchart project">
+                        <Upload size={16} />
+                        <span>Import</span>
+                    </button>
+                    <button className="import-secondary-btn" onClick={() => onExport(templates)} disabled={templates.length === 0}>
+                        <Download size={16} />
+                        <span>Export All</span>
+                    </button>
+                    <button className="help-close-btn" onClick={onClose}>
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,49 @@
+import { AlertCircle, AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { Diagnostic } from '../utils/validation';
+import './ValidationPanel.css';
+
+interface ValidationPanelProps {
+    diagnostics: Diagnostic[];
+    onSelect: (diagnostic: Diagnostic) => void;
+    onClose: () => void;
+}
+
+export const ValidationPanel = ({ diagnostics, onSelect, onClose }: ValidationPanelProps) => {
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const warningCount = diagnostics.length - errorCount;
+
+    return (
+        <div className="validation-panel">
+            <div className="validation-header">
+                <h3 className="gradient-text">Validation</h3>
+                <span className="validation-count error">{errorCount} errors</span>
+                <span className="validation-count warning">{warningCount} warnings</span>
+                <button className="validation-close" onClick={onClose} title="Close">
+                    <X size={16} />
+                </button>
+            </div>
+
+            {diagnostics.length === 0 ? (
+                <div className="validation-empty">
+                    <CheckCircle size={16} />
+                    <span>No problems found</span>
+                </div>
+            ) : (
+                <ul className="validation-list">
+                    {diagnostics.map(diagnostic => (
+                        <li key={diagnostic.id}>
+                            <button
+                                className={`validation-item ${diagnostic.severity}`}
+                                onClick={() => onSelect(diagnostic)}
+                                title={diagnostic.nodeId || diagnostic.edgeId ? 'Select on canvas' : undefined}
+                            >
+                                {diagnostic.severity === 'error' ? <AlertCircle size={14} /> : <AlertTriangle size={14} />}
+                                <span>{diagnostic.message}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
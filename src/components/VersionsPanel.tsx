@@ -0,0 +1,132 @@
+import { GitBranch, RotateCcw, Trash2, X } from 'lucide-react';
+import { FlowchartVersion, PageDiff, countPageChanges } from '../utils/versions';
+import './VersionsPanel.css';
+
+interface VersionsPanelProps {
+    versions: FlowchartVersion[];
+    branch: string;
+    headVersionId: string | null;
+    compareVersionId: string | null;
+    // Diff of the compared version against the active page
+    diff: PageDiff | null;
+    onCompare: (versionId: string | null) => void;
+    onRestore: (version: FlowchartVersion) => void;
+    onBranch: (version: FlowchartVersion) => void;
+    onDelete: (version: FlowchartVersion) => void;
+    onClose: () => void;
+}
+
+const formatSavedAt = (savedAt: string) =>
+    new Date(savedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const DiffSummary = ({ diff }: { diff: PageDiff }) => {
+    if (countPageChanges(diff) === 0) {
+        return <div className="version-diff-empty">No differences on this page</div>;
+    }
+
+    const nodeCounts = [
+        { className: 'added', text: `+${diff.added.length} added`, count: diff.added.length },
+        { className: 'removed', text: `−${diff.removed.length} removed`, count: diff.removed.length },
+        { className: 'moved', text: `${diff.moved.length} moved`, count: diff.moved.length },
+        { className: 'relabeled', text: `${diff.relabeled.length} relabeled`, count: diff.relabeled.length },
+        { className: 'edited', text: `${diff.edited.length} edited`, count: diff.edited.length },
+    ].filter(item => item.count > 0);
+    const edgeChanges = diff.addedEdges.length + diff.removedEdges.length;
+
+    return (
+        <div className="version-diff">
+            <div className="version-diff-counts">
+                {nodeCounts.map(item => (
+                    <span key={item.className} className={`version-diff-chip ${item.className}`}>{item.text}</span>
+                ))}
+                {edgeChanges > 0 && (
+                    <span className="version-diff-chip edges">
+                        edges +{diff.addedEdges.length} / −{diff.removedEdges.length}
+                    </span>
+                )}
+            </div>
+            {diff.relabeled.length > 0 && (
+                <ul className="version-diff-labels">
+                    {diff.relabeled.map(change => (
+                        <li key={change.id}>
+                            <span className="before">{change.before || '(empty)'}</span>
+                            <span className="arrow">→</span>
+                            <span className="after">{change.after || '(empty)'}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export const VersionsPanel = ({
+    versions,
+    branch,
+    headVersionId,
+    compareVersionId,
+    diff,
+    onCompare,
+    onRestore,
+    onBranch,
+    onDelete,
+    onClose,
+}: VersionsPanelProps) => (
+    <div className="versions-panel">
+        <div className="versions-header">
+            <h3 className="gradient-text">Versions</h3>
+            <span className="version-branch current" title="Branch that the next save is recorded on">
+                <GitBranch size={12} />
+                {branch}
+            </span>
+            <button className="versions-close" onClick={onClose} title="Close">
+                <X size={16} />
+            </button>
+        </div>
+
+        {versions.length === 0 ? (
+            <div className="versions-empty">Save with Ctrl+S to record a version.</div>
+        ) : (
+            <ul className="versions-list">
+                {versions.map(version => {
+                    const isCompared = version.id === compareVersionId;
+                    return (
+                        <li key={version.id} className={`version-item ${isCompared ? 'compared' : ''}`}>
+                            <button
+                                className="version-summary"
+                                onClick={() => onCompare(isCompared ? null : version.id)}
+                                title={isCompared ? 'Hide the differences' : 'Show the differences to the current chart'}
+                            >
+                                <span className="version-time">{formatSavedAt(version.savedAt)}</span>
+                                <span className="version-branch">{version.branch}</span>
+                                {version.id === headVersionId && <span className="version-head">current</span>}
+                                <span className="version-stats">
+                                    {version.stats.nodes} nodes · {version.stats.edges} edges
+                                    {version.stats.pages > 1 ? ` · ${version.stats.pages} pages` : ''}
+                                </span>
+                            </button>
+                            {isCompared && (
+                                <>
+                                    {diff ? <DiffSummary diff={diff} /> : <div className="version-diff-empty">Comparing…</div>}
+                                    <div className="version-actions">
+                                        <button onClick={() => onRestore(version)} title="Replace the chart with this version">
+                                            <RotateCcw size={14} />
+                                            <span>Restore</span>
+                                        </button>
+                                        <button onClick={() => onBranch(version)} title="Continue from this version on a new branch">
+                                            <GitBranch size={14} />
+                                            <span>Branch</span>
+                                        </button>
+                                        <button className="danger" onClick={() => onDelete(version)} title="Delete this version">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        )}
+    </div>
+);
@@ -1,11 +1,17 @@
 import { memo, useState, useCallback, useEffect } from 'react';
-import { Handle, Position, NodeProps, NodeResizer, useEdges, Node } from '@xyflow/react';
+import { Handle, Position, NodeProps, NodeResizer, useEdges, useUpdateNodeInternals, Node } from '@xyflow/react';
+import { getSymbolPath, SymbolType, SYMBOL_COLORS, SYMBOL_NAMES, SYMBOL_SIZES, SYMBOL_TEXT_INSET } from '../../utils/symbols';
+import { LANE_HEADER_SIZE, GROUP_HEADER_SIZE, LaneOrientation } from '../../utils/groups';
+import { getCaseHandleId, getCaseOffset, SwitchCase, CASE_ROW_HEIGHT, SWITCH_MIN_SIZE, SWITCH_TARGET_HANDLE } from '../../utils/switchCases';
 
 // Custom node data interface
 interface CustomNodeData extends Record<string, unknown> {
     label: string;
     color?: string;
     description?: string;
+    subprocess?: { pageId?: string; fileName?: string };
+    orientation?: LaneOrientation;
+    cases?: SwitchCase[];
     onChange?: (id: string, newLabel: string) => void;
     onOpenSettings?: (id: string) => void;
 }
@@ -357,6 +363,286 @@ export const ExecutionNode = memo(({ data, selected, id }: NodeProps<CustomNode>
 
 ExecutionNode.displayName = 'ExecutionNode';
 
+// Sub-process Node - Predefined process (rectangle with double side bars), links to another chart
+export const SubprocessNode = memo(({ data, selected, id }: NodeProps<CustomNode>) => {
+    const nodeColor = (data.color as string) || '#8b5cf6';
+    const reference = data.subprocess;
+    const caption = reference?.fileName || (reference?.pageId ? 'Linked page' : 'Not linked');
+
+    const handleContextMenu = useCallback((e: React.MouseEvent) => {
+        e.preventDefault();
+        if (data.onOpenSettings) {
+            data.onOpenSettings(id);
+        }
+    }, [id, data]);
+
+    const barStyle: React.CSSProperties = {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        width: '2px',
+        background: 'rgba(255, 255, 255, 0.7)',
+    };
+
+    return (
+        <div
+            className={`subprocess-node ${selected ? 'selected' : ''}`}
+            style={{
+                position: 'relative',
+                width: '100%',
+                height: '100%',
+                background: getGradient(nodeColor),
+                border: `2px solid ${nodeColor}`,
+                borderRadius: '4px',
+                padding: '10px 24px',
+                color: 'white',
+                fontWeight: '500',
+                minWidth: '170px',
+                minHeight: '80px',
+                boxSizing: 'border-box',
+                boxShadow: selected
+                    ? `0 0 20px ${nodeColor}80, 0 4px 16px rgba(0, 0, 0, 0.4), 0 0 0 10px transparent`
+                    : '0 4px 16px rgba(0, 0, 0, 0.4), 0 0 0 10px transparent',
+                transition: 'all 250ms cubic-bezier(0.4, 0, 0.2, 1)',
+                cursor: 'grab',
+            }}
+            onContextMenu={handleContextMenu}
+            title={data.description ? `${data.description}` : 'ダブルクリックで開く / 右クリックで設定'}
+        >
+            <NodeResizer
+                isVisible={selected}
+                minWidth={170}
+                minHeight={80}
+                handleStyle={{
+                    width: '10px',
+                    height: '10px',
+                    borderRadius: '50%',
+                    background: nodeColor,
+                }}
+            />
+            <div style={{ ...barStyle, left: '12px' }} />
+            <div style={{ ...barStyle, right: '12px' }} />
+            {/* Top handle - input only */}
+            <Handle
+                type="target"
+                position={Position.Top}
+                id="subprocess-top"
+                style={{
+                    background: '#0ea5e9',
+                    width: '16px',
+                    height: '16px',
+                    border: '2px solid white',
+                }}
+            />
+            <div
+                style={{
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    textAlign: 'center',
+                    wordBreak: 'break-word',
+                    whiteSpace: 'pre-wrap',
+                }}
+            >
+                <span>{data.label || 'Sub-process'}</span>
+                <span style={{ marginTop: '4px', fontSize: '11px', fontWeight: '400', opacity: 0.75 }}>
+                    ⤵ {caption}
+                </span>
+            </div>
+            {/* Bottom handle - output only */}
+            <Handle
+                type="source"
+                position={Position.Bottom}
+                id="subprocess-bottom"
+                style={{
+                    background: '#22c55e',
+                    width: '16px',
+                    height: '16px',
+                    border: '2px solid white',
+                }}
+            />
+        </div>
+    );
+});
+
+SubprocessNode.displayName = 'SubprocessNode';
+
+// ISO 5807 symbol node (I/O, document, stored data, manual operation/input, connector, comment)
+// SVG outline, resizable, editable. Comments only have a left handle for annotation lines.
+export const SymbolNode = memo(({ data, selected, id, type }: NodeProps<CustomNode>) => {
+    const symbol = type as SymbolType;
+    const [text, setText] = useState(data.label || SYMBOL_NAMES[symbol]);
+    const [isEditing, setIsEditing] = useState(false);
+    const nodeColor = (data.color as string) || SYMBOL_COLORS[symbol];
+    const isComment = symbol === 'comment';
+    const minSize = SYMBOL_SIZES[symbol];
+
+    // Sync with external data.label changes (from inspector)
+    useEffect(() => {
+        setText(data.label || SYMBOL_NAMES[symbol]);
+    }, [data.label, symbol]);
+
+    const handleTextChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        setText(e.target.value);
+        if (data.onChange) {
+            data.onChange(id, e.target.value);
+        }
+    }, [id, data]);
+
+    const handleTextAreaMouseDown = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+    }, []);
+
+    const handleContextMenu = useCallback((e: React.MouseEvent) => {
+        e.preventDefault();
+        if (data.onOpenSettings) {
+            data.onOpenSettings(id);
+        }
+    }, [id, data]);
+
+    const gradientId = `symbol-gradient-${id}`;
+
+    return (
+        <div
+            className={`symbol-node ${symbol}-node ${selected ? 'selected' : ''}`}
+            style={{
+                position: 'relative',
+                width: '100%',
+                height: '100%',
+                minWidth: `${Math.min(minSize.width, 120)}px`,
+                minHeight: `${Math.min(minSize.height, 50)}px`,
+                color: isComment ? 'var(--text-primary)' : 'white',
+                fontWeight: '500',
+                cursor: isEditing ? 'text' : 'grab',
+                filter: selected ? `drop-shadow(0 0 12px ${nodeColor}80)` : 'drop-shadow(0 4px 12px rgba(0, 0, 0, 0.4))',
+                transition: 'all 250ms cubic-bezier(0.4, 0, 0.2, 1)',
+            }}
+            onDoubleClick={() => setIsEditing(true)}
+            onContextMenu={handleContextMenu}
+            title={data.description ? `${data.description}` : `${SYMBOL_NAMES[symbol]} - 右クリックで設定`}
+        >
+            <NodeResizer
+                isVisible={selected}
+                minWidth={Math.min(minSize.width, 120)}
+                minHeight={Math.min(minSize.height, 50)}
+                handleStyle={{
+                    width: '10px',
+                    height: '10px',
+                    borderRadius: '50%',
+                    background: nodeColor,
+                }}
+            />
+            <svg
+                width="100%"
+                height="100%"
+                viewBox="0 0 100 100"
+                preserveAspectRatio="none"
+                style={{ position: 'absolute', inset: 0, overflow: 'visible' }}
+            >
+                <defs>
+                    <linearGradient id={gradientId} x1="0" y1="0" x2="1" y2="1">
+                        <stop offset="0%" stopColor={nodeColor} />
+                        <stop offset="100%" stopColor={nodeColor} stopOpacity={0.8} />
+                    </linearGradient>
+                </defs>
+                <path
+                    d={getSymbolPath(symbol, 1, 1, 98, 98)}
+                    fill={isComment ? 'none' : `url(#${gradientId})`}
+                    stroke={nodeColor}
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                />
+            </svg>
+            {isComment ? (
+                <Handle
+                    type="source"
+                    position={Position.Left}
+                    id="comment-left"
+                    style={{
+                        background: nodeColor,
+                        width: '12px',
+                        height: '12px',
+                        border: '2px solid white',
+                    }}
+                />
+            ) : (
+                <Handle
+                    type="target"
+                    position={Position.Top}
+                    id={`${symbol}-top`}
+                    style={{
+                        background: '#0ea5e9',
+                        width: '16px',
+                        height: '16px',
+                        border: '2px solid white',
+                    }}
+                />
+            )}
+            <div
+                style={{
+                    position: 'absolute',
+                    inset: 0,
+                    padding: `8px ${SYMBOL_TEXT_INSET[symbol] * 100}%`,
+                    paddingBottom: symbol === 'document' ? '18px' : symbol === 'connector' ? '22px' : '8px',
+                    paddingTop: symbol === 'database' ? '18px' : symbol === 'manualInput' ? '22px' : '8px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: isComment ? 'flex-start' : 'center',
+                    textAlign: isComment ? 'left' : 'center',
+                    fontSize: isComment ? '13px' : '14px',
+                    fontStyle: isComment ? 'italic' : 'normal',
+                    wordBreak: 'break-word',
+                    whiteSpace: 'pre-wrap',
+                    boxSizing: 'border-box',
+                }}
+            >
+                {isEditing ? (
+                    <textarea
+                        value={text}
+                        onChange={handleTextChange}
+                        onBlur={() => setIsEditing(false)}
+                        onMouseDown={handleTextAreaMouseDown}
+                        autoFocus
+                        className="nodrag"
+                        style={{
+                            width: '100%',
+                            height: '100%',
+                            background: 'rgba(0, 0, 0, 0.2)',
+                            color: 'inherit',
+                            border: 'none',
+                            outline: 'none',
+                            resize: 'none',
+                            fontWeight: '500',
+                            fontSize: '14px',
+                            cursor: 'text',
+                        }}
+                    />
+                ) : (
+                    <span>{text}</span>
+                )}
+            </div>
+            {!isComment && (
+                <Handle
+                    type="source"
+                    position={Position.Bottom}
+                    id={`${symbol}-bottom`}
+                    style={{
+                        background: '#22c55e',
+                        width: '16px',
+                        height: '16px',
+                        border: '2px solid white',
+                    }}
+                />
+            )}
+        </div>
+    );
+});
+
+SymbolNode.displayName = 'SymbolNode';
+
 // Condition Node - Diamond shape, resizable, editable
 export const ConditionNode = memo(({ data, selected, id }: NodeProps<CustomNode>) => {
     const [text, setText] = useState(data.label || 'Condition?');
@@ -551,9 +837,298 @@ export const ConditionNode = memo(({ data, selected, id }: NodeProps<CustomNode>
 
 ConditionNode.displayName = 'ConditionNode';
 
+// Switch Node - multi-way decision, one labeled output handle per case along the bottom
+export const SwitchNode = memo(({ data, selected, id }: NodeProps<CustomNode>) => {
+    const [text, setText] = useState(data.label || 'Switch');
+    const [isEditing, setIsEditing] = useState(false);
+    const updateNodeInternals = useUpdateNodeInternals();
+    const nodeColor = (data.color as string) || '#d97706';
+    const cases = data.cases || [];
+    const caseKey = cases.map(c => c.id).join('|');
+
+    // Sync with external data.label changes (from inspector)
+    useEffect(() => {
+        setText(data.label || 'Switch');
+    }, [data.label]);
+
+    // Handles are added, removed and reordered with the cases
+    useEffect(() => {
+        updateNodeInternals(id);
+    }, [id, caseKey, updateNodeInternals]);
+
+    const handleTextChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        setText(e.target.value);
+        if (data.onChange) {
+            data.onChange(id, e.target.value);
+        }
+    }, [id, data]);
+
+    const handleTextAreaMouseDown = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+    }, []);
+
+    const handleContextMenu = useCallback((e: React.MouseEvent) => {
+        e.preventDefault();
+        if (data.onOpenSettings) {
+            data.onOpenSettings(id);
+        }
+    }, [id, data]);
+
+    return (
+        <div
+            className={`switch-node ${selected ? 'selected' : ''}`}
+            style={{
+                position: 'relative',
+                width: '100%',
+                height: '100%',
+                display: 'flex',
+                flexDirection: 'column',
+                background: getGradient(nodeColor),
+                border: `2px solid ${nodeColor}`,
+                borderRadius: '12px',
+                color: 'white',
+                boxSizing: 'border-box',
+                boxShadow: selected
+                    ? `0 0 20px ${nodeColor}80, 0 4px 16px rgba(0, 0, 0, 0.4)`
+                    : '0 4px 16px rgba(0, 0, 0, 0.4)',
+                transition: 'box-shadow 250ms cubic-bezier(0.4, 0, 0.2, 1)',
+                cursor: isEditing ? 'text' : 'grab',
+            }}
+            onContextMenu={handleContextMenu}
+            title={data.description ? `${data.description}` : '右クリックで設定'}
+        >
+            <NodeResizer
+                isVisible={selected}
+                minWidth={Math.max(SWITCH_MIN_SIZE.width, cases.length * 60)}
+                minHeight={SWITCH_MIN_SIZE.height - 20}
+                handleStyle={{
+                    width: '10px',
+                    height: '10px',
+                    borderRadius: '50%',
+                    background: nodeColor,
+                }}
+            />
+            <Handle
+                type="target"
+                position={Position.Top}
+                id={SWITCH_TARGET_HANDLE}
+                style={{
+                    background: '#0ea5e9',
+                    width: '16px',
+                    height: '16px',
+                    border: '2px solid white',
+                }}
+            />
+            <div
+                style={{
+                    flex: 1,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    padding: '8px 16px',
+                    fontWeight: '500',
+                    textAlign: 'center',
+                    wordBreak: 'break-word',
+                    minHeight: 0,
+                }}
+                onDoubleClick={() => setIsEditing(true)}
+            >
+                {isEditing ? (
+                    <textarea
+                        value={text}
+                        onChange={handleTextChange}
+                        onBlur={() => setIsEditing(false)}
+                        onMouseDown={handleTextAreaMouseDown}
+                        autoFocus
+                        className="nodrag"
+                        style={{
+                            width: '100%',
+                            height: '100%',
+                            background: 'rgba(0, 0, 0, 0.2)',
+                            color: 'white',
+                            border: 'none',
+                            outline: 'none',
+                            resize: 'none',
+                            fontWeight: '500',
+                            fontSize: '14px',
+                            textAlign: 'center',
+                            cursor: 'text',
+                        }}
+                    />
+                ) : (
+                    <div style={{ fontSize: '14px', whiteSpace: 'pre-wrap' }}>{text}</div>
+                )}
+            </div>
+            <div
+                className="switch-node-cases"
+                style={{
+                    flex: `0 0 ${CASE_ROW_HEIGHT}px`,
+                    display: 'flex',
+                    borderTop: '1px solid rgba(255, 255, 255, 0.45)',
+                }}
+            >
+                {cases.map((c, index) => (
+                    <div
+                        key={c.id}
+                        title={c.label}
+                        style={{
+                            flex: 1,
+                            minWidth: 0,
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            padding: '0 4px',
+                            borderLeft: index > 0 ? '1px solid rgba(255, 255, 255, 0.45)' : undefined,
+                            fontSize: '12px',
+                            fontWeight: '600',
+                            whiteSpace: 'nowrap',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                        }}
+                    >
+                        {c.label || `Case ${index + 1}`}
+                    </div>
+                ))}
+            </div>
+            {cases.map((c, index) => (
+                <Handle
+                    key={c.id}
+                    type="source"
+                    position={Position.Bottom}
+                    id={getCaseHandleId(c.id)}
+                    style={{
+                        background: '#f59e0b',
+                        width: '14px',
+                        height: '14px',
+                        border: '2px solid white',
+                        left: `${getCaseOffset(index, cases.length) * 100}%`,
+                    }}
+                />
+            ))}
+        </div>
+    );
+});
+
+SwitchNode.displayName = 'SwitchNode';
+
+// Swimlane / Group - translucent container with a title strip; nodes dropped inside become its children
+export const ContainerNode = memo(({ data, selected, id, type }: NodeProps<CustomNode>) => {
+    const isGroup = type === 'group';
+    const defaultLabel = isGroup ? 'Group' : 'Lane';
+    const [text, setText] = useState(data.label || defaultLabel);
+    const [isEditing, setIsEditing] = useState(false);
+    const nodeColor = (data.color as string) || (isGroup ? '#64748b' : '#0ea5e9');
+    // Horizontal lanes carry their title on a vertical strip at the left edge
+    const sideHeader = !isGroup && data.orientation !== 'vertical';
+
+    // Sync with external data.label changes (from inspector)
+    useEffect(() => {
+        setText(data.label || defaultLabel);
+    }, [data.label, defaultLabel]);
+
+    const handleTextChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        setText(e.target.value);
+        if (data.onChange) {
+            data.onChange(id, e.target.value);
+        }
+    }, [id, data]);
+
+    const handleContextMenu = useCallback((e: React.MouseEvent) => {
+        e.preventDefault();
+        if (data.onOpenSettings) {
+            data.onOpenSettings(id);
+        }
+    }, [id, data]);
+
+    return (
+        <>
+            <NodeResizer
+                color={nodeColor}
+                isVisible={selected}
+                minWidth={isGroup ? 120 : 160}
+                minHeight={isGroup ? 80 : 100}
+            />
+            <div
+                className={`${isGroup ? 'group-node' : 'swimlane-node'} ${selected ? 'selected' : ''}`}
+                style={{
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    flexDirection: sideHeader ? 'row' : 'column',
+                    background: `${nodeColor}${isGroup ? '0f' : '14'}`,
+                    border: `2px ${isGroup ? 'dashed' : 'solid'} ${nodeColor}${selected ? '' : '99'}`,
+                    borderRadius: isGroup ? '12px' : '8px',
+                    overflow: 'hidden',
+                }}
+                onContextMenu={handleContextMenu}
+                title={data.description ? `${data.description}` : '右クリックで設定'}
+            >
+                <div
+                    className="container-node-header"
+                    style={{
+                        flex: `0 0 ${isGroup ? GROUP_HEADER_SIZE : LANE_HEADER_SIZE}px`,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: isGroup ? 'flex-start' : 'center',
+                        padding: isGroup ? '0 12px' : 0,
+                        background: isGroup ? 'transparent' : `${nodeColor}38`,
+                        color: nodeColor,
+                        fontWeight: '600',
+                        fontSize: '14px',
+                        whiteSpace: 'nowrap',
+                        overflow: 'hidden',
+                        writingMode: sideHeader ? 'vertical-rl' : undefined,
+                        transform: sideHeader ? 'rotate(180deg)' : undefined,
+                        cursor: 'grab',
+                    }}
+                    onDoubleClick={() => setIsEditing(true)}
+                >
+                    {isEditing ? (
+                        <input
+                            type="text"
+                            value={text}
+                            onChange={handleTextChange}
+                            onBlur={() => setIsEditing(false)}
+                            onKeyDown={(e) => e.key === 'Enter' && setIsEditing(false)}
+                            autoFocus
+                            className="nodrag"
+                            style={{
+                                background: 'transparent',
+                                border: 'none',
+                                color: nodeColor,
+                                fontWeight: '600',
+                                fontSize: '14px',
+                                width: sideHeader ? undefined : '90%',
+                                height: sideHeader ? '90%' : undefined,
+                                outline: 'none',
+                            }}
+                        />
+                    ) : (
+                        <span>{text}</span>
+                    )}
+                </div>
+                <div style={{ flex: 1 }} />
+            </div>
+        </>
+    );
+});
+
+ContainerNode.displayName = 'ContainerNode';
+
 export const nodeTypes = {
     start: StartNode,
     end: EndNode,
     execution: ExecutionNode,
+    subprocess: SubprocessNode,
     condition: ConditionNode,
+    switch: SwitchNode,
+    io: SymbolNode,
+    document: SymbolNode,
+    database: SymbolNode,
+    manual: SymbolNode,
+    manualInput: SymbolNode,
+    connector: SymbolNode,
+    comment: SymbolNode,
+    swimlane: ContainerNode,
+    group: ContainerNode,
 };
@@ -0,0 +1,105 @@
+import { Node, Edge } from '@xyflow/react';
+import { createProjectPage, FlowchartPage, FlowchartProjectNode, FlowchartProjectEdge } from './export';
+import { getAbsolutePosition, withDescendants } from './groups';
+import { getNodeSize } from './layout';
+
+/**
+ * Clipboard type carrying the JSON payload; plain text holds the Mermaid fallback for other tools
+ */
+export const CLIPBOARD_MIME_TYPE = 'application/x-flowchart-builder+json';
+
+const CLIPBOARD_FORMAT = 'flowchart-builder/clipboard';
+
+/**
+ * Copied nodes and the edges between them, in project file form
+ */
+export interface ClipboardPayload {
+    format: typeof CLIPBOARD_FORMAT;
+    version: 1;
+    nodes: FlowchartProjectNode[];
+    edges: FlowchartProjectEdge[];
+}
+
+/**
+ * Selected nodes (with everything inside selected lanes and groups) and the edges between them.
+ * Nodes copied without their container get canvas positions. Returns undefined when no node is selected.
+ */
+export const createClipboardPayload = <T extends Node>(nodes: T[], edges: Edge[]): ClipboardPayload | undefined => {
+    const selected = nodes.filter(n => n.selected);
+    if (selected.length === 0) return undefined;
+
+    const ids = withDescendants(new Set(selected.map(n => n.id)), nodes);
+    const copied = nodes.filter(n => ids.has(n.id)).map(node => {
+        if (!node.parentId || ids.has(node.parentId)) return node;
+        const { parentId: _parentId, ...rest } = node;
+        return { ...rest, position: getAbsolutePosition(node, nodes) } as T;
+    });
+    const page = createProjectPage({
+        id: 'clipboard',
+        name: 'Clipboard',
+        nodes: copied,
+        edges: edges.filter(e => ids.has(e.source) && ids.has(e.target)),
+    } as unknown as FlowchartPage);
+
+    return { format: CLIPBOARD_FORMAT, version: 1, nodes: page.nodes, edges: page.edges };
+};
+
+/**
+ * Read a payload written by createClipboardPayload; anything else gives undefined
+ */
+export const readClipboardPayload = (text: string | undefined): ClipboardPayload | undefined => {
+    if (!text || !text.trimStart().startsWith('{')) return undefined;
+    try {
+        const data = JSON.parse(text);
+        if (data?.format !== CLIPBOARD_FORMAT || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) return undefined;
+        return data as ClipboardPayload;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Bounding box of the top-level nodes (children move with their container)
+ */
+export const getClipboardBounds = (nodes: Node[]) => {
+    const ids = new Set(nodes.map(n => n.id));
+    const topLevel = nodes.filter(n => !n.parentId || !ids.has(n.parentId));
+    const minX = Math.min(...topLevel.map(n => n.position.x));
+    const minY = Math.min(...topLevel.map(n => n.position.y));
+    const maxX = Math.max(...topLevel.map(n => n.position.x + getNodeSize(n).width));
+    const maxY = Math.max(...topLevel.map(n => n.position.y + getNodeSize(n).height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Give pasted nodes and edges fresh IDs and move the top-level nodes by `offset`
+ */
+export const remapClipboardContent = <T extends Node>(
+    nodes: T[],
+    edges: Edge[],
+    createId: () => string,
+    offset: { x: number; y: number }
+): { nodes: T[]; edges: Edge[] } => {
+    const idMap = new Map(nodes.map(n => [n.id, createId()]));
+
+    const remappedNodes = nodes.map(node => {
+        const parentId = node.parentId ? idMap.get(node.parentId) : undefined;
+        const { parentId: _parentId, ...rest } = node;
+        return {
+            ...rest,
+            id: idMap.get(node.id)!,
+            ...(parentId ? { parentId } : {}),
+            position: parentId ? node.position : { x: node.position.x + offset.x, y: node.position.y + offset.y },
+        } as T;
+    });
+
+    const remappedEdges = edges
+        .filter(e => idMap.has(e.source) && idMap.has(e.target))
+        .map((edge, index) => {
+            const source = idMap.get(edge.source)!;
+            const target = idMap.get(edge.target)!;
+            return { ...edge, id: `edge_${source}_${target}_${index}`, source, target };
+        });
+
+    return { nodes: remappedNodes, edges: remappedEdges };
+};
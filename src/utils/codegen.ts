@@ -0,0 +1,723 @@
+import { Node, Edge } from '@xyflow/react';
+import { getControlFlow } from './symbols';
+import { getCaseHandleId, getSwitchCases, isDefaultCaseLabel } from './switchCases';
+
+/**
+ * Target languages for code generation
+ */
+export type CodeLanguage = 'pseudocode' | 'python' | 'javascript';
+
+export const CODE_LANGUAGES: { id: CodeLanguage; label: string; extension: string }[] = [
+    { id: 'pseudocode', label: 'Pseudocode', extension: 'txt' },
+    { id: 'python', label: 'Python', extension: 'py' },
+    { id: 'javascript', label: 'JavaScript', extension: 'js' },
+];
+
+/**
+ * Structured statement tree produced from the graph
+ */
+type Statement =
+    | { kind: 'statement'; text: string }
+    | { kind: 'call'; name: string }
+    | { kind: 'if'; condition: string; negate: boolean; then: Statement[]; otherwise: Statement[] }
+    | { kind: 'while'; condition: string | null; negate: boolean; body: Statement[] }
+    | { kind: 'switch'; subject: string; cases: { labels: string[]; body: Statement[] }[]; otherwise: Statement[] }
+    | { kind: 'break' }
+    | { kind: 'continue' }
+    | { kind: 'return'; text: string }
+    | { kind: 'comment'; text: string };
+
+/**
+ * Thrown when the graph cannot be expressed with if/while (irreducible or unstructured flow)
+ */
+class UnstructuredFlowError extends Error { }
+
+interface FlowGraph {
+    nodes: Map<string, Node>;
+    startId: string;
+    // Successors in order: [next] for statements, [true, false] for conditions, one per case for switches
+    successors: Map<string, (string | null)[]>;
+}
+
+interface LoopInfo {
+    header: string;
+    body: Set<string>;
+    follow: string | null;
+}
+
+interface LoopContext {
+    loop: LoopInfo;
+    parent: LoopContext | null;
+}
+
+const EXIT = '__exit__';
+
+const getLabel = (node: Node) => ((node.data?.label as string) || '').trim();
+
+/**
+ * Build the control-flow graph from the flowchart
+ */
+const buildGraph = (chartNodes: Node[], chartEdges: Edge[]): FlowGraph => {
+    // Comments are dropped; off-page connectors are followed to their counterparts
+    const { nodes, edges } = getControlFlow(chartNodes, chartEdges);
+    const startNode = nodes.find(n => n.type === 'start');
+    if (!startNode) {
+        throw new Error('The flowchart has no Start node.');
+    }
+
+    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    const successors = new Map<string, (string | null)[]>();
+
+    nodes.forEach(node => {
+        const outgoing = edges.filter(e => e.source === node.id && nodeMap.has(e.target));
+
+        if (node.type === 'end') {
+            successors.set(node.id, []);
+        } else if (node.type === 'condition') {
+            const trueEdge = outgoing.find(e => e.sourceHandle === 'condition-bottom-true');
+            const falseEdge = outgoing.find(e => e.sourceHandle === 'condition-left-false' || e.sourceHandle === 'condition-right-false');
+            successors.set(node.id, [trueEdge?.target || null, falseEdge?.target || null]);
+        } else if (node.type === 'switch') {
+            successors.set(node.id, getSwitchCases(node).map(c =>
+                outgoing.find(e => e.sourceHandle === getCaseHandleId(c.id))?.target || null));
+        } else {
+            successors.set(node.id, [outgoing[0]?.target || null]);
+        }
+    });
+
+    return { nodes: nodeMap, startId: startNode.id, successors };
+};
+
+/**
+ * Nodes reachable from the start, in DFS preorder
+ */
+const getReachable = (graph: FlowGraph): string[] => {
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const visit = (id: string) => {
+        if (visited.has(id)) return;
+        visited.add(id);
+        order.push(id);
+        (graph.successors.get(id) || []).forEach(next => next && visit(next));
+    };
+    visit(graph.startId);
+    return order;
+};
+
+/**
+ * Iterative dominator sets: dom(n) = {n} ∪ ⋂ dom(p) over predecessors p
+ */
+const computeDominators = (ids: string[], entries: string[], predecessors: Map<string, string[]>): Map<string, Set<string>> => {
+    const all = new Set(ids);
+    const dom = new Map<string, Set<string>>();
+    ids.forEach(id => dom.set(id, entries.includes(id) ? new Set([id]) : new Set(all)));
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        ids.forEach(id => {
+            if (entries.includes(id)) return;
+            const preds = (predecessors.get(id) || []).filter(p => dom.has(p));
+            let next: Set<string>;
+            if (preds.length === 0) {
+                next = new Set([id]);
+            } else {
+                next = new Set(dom.get(preds[0]));
+                preds.slice(1).forEach(p => {
+                    const other = dom.get(p)!;
+                    next.forEach(d => !other.has(d) && next.delete(d));
+                });
+                next.add(id);
+            }
+            if (next.size !== dom.get(id)!.size) {
+                dom.set(id, next);
+                changed = true;
+            }
+        });
+    }
+
+    return dom;
+};
+
+/**
+ * Analyse loops (natural loops of back-edges) and immediate post-dominators
+ */
+const analyse = (graph: FlowGraph, reachable: string[]) => {
+    // Forward predecessors, plus successor lists where missing branches and End nodes lead to a virtual exit
+    const predecessors = new Map<string, string[]>();
+    const exitSuccessors = new Map<string, string[]>();
+    reachable.forEach(id => {
+        const succs = (graph.successors.get(id) || []).map(s => s || EXIT);
+        if (succs.length === 0) succs.push(EXIT);
+        exitSuccessors.set(id, succs);
+        succs.forEach(s => predecessors.set(s, [...(predecessors.get(s) || []), id]));
+    });
+
+    const dominators = computeDominators(reachable, [graph.startId], predecessors);
+
+    // Back-edges: u -> h where h dominates u; any other retreating edge makes the graph irreducible
+    const loops = new Map<string, LoopInfo>();
+    const onStack = new Set<string>();
+    const done = new Set<string>();
+    const dfs = (id: string) => {
+        onStack.add(id);
+        (graph.successors.get(id) || []).forEach(next => {
+            if (!next) return;
+            if (onStack.has(next)) {
+                if (!dominators.get(id)!.has(next)) {
+                    throw new UnstructuredFlowError('Irreducible loop');
+                }
+                const loop = loops.get(next) || { header: next, body: new Set([next]), follow: null };
+                // Natural loop: header plus everything that reaches the latch without passing the header
+                const stack = [id];
+                while (stack.length > 0) {
+                    const member = stack.pop()!;
+                    if (loop.body.has(member)) continue;
+                    loop.body.add(member);
+                    (predecessors.get(member) || []).forEach(p => stack.push(p));
+                }
+                loops.set(next, loop);
+            } else if (!done.has(next)) {
+                dfs(next);
+            }
+        });
+        onStack.delete(id);
+        done.add(id);
+    };
+    dfs(graph.startId);
+
+    // A loop may leave to at most one place other than an End node (other exits become returns)
+    loops.forEach(loop => {
+        const exits = new Set<string>();
+        const endExits = new Set<string>();
+        loop.body.forEach(id => {
+            (graph.successors.get(id) || []).forEach(next => {
+                if (!next || loop.body.has(next)) return;
+                (graph.nodes.get(next)?.type === 'end' ? endExits : exits).add(next);
+            });
+        });
+        if (exits.size > 1) {
+            throw new UnstructuredFlowError('Loop with multiple exits');
+        }
+        const follow = exits.size === 1 ? exits : endExits.size === 1 ? endExits : null;
+        loop.follow = follow ? follow.values().next().value ?? null : null;
+    });
+
+    // Post-dominators: dominators of the reversed graph rooted at the virtual exit
+    const postDominators = computeDominators([EXIT, ...reachable], [EXIT], exitSuccessors);
+
+    // Nodes caught in an infinite loop never reach the exit and have no meaningful post-dominator
+    const canExit = new Set<string>([EXIT]);
+    const stack = [EXIT];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        (predecessors.get(id) || []).forEach(p => {
+            if (!canExit.has(p)) {
+                canExit.add(p);
+                stack.push(p);
+            }
+        });
+    }
+
+    // The closest strict post-dominator has the largest post-dominator set
+    const immediatePostDominator = (id: string): string | null => {
+        if (!canExit.has(id)) return null;
+        let best: string | null = null;
+        postDominators.get(id)!.forEach(d => {
+            if (d === id) return;
+            if (!best || postDominators.get(d)!.size > postDominators.get(best)!.size) best = d;
+        });
+        return best === EXIT ? null : best;
+    };
+
+    return { loops, immediatePostDominator };
+};
+
+/**
+ * Turn the graph into nested if/while statements
+ */
+const structure = (graph: FlowGraph): Statement[] => {
+    const reachable = getReachable(graph);
+    const { loops, immediatePostDominator } = analyse(graph, reachable);
+    const emitted = new Set<string>();
+
+    const emitRegion = (entry: string | null, stop: string | null, context: LoopContext | null, enteringHeader = false): Statement[] => {
+        const statements: Statement[] = [];
+        let current = entry;
+        let skipLoopAt = enteringHeader ? entry : null;
+
+        while (current) {
+            if (current !== skipLoopAt && context) {
+                if (current === context.loop.header) {
+                    statements.push({ kind: 'continue' });
+                    return statements;
+                }
+                if (current === context.loop.follow) {
+                    statements.push({ kind: 'break' });
+                    return statements;
+                }
+                // Jumps to an enclosing loop need labeled break/continue
+                for (let outer = context.parent; outer; outer = outer.parent) {
+                    if (current === outer.loop.header || current === outer.loop.follow) {
+                        throw new UnstructuredFlowError('Jump out of nested loop');
+                    }
+                }
+            }
+            if (current === stop) return statements;
+
+            const node = graph.nodes.get(current)!;
+            const loop = loops.get(current);
+
+            // Loop header: emit the loop, then continue after it
+            if (loop && current !== skipLoopAt) {
+                const loopContext: LoopContext = { loop, parent: context };
+                const [trueNext, falseNext] = graph.successors.get(current) || [];
+
+                if (node.type === 'condition' && loop.follow && (trueNext === loop.follow || falseNext === loop.follow)) {
+                    // Pre-tested loop: while (condition) { body }
+                    const exitsOnTrue = trueNext === loop.follow;
+                    const inside = exitsOnTrue ? falseNext : trueNext;
+                    if (emitted.has(current)) throw new UnstructuredFlowError('Node reached twice');
+                    emitted.add(current);
+                    statements.push({
+                        kind: 'while',
+                        condition: getLabel(node),
+                        negate: exitsOnTrue,
+                        body: trimTrailingContinue(emitRegion(inside, null, loopContext)),
+                    });
+                } else {
+                    statements.push({
+                        kind: 'while',
+                        condition: null,
+                        negate: false,
+                        body: trimTrailingContinue(emitRegion(current, null, loopContext, true)),
+                    });
+                }
+
+                current = loop.follow;
+                skipLoopAt = null;
+                continue;
+            }
+            skipLoopAt = null;
+
+            if (emitted.has(current)) {
+                throw new UnstructuredFlowError('Node reached twice');
+            }
+            emitted.add(current);
+
+            const [next, alternative] = graph.successors.get(current) || [];
+
+            switch (node.type) {
+                case 'end':
+                    statements.push({ kind: 'return', text: getLabel(node) });
+                    return statements;
+                case 'start':
+                case 'connector':
+                    current = next ?? null;
+                    break;
+                case 'condition': {
+                    let merge = immediatePostDominator(current);
+                    // Inside a loop, branches that leave it end with break/continue/return instead
+                    if (merge && context && !context.loop.body.has(merge)) merge = null;
+                    statements.push({
+                        kind: 'if',
+                        condition: getLabel(node),
+                        negate: false,
+                        then: emitRegion(next ?? null, merge, context),
+                        otherwise: emitRegion(alternative ?? null, merge, context),
+                    });
+                    current = merge;
+                    break;
+                }
+                case 'switch': {
+                    let merge = immediatePostDominator(current);
+                    if (merge && context && !context.loop.body.has(merge)) merge = null;
+                    statements.push(structureSwitch(node, graph.successors.get(current) || [], target => emitRegion(target, merge, context)));
+                    current = merge;
+                    break;
+                }
+                default:
+                    statements.push(node.type === 'subprocess'
+                        ? { kind: 'call', name: toCallName(node) }
+                        : { kind: 'statement', text: getLabel(node) });
+                    if (!next) {
+                        statements.push({ kind: 'comment', text: `Dead end after "${getLabel(node)}"` });
+                    }
+                    current = next ?? null;
+            }
+        }
+
+        return statements;
+    };
+
+    return emitRegion(graph.startId, null, null);
+};
+
+/**
+ * Switch statement: cases sharing a target are merged, default-like cases (and unconnected ones) form the fallback
+ */
+const structureSwitch = (node: Node, targets: (string | null)[], emit: (target: string | null) => Statement[]): Statement => {
+    const cases = getSwitchCases(node);
+    const branches: { target: string | null; labels: string[] }[] = [];
+    let fallback: string | null = null;
+
+    cases.forEach((c, index) => {
+        const target = targets[index] ?? null;
+        if (isDefaultCaseLabel(c.label)) {
+            fallback = fallback ?? target;
+            return;
+        }
+        if (!target) return;
+        const existing = branches.find(b => b.target === target);
+        if (existing) existing.labels.push(c.label);
+        else branches.push({ target, labels: [c.label] });
+    });
+
+    // A fallback that shares its target with a case absorbs that case
+    const merged = branches.filter(b => b.target !== fallback);
+    return {
+        kind: 'switch',
+        subject: getLabel(node),
+        cases: merged.map(b => ({ labels: b.labels, body: emit(b.target) })),
+        otherwise: fallback ? emit(fallback) : [],
+    };
+};
+
+/**
+ * Drop a `continue` that is the last thing a loop body would do anyway
+ */
+const trimTrailingContinue = (statements: Statement[]): Statement[] => {
+    const last = statements[statements.length - 1];
+    if (!last) return statements;
+    if (last.kind === 'continue') return statements.slice(0, -1);
+    if (last.kind === 'if') {
+        return [
+            ...statements.slice(0, -1),
+            { ...last, then: trimTrailingContinue(last.then), otherwise: trimTrailingContinue(last.otherwise) },
+        ];
+    }
+    if (last.kind === 'switch') {
+        return [
+            ...statements.slice(0, -1),
+            {
+                ...last,
+                cases: last.cases.map(c => ({ ...c, body: trimTrailingContinue(c.body) })),
+                otherwise: trimTrailingContinue(last.otherwise),
+            },
+        ];
+    }
+    return statements;
+};
+
+// ---- Printers ----
+
+const stripQuestion = (text: string) => text.replace(/[?？]\s*$/, '').trim() || 'condition';
+
+const toFunctionName = (label: string) => {
+    const name = label.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+    return !name || /^start$/i.test(name) ? 'main' : /^\d/.test(name) ? `_${name}` : name;
+};
+
+// Sub-process nodes become calls to a function named after their label
+const toCallName = (node: Node) => {
+    const name = toFunctionName(getLabel(node));
+    return name === 'main' ? 'subprocess' : name;
+};
+
+interface Printer {
+    indent: string;
+    header: (name: string) => string[];
+    footer: string[];
+    statement: (text: string) => string[];
+    call: (name: string) => string;
+    comment: (text: string) => string;
+    empty: string | null;
+    ifOpen: (condition: string) => string;
+    elseIfOpen: (condition: string) => string;
+    elseOpen: string;
+    ifClose: string | null;
+    whileClose: string | null;
+    whileOpen: (condition: string | null) => string;
+    breakText: string;
+    continueText: string;
+    returnText: (label: string) => string;
+    negate: (condition: string) => string;
+    // Test of a switch subject against one or more case labels
+    caseTest: (subject: string, labels: string[]) => string;
+}
+
+const PRINTERS: Record<CodeLanguage, Printer> = {
+    pseudocode: {
+        indent: '    ',
+        header: name => [`BEGIN ${name}`],
+        footer: ['END'],
+        statement: text => text.split('\n'),
+        call: name => `CALL ${name}`,
+        comment: text => `// ${text}`,
+        empty: null,
+        ifOpen: condition => `IF ${condition} THEN`,
+        elseIfOpen: condition => `ELSE IF ${condition} THEN`,
+        elseOpen: 'ELSE',
+        ifClose: 'END IF',
+        whileClose: 'END WHILE',
+        whileOpen: condition => `WHILE ${condition ?? 'TRUE'} DO`,
+        breakText: 'EXIT LOOP',
+        continueText: 'CONTINUE',
+        returnText: label => (label ? `STOP  // ${label}` : 'STOP'),
+        negate: condition => `NOT (${condition})`,
+        caseTest: (subject, labels) => labels.map(label => `${subject} = ${JSON.stringify(label)}`).join(' OR '),
+    },
+    python: {
+        indent: '    ',
+        header: name => [`def ${name}():`],
+        footer: [],
+        statement: text => text.split('\n'),
+        call: name => `${name}()`,
+        comment: text => `# ${text}`,
+        empty: 'pass',
+        ifOpen: condition => `if ${condition}:`,
+        elseIfOpen: condition => `elif ${condition}:`,
+        elseOpen: 'else:',
+        ifClose: null,
+        whileClose: null,
+        whileOpen: condition => `while ${condition ?? 'True'}:`,
+        breakText: 'break',
+        continueText: 'continue',
+        returnText: () => 'return',
+        negate: condition => `not (${condition})`,
+        caseTest: (subject, labels) => labels.length === 1
+            ? `${subject} == ${JSON.stringify(labels[0])}`
+            : `${subject} in (${labels.map(label => JSON.stringify(label)).join(', ')})`,
+    },
+    javascript: {
+        indent: '    ',
+        header: name => [`function ${name}() {`],
+        footer: ['}'],
+        statement: text => text.split('\n').map(line => (/[;{}]\s*$/.test(line) || !line.trim() ? line : `${line};`)),
+        call: name => `${name}();`,
+        comment: text => `// ${text}`,
+        empty: null,
+        ifOpen: condition => `if (${condition}) {`,
+        elseIfOpen: condition => `} else if (${condition}) {`,
+        elseOpen: '} else {',
+        ifClose: '}',
+        whileClose: '}',
+        whileOpen: condition => `while (${condition ?? 'true'}) {`,
+        breakText: 'break;',
+        continueText: 'continue;',
+        returnText: () => 'return;',
+        negate: condition => `!(${condition})`,
+        caseTest: (subject, labels) => labels.map(label => `${subject} === ${JSON.stringify(label)}`).join(' || '),
+    },
+};
+
+const printStatements = (statements: Statement[], printer: Printer, depth: number): string[] => {
+    const pad = printer.indent.repeat(depth);
+    const block = (body: Statement[]) => {
+        const lines = printStatements(body, printer, depth + 1);
+        return lines.length > 0 || !printer.empty ? lines : [`${pad}${printer.indent}${printer.empty}`];
+    };
+    const lines: string[] = [];
+
+    statements.forEach(statement => {
+        switch (statement.kind) {
+            case 'statement':
+                printer.statement(statement.text || '(empty)').forEach(line => lines.push(`${pad}${line}`));
+                break;
+            case 'call':
+                lines.push(`${pad}${printer.call(statement.name)}`);
+                break;
+            case 'comment':
+                lines.push(`${pad}${printer.comment(statement.text)}`);
+                break;
+            case 'break':
+                lines.push(`${pad}${printer.breakText}`);
+                break;
+            case 'continue':
+                lines.push(`${pad}${printer.continueText}`);
+                break;
+            case 'return':
+                lines.push(`${pad}${printer.returnText(statement.text)}`);
+                break;
+            case 'if': {
+                // Prefer a non-empty then-branch
+                const swap = statement.then.length === 0 && statement.otherwise.length > 0;
+                const condition = stripQuestion(statement.condition);
+                lines.push(`${pad}${printer.ifOpen(swap ? printer.negate(condition) : condition)}`);
+                lines.push(...block(swap ? statement.otherwise : statement.then));
+                const otherwise = swap ? [] : statement.otherwise;
+                if (otherwise.length > 0) {
+                    lines.push(`${pad}${printer.elseOpen}`);
+                    lines.push(...block(otherwise));
+                }
+                if (printer.ifClose) lines.push(`${pad}${printer.ifClose}`);
+                break;
+            }
+            case 'switch': {
+                // Printed as an if/else-if chain so break/continue keep referring to the enclosing loop
+                const subject = stripQuestion(statement.subject);
+                if (statement.cases.length === 0) {
+                    lines.push(...printStatements(statement.otherwise, printer, depth));
+                    break;
+                }
+                statement.cases.forEach((c, index) => {
+                    const test = printer.caseTest(subject, c.labels);
+                    lines.push(`${pad}${index === 0 ? printer.ifOpen(test) : printer.elseIfOpen(test)}`);
+                    lines.push(...block(c.body));
+                });
+                if (statement.otherwise.length > 0) {
+                    lines.push(`${pad}${printer.elseOpen}`);
+                    lines.push(...block(statement.otherwise));
+                }
+                if (printer.ifClose) lines.push(`${pad}${printer.ifClose}`);
+                break;
+            }
+            case 'while': {
+                const condition = statement.condition === null ? null : stripQuestion(statement.condition);
+                lines.push(`${pad}${printer.whileOpen(condition && statement.negate ? printer.negate(condition) : condition)}`);
+                lines.push(...block(statement.body));
+                if (printer.whileClose) lines.push(`${pad}${printer.whileClose}`);
+                break;
+            }
+        }
+    });
+
+    return lines;
+};
+
+// ---- Fallback for unstructured flow ----
+
+/**
+ * Case jumps of a switch node: one entry per connected case, plus the default target
+ */
+const getSwitchJumps = (graph: FlowGraph, node: Node) => {
+    const targets = graph.successors.get(node.id) || [];
+    const jumps: { label: string; target: string }[] = [];
+    let fallback: string | null = null;
+    getSwitchCases(node).forEach((c, index) => {
+        const target = targets[index];
+        if (isDefaultCaseLabel(c.label)) fallback = fallback ?? target ?? null;
+        else if (target) jumps.push({ label: c.label, target });
+    });
+    return { jumps, fallback };
+};
+
+const printStateMachine = (graph: FlowGraph, language: CodeLanguage, name: string): string[] => {
+    const reachable = getReachable(graph);
+    const labels = new Map(reachable.map((id, index) => [id, `L${index + 1}`]));
+    const target = (id: string | null | undefined) => (id ? labels.get(id)! : null);
+    const lines: string[] = [];
+
+    if (language === 'pseudocode') {
+        lines.push(`BEGIN ${name}`, '    // Unstructured flow: using labeled GOTOs');
+        reachable.forEach(id => {
+            const node = graph.nodes.get(id)!;
+            const [next, alternative] = graph.successors.get(id) || [];
+            const label = getLabel(node);
+            lines.push(`${labels.get(id)}:`);
+            if (node.type === 'end') {
+                lines.push(`    STOP`);
+            } else if (node.type === 'condition') {
+                lines.push(`    IF ${stripQuestion(label)} THEN GOTO ${target(next) ?? 'STOP'} ELSE GOTO ${target(alternative) ?? 'STOP'}`);
+            } else if (node.type === 'switch') {
+                const { jumps, fallback } = getSwitchJumps(graph, node);
+                jumps.forEach(jump => lines.push(`    IF ${PRINTERS.pseudocode.caseTest(stripQuestion(label), [jump.label])} THEN GOTO ${target(jump.target)}`));
+                lines.push(`    GOTO ${target(fallback) ?? 'STOP'}`);
+            } else if (node.type === 'subprocess') {
+                lines.push(`    CALL ${toCallName(node)}`, `    GOTO ${target(next) ?? 'STOP'}`);
+            } else {
+                if (node.type !== 'start' && node.type !== 'connector') label.split('\n').forEach(line => lines.push(`    ${line}`));
+                lines.push(`    GOTO ${target(next) ?? 'STOP'}`);
+            }
+        });
+        lines.push('END');
+        return lines;
+    }
+
+    const isPython = language === 'python';
+    const quote = (id: string | null | undefined) => {
+        const value = target(id);
+        return value ? `'${value}'` : isPython ? 'None' : 'null';
+    };
+
+    if (isPython) {
+        lines.push(`def ${name}():`, '    # Unstructured flow: using a state machine', `    state = ${quote(graph.startId)}`, '    while state is not None:');
+    } else {
+        lines.push(`function ${name}() {`, '    // Unstructured flow: using a state machine', `    let state = ${quote(graph.startId)};`, '    while (state !== null) {', '        switch (state) {');
+    }
+
+    reachable.forEach((id, index) => {
+        const node = graph.nodes.get(id)!;
+        const [next, alternative] = graph.successors.get(id) || [];
+        const label = getLabel(node);
+        const pad = isPython ? '            ' : '                ';
+        const body: string[] = [];
+
+        if (node.type === 'end') {
+            body.push(isPython ? 'return' : 'return;');
+        } else if (node.type === 'condition') {
+            const condition = stripQuestion(label);
+            if (isPython) {
+                body.push(`state = ${quote(next)} if ${condition} else ${quote(alternative)}`);
+            } else {
+                body.push(`state = (${condition}) ? ${quote(next)} : ${quote(alternative)};`, 'break;');
+            }
+        } else if (node.type === 'switch') {
+            const { jumps, fallback } = getSwitchJumps(graph, node);
+            const printer = PRINTERS[language];
+            const subject = stripQuestion(label);
+            const end = isPython ? '' : ';';
+            jumps.forEach((jump, jumpIndex) => {
+                const test = printer.caseTest(subject, [jump.label]);
+                body.push(jumpIndex === 0 ? printer.ifOpen(test) : printer.elseIfOpen(test), `    state = ${quote(jump.target)}${end}`);
+            });
+            if (jumps.length === 0) {
+                body.push(`state = ${quote(fallback)}${end}`);
+            } else {
+                body.push(printer.elseOpen, `    state = ${quote(fallback)}${end}`);
+                if (printer.ifClose) body.push(printer.ifClose);
+            }
+            if (!isPython) body.push('break;');
+        } else {
+            if (node.type === 'subprocess') body.push(PRINTERS[language].call(toCallName(node)));
+            else if (node.type !== 'start' && node.type !== 'connector') body.push(...PRINTERS[language].statement(label || '(empty)'));
+            body.push(isPython ? `state = ${quote(next)}` : `state = ${quote(next)};`);
+            if (!isPython) body.push('break;');
+        }
+
+        if (isPython) {
+            lines.push(`        ${index === 0 ? 'if' : 'elif'} state == '${labels.get(id)}':`);
+        } else {
+            lines.push(`            case '${labels.get(id)}':`);
+        }
+        body.forEach(line => lines.push(`${pad}${line}`));
+    });
+
+    if (!isPython) {
+        lines.push('            default:', '                return;', '        }', '    }', '}');
+    }
+
+    return lines;
+};
+
+/**
+ * Generate structured code from the flowchart. Execution nodes become statements,
+ * sub-process nodes become function calls, conditions become if/else, switches become if/else-if chains and
+ * back-edges become while loops; flows that cannot be structured fall back to a state machine (Python/JavaScript)
+ * or labeled GOTOs (pseudocode).
+ */
+export const generateCode = (nodes: Node[], edges: Edge[], language: CodeLanguage): string => {
+    const graph = buildGraph(nodes, edges);
+    const name = toFunctionName(getLabel(graph.nodes.get(graph.startId)!));
+    const printer = PRINTERS[language];
+
+    try {
+        const statements = structure(graph);
+        const body = printStatements(statements, printer, 1);
+        if (body.length === 0 && printer.empty) body.push(`${printer.indent}${printer.empty}`);
+        return [...printer.header(name), ...body, ...printer.footer].join('\n') + '\n';
+    } catch (error) {
+        if (!(error instanceof UnstructuredFlowError)) throw error;
+        return printStateMachine(graph, language, name).join('\n') + '\n';
+    }
+};
@@ -0,0 +1,753 @@
+import { getDefaultSize, FlowchartProjectNode, FlowchartProjectEdge } from './export';
+import { getEdgeStyling } from './edgeStyle';
+
+/**
+ * Source languages that can be turned into a flowchart
+ */
+export type SourceLanguage = 'javascript' | 'python';
+
+export interface SourceParseResult {
+    language: SourceLanguage;
+    name: string;
+    nodes: FlowchartProjectNode[];
+    edges: FlowchartProjectEdge[];
+}
+
+export interface SourceParseOptions {
+    // Force a language instead of detecting it from the source
+    language?: SourceLanguage;
+    createId?: () => string;
+}
+
+/**
+ * Language-neutral statement tree shared by both parsers
+ */
+type Statement =
+    | { kind: 'simple'; text: string }
+    | { kind: 'if'; condition: string; then: Statement[]; otherwise: Statement[] }
+    | { kind: 'loop'; condition: string; init?: string; update?: string; body: Statement[]; otherwise?: Statement[]; postTest?: boolean }
+    | { kind: 'exit'; text: string }
+    | { kind: 'break' }
+    | { kind: 'continue' };
+
+interface ParsedFunction {
+    name: string;
+    body: Statement[];
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Guess the language from function headers and block syntax
+ */
+export const detectSourceLanguage = (source: string): SourceLanguage => {
+    if (/^\s*(async\s+)?def\s+\w+\s*\(/m.test(source)) return 'python';
+    if (/\bfunction\b|=>|[{};]\s*$/m.test(source)) return 'javascript';
+    return /:\s*(#.*)?$/m.test(source) ? 'python' : 'javascript';
+};
+
+// ---- JavaScript / TypeScript ----
+
+/**
+ * Index just past the string, template literal or comment starting at `index`, or -1 if there is none
+ */
+const skipJsLiteral = (src: string, index: number): number => {
+    const char = src[index];
+    if (char === '/' && src[index + 1] === '/') {
+        const end = src.indexOf('\n', index);
+        return end === -1 ? src.length : end;
+    }
+    if (char === '/' && src[index + 1] === '*') {
+        const end = src.indexOf('*/', index + 2);
+        return end === -1 ? src.length : end + 2;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+        let i = index + 1;
+        while (i < src.length && src[i] !== char) {
+            i += src[i] === '\\' ? 2 : 1;
+        }
+        return i + 1;
+    }
+    return -1;
+};
+
+/**
+ * Index of the bracket closing the one at `open`
+ */
+const findClosing = (src: string, open: number): number => {
+    let depth = 0;
+    for (let i = open; i < src.length; i++) {
+        const skip = skipJsLiteral(src, i);
+        if (skip !== -1) {
+            i = skip - 1;
+            continue;
+        }
+        if ('([{'.includes(src[i])) depth++;
+        if (')]}'.includes(src[i]) && --depth === 0) return i;
+    }
+    throw new Error(`Unbalanced "${src[open]}" in source.`);
+};
+
+/**
+ * Skip whitespace and comments
+ */
+const skipJsTrivia = (src: string, index: number): number => {
+    let i = index;
+    while (i < src.length) {
+        if (/\s/.test(src[i])) {
+            i++;
+        } else if (src[i] === '/' && (src[i + 1] === '/' || src[i + 1] === '*')) {
+            i = skipJsLiteral(src, i);
+        } else {
+            break;
+        }
+    }
+    return i;
+};
+
+// A newline only ends a statement when neither side continues the expression
+const JS_CONTINUES_BEFORE = /([-+*/%&|^!=<>?:,.(]|\b(new|typeof|await|in|of|instanceof))\s*$/;
+const JS_CONTINUES_AFTER = /^\s*([-+*/%&|^=<>?:,.)\]}]|\b(in|of|instanceof)\b)/;
+
+const parseJsBlock = (src: string): Statement[] => {
+    let pos = 0;
+
+    const expect = (char: string) => {
+        pos = skipJsTrivia(src, pos);
+        if (src[pos] !== char) throw new Error(`Expected "${char}" near "${collapse(src.slice(pos, pos + 30))}".`);
+    };
+
+    // Read `( ... )` and return its contents
+    const readParens = (): string => {
+        expect('(');
+        const close = findClosing(src, pos);
+        const text = src.slice(pos + 1, close);
+        pos = close + 1;
+        return text;
+    };
+
+    // Read up to the end of a simple statement
+    const readSimple = (): string => {
+        const start = pos;
+        while (pos < src.length) {
+            const skip = skipJsLiteral(src, pos);
+            if (skip !== -1) {
+                pos = skip;
+                continue;
+            }
+            const char = src[pos];
+            if ('([{'.includes(char)) {
+                pos = findClosing(src, pos) + 1;
+                continue;
+            }
+            if (char === ';') {
+                pos++;
+                return src.slice(start, pos - 1);
+            }
+            if (char === '}') return src.slice(start, pos);
+            if (char === '\n' && !JS_CONTINUES_BEFORE.test(src.slice(start, pos)) && !JS_CONTINUES_AFTER.test(src.slice(pos))) {
+                return src.slice(start, pos);
+            }
+            pos++;
+        }
+        return src.slice(start);
+    };
+
+    const parseBody = (): Statement[] => {
+        pos = skipJsTrivia(src, pos);
+        if (src[pos] === '{') {
+            const close = findClosing(src, pos);
+            const body = parseJsBlock(src.slice(pos + 1, close));
+            pos = close + 1;
+            return body;
+        }
+        const statement = parseStatement();
+        return statement ? [statement] : [];
+    };
+
+    const peekWord = (word: string) => {
+        const at = skipJsTrivia(src, pos);
+        return new RegExp(`^${word}\\b`).test(src.slice(at));
+    };
+
+    const takeWord = (word: string) => {
+        pos = skipJsTrivia(src, pos) + word.length;
+    };
+
+    // `switch` becomes an if / else-if chain; fall-through cases are joined with `||`
+    const parseSwitch = (): Statement => {
+        const subject = collapse(readParens());
+        expect('{');
+        const close = findClosing(src, pos);
+        const body = src.slice(pos + 1, close);
+        pos = close + 1;
+
+        const cases: { tests: string[]; body: string }[] = [];
+        const labelPattern = /\b(case\s+([^:]+?)|default)\s*:/y;
+        let depth = 0;
+        let last: { tests: string[]; start: number } | null = null;
+        for (let i = 0; i < body.length; i++) {
+            const skip = skipJsLiteral(body, i);
+            if (skip !== -1) {
+                i = skip - 1;
+                continue;
+            }
+            if ('([{'.includes(body[i])) depth++;
+            if (')]}'.includes(body[i])) depth--;
+            if (depth !== 0) continue;
+            labelPattern.lastIndex = i;
+            const match = labelPattern.exec(body);
+            if (!match) continue;
+            const test = match[2] ? `${subject} === ${collapse(match[2])}` : 'default';
+            const previous = last ? body.slice(last.start, i) : '';
+            if (last && !previous.trim()) {
+                last = { tests: [...last.tests, test], start: i + match[0].length };
+            } else {
+                if (last) cases.push({ tests: last.tests, body: previous });
+                last = { tests: [test], start: i + match[0].length };
+            }
+            i += match[0].length - 1;
+        }
+        if (last) cases.push({ tests: last.tests, body: body.slice(last.start) });
+
+        const withoutBreak = (statements: Statement[]) => {
+            const lastStatement = statements[statements.length - 1];
+            return lastStatement?.kind === 'break' ? statements.slice(0, -1) : statements;
+        };
+
+        let chain: Statement[] = [];
+        for (let i = cases.length - 1; i >= 0; i--) {
+            const { tests, body: caseBody } = cases[i];
+            const statements = withoutBreak(parseJsBlock(caseBody));
+            if (tests.includes('default')) {
+                chain = statements;
+            } else {
+                chain = [{ kind: 'if', condition: tests.join(' || '), then: statements, otherwise: chain }];
+            }
+        }
+        return chain[0] || { kind: 'simple', text: `switch (${subject})` };
+    };
+
+    const parseStatement = (): Statement | null => {
+        pos = skipJsTrivia(src, pos);
+        if (pos >= src.length) return null;
+        const rest = src.slice(pos);
+        const keyword = /^(if|while|for|do|return|throw|break|continue|switch|try)\b/.exec(rest)?.[1];
+
+        if (src[pos] === ';') {
+            pos++;
+            return parseStatement();
+        }
+        if (src[pos] === '{') {
+            const body = parseBody();
+            return body.length === 1 ? body[0] : body.length === 0 ? null : { kind: 'if', condition: 'true', then: body, otherwise: [] };
+        }
+
+        switch (keyword) {
+            case 'if': {
+                takeWord('if');
+                const condition = collapse(readParens());
+                const then = parseBody();
+                let otherwise: Statement[] = [];
+                if (peekWord('else')) {
+                    takeWord('else');
+                    otherwise = parseBody();
+                }
+                return { kind: 'if', condition, then, otherwise };
+            }
+            case 'while': {
+                takeWord('while');
+                const condition = collapse(readParens());
+                return { kind: 'loop', condition, body: parseBody() };
+            }
+            case 'do': {
+                takeWord('do');
+                const body = parseBody();
+                if (!peekWord('while')) throw new Error('Expected "while" after do block.');
+                takeWord('while');
+                const condition = collapse(readParens());
+                pos = skipJsTrivia(src, pos);
+                if (src[pos] === ';') pos++;
+                return { kind: 'loop', condition, body, postTest: true };
+            }
+            case 'for': {
+                takeWord('for');
+                pos = skipJsTrivia(src, pos);
+                if (src.slice(pos).startsWith('await')) takeWord('await');
+                const header = readParens();
+                const parts = splitTopLevel(header, ';');
+                const body = parseBody();
+                if (parts.length === 3) {
+                    return {
+                        kind: 'loop',
+                        init: collapse(parts[0]) || undefined,
+                        condition: collapse(parts[1]) || 'true',
+                        update: collapse(parts[2]) || undefined,
+                        body,
+                    };
+                }
+                return { kind: 'loop', condition: `for each ${collapse(header.replace(/^\s*(const|let|var)\s+/, ''))}`, body };
+            }
+            case 'switch':
+                takeWord('switch');
+                return parseSwitch();
+            case 'try': {
+                // The try block, then a decision on whether it threw (the catch block), then finally
+                takeWord('try');
+                const body = parseBody();
+                if (peekWord('catch')) {
+                    takeWord('catch');
+                    pos = skipJsTrivia(src, pos);
+                    if (src[pos] === '(') readParens();
+                    body.push({ kind: 'if', condition: 'error thrown', then: parseBody(), otherwise: [] });
+                }
+                if (peekWord('finally')) {
+                    takeWord('finally');
+                    body.push(...parseBody());
+                }
+                return body.length === 1 ? body[0] : { kind: 'if', condition: 'true', then: body, otherwise: [] };
+            }
+            case 'break':
+            case 'continue':
+                takeWord(keyword);
+                readSimple();
+                return { kind: keyword };
+            case 'return':
+            case 'throw':
+                return { kind: 'exit', text: collapse(readSimple()) };
+            default: {
+                const text = collapse(readSimple());
+                if (!text) {
+                    if (src[pos] === '}') throw new Error('Unexpected "}" in source.');
+                    return parseStatement();
+                }
+                return { kind: 'simple', text };
+            }
+        }
+    };
+
+    const statements: Statement[] = [];
+    let statement: Statement | null;
+    while ((statement = parseStatement())) {
+        // Bare blocks were wrapped as `if (true)`; flatten them back into the sequence
+        if (statement.kind === 'if' && statement.condition === 'true' && statement.otherwise.length === 0) {
+            statements.push(...statement.then);
+        } else {
+            statements.push(statement);
+        }
+    }
+    return statements;
+};
+
+/**
+ * Split `text` on `separator` outside brackets and strings
+ */
+const splitTopLevel = (text: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const skip = skipJsLiteral(text, i);
+        if (skip !== -1) {
+            i = skip - 1;
+            continue;
+        }
+        if ('([{'.includes(text[i])) depth++;
+        if (')]}'.includes(text[i])) depth--;
+        if (depth === 0 && text[i] === separator) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts;
+};
+
+/**
+ * Find the first function in the source and parse its body; bare statements are parsed as-is
+ */
+const parseJavaScript = (source: string): ParsedFunction => {
+    const headers = [
+        /(?:^|\n)\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([\w$]*)\s*(?:<[^>]*>)?\s*\(/,
+        /(?:^|\n)\s*(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b[^(]*)?\(/,
+        /(?:^|\n)\s*(?:(?:public|private|protected|static|async|override)\s+)*([\w$]+)\s*(?:<[^>]*>)?\s*\(/,
+    ];
+
+    for (const header of headers) {
+        const match = header.exec(source);
+        if (!match) continue;
+        const open = match.index + match[0].length - 1;
+        const paramsClose = findClosing(source, open);
+
+        // Skip an optional return type and `=>` up to the body
+        let i = paramsClose + 1;
+        while (i < source.length && source[i] !== '{' && source[i] !== ';') {
+            i = skipJsLiteral(source, i) !== -1 ? skipJsLiteral(source, i) : i + 1;
+        }
+        // Only a return type or `=>` may sit between the parameters and the body
+        if (source[i] !== '{' || !/^\s*(?::[^;=(){}]+?)?\s*(?:=>)?\s*$/.test(source.slice(paramsClose + 1, i))) continue;
+        // Control statements look like method headers; only accept a real declaration
+        if (/^(if|while|for|switch|catch|with)$/.test(match[1])) continue;
+
+        const close = findClosing(source, i);
+        return { name: match[1] || 'Start', body: parseJsBlock(source.slice(i + 1, close)) };
+    }
+
+    return { name: 'Start', body: parseJsBlock(source) };
+};
+
+// ---- Python ----
+
+interface PythonLine {
+    indent: number;
+    text: string;
+}
+
+/**
+ * Join bracketed and backslash continuations into logical lines without comments
+ */
+const toPythonLines = (source: string): PythonLine[] => {
+    const lines: PythonLine[] = [];
+    let current = '';
+    let indent = -1;
+    let depth = 0;
+    let i = 0;
+
+    const flush = () => {
+        const text = collapse(current);
+        // A bare string literal on its own line is a docstring
+        if (text && !/^[rbuf]*("""|'''|"|')[\s\S]*\1$/i.test(text)) lines.push({ indent, text });
+        current = '';
+        indent = -1;
+    };
+
+    while (i < source.length) {
+        const char = source[i];
+        if (indent === -1) {
+            const match = /^[ \t]*/.exec(source.slice(i))!;
+            if (source[i + match[0].length] === '\n' || source[i + match[0].length] === '#' || i + match[0].length >= source.length) {
+                // Blank or comment-only line
+                const end = source.indexOf('\n', i);
+                i = end === -1 ? source.length : end + 1;
+                continue;
+            }
+            indent = match[0].replace(/\t/g, '    ').length;
+            i += match[0].length;
+            continue;
+        }
+        if (char === '#') {
+            const end = source.indexOf('\n', i);
+            i = end === -1 ? source.length : end;
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            const quote = source.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+            let j = i + quote.length;
+            while (j < source.length && !source.startsWith(quote, j)) {
+                j += source[j] === '\\' ? 2 : 1;
+            }
+            current += source.slice(i, j + quote.length);
+            i = j + quote.length;
+            continue;
+        }
+        if (char === '\\' && source[i + 1] === '\n') {
+            current += ' ';
+            i += 2;
+            continue;
+        }
+        if ('([{'.includes(char)) depth++;
+        if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+        if (char === '\n' && depth === 0) {
+            flush();
+            i++;
+            continue;
+        }
+        current += char;
+        i++;
+    }
+    if (current.trim()) flush();
+    return lines;
+};
+
+/**
+ * Position of the `:` that ends a compound statement header, or -1
+ */
+const findHeaderColon = (text: string): number => {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"' || char === "'") {
+            const end = text.indexOf(char, i + 1);
+            i = end === -1 ? text.length : end;
+            continue;
+        }
+        if ('([{'.includes(char)) depth++;
+        if (')]}'.includes(char)) depth--;
+        // Skip the walrus operator and lambda bodies
+        if (char === ':' && depth === 0 && text[i + 1] !== '=' && !/\blambda\b[^:]*$/.test(text.slice(0, i))) return i;
+    }
+    return -1;
+};
+
+const PYTHON_COMPOUND = /^(if|elif|else|while|for|async\s+for|try|except|finally|with|async\s+with|def|async\s+def|class|match)\b/;
+
+const parsePythonBlock = (lines: PythonLine[], start: number, indent: number): { statements: Statement[]; next: number } => {
+    const statements: Statement[] = [];
+    let i = start;
+
+    // Body of a compound header: inline after the colon or the following indented lines
+    const readBody = (line: PythonLine, colon: number): Statement[] => {
+        const inline = line.text.slice(colon + 1).trim();
+        if (inline) {
+            return parsePythonBlock(inline.split(/;\s*/).filter(Boolean).map(text => ({ indent: line.indent, text })), 0, line.indent).statements;
+        }
+        if (i < lines.length && lines[i].indent > line.indent) {
+            const block = parsePythonBlock(lines, i, lines[i].indent);
+            i = block.next;
+            return block.statements;
+        }
+        return [];
+    };
+
+    const peekClause = (keyword: string) =>
+        i < lines.length && lines[i].indent === indent && new RegExp(`^${keyword}\\b`).test(lines[i].text);
+
+    while (i < lines.length && lines[i].indent >= indent) {
+        const line = lines[i];
+        if (line.indent > indent) throw new Error(`Unexpected indentation: "${line.text}".`);
+        i++;
+
+        const compound = PYTHON_COMPOUND.exec(line.text)?.[1];
+        const colon = compound ? findHeaderColon(line.text) : -1;
+
+        if (compound && colon !== -1) {
+            const header = line.text.slice(compound.length, colon).trim();
+            const keyword = compound.replace(/\s+/g, ' ');
+
+            if (keyword === 'if') {
+                const root: Statement = { kind: 'if', condition: header, then: readBody(line, colon), otherwise: [] };
+                let tail = root;
+                while (peekClause('elif') || peekClause('else')) {
+                    const clause = lines[i++];
+                    const clauseColon = findHeaderColon(clause.text);
+                    if (clause.text.startsWith('elif')) {
+                        const next: Statement = { kind: 'if', condition: clause.text.slice(4, clauseColon).trim(), then: readBody(clause, clauseColon), otherwise: [] };
+                        tail.otherwise = [next];
+                        tail = next;
+                    } else {
+                        tail.otherwise = readBody(clause, clauseColon);
+                        break;
+                    }
+                }
+                statements.push(root);
+            } else if (keyword === 'while' || keyword === 'for' || keyword === 'async for') {
+                const condition = keyword === 'while' ? header : `for each ${header}`;
+                const loop: Statement = { kind: 'loop', condition, body: readBody(line, colon) };
+                if (peekClause('else')) {
+                    const clause = lines[i++];
+                    loop.otherwise = readBody(clause, findHeaderColon(clause.text));
+                }
+                statements.push(loop);
+            } else if (keyword === 'try') {
+                // The try block, then one decision per except clause (else runs when none matched), then finally
+                statements.push(...readBody(line, colon));
+                let handlers: Statement | undefined;
+                let tail: Statement | undefined;
+                while (peekClause('except') || peekClause('else') || peekClause('finally')) {
+                    const clause = lines[i++];
+                    const clauseColon = findHeaderColon(clause.text);
+                    const body = readBody(clause, clauseColon);
+                    if (clause.text.startsWith('except')) {
+                        const caught = clause.text.slice('except'.length, clauseColon).replace(/\s+as\s+\w+\s*$/, '').trim();
+                        const handler: Statement = { kind: 'if', condition: `${caught || 'error'} raised`, then: body, otherwise: [] };
+                        if (tail?.kind === 'if') tail.otherwise = [handler];
+                        else handlers = handler;
+                        tail = handler;
+                    } else if (clause.text.startsWith('else') && tail?.kind === 'if') {
+                        tail.otherwise = body;
+                    } else {
+                        if (handlers) statements.push(handlers);
+                        handlers = undefined;
+                        statements.push(...body);
+                    }
+                }
+                if (handlers) statements.push(handlers);
+            } else if (keyword === 'with' || keyword === 'async with') {
+                statements.push({ kind: 'simple', text: `${keyword} ${header}` }, ...readBody(line, colon));
+            } else {
+                // Nested definitions and match blocks are kept as a single step
+                readBody(line, colon);
+                statements.push({ kind: 'simple', text: line.text.slice(0, colon).trim() });
+            }
+            continue;
+        }
+
+        if (/^(return|raise)\b/.test(line.text)) {
+            statements.push({ kind: 'exit', text: line.text });
+        } else if (line.text === 'break' || line.text === 'continue') {
+            statements.push({ kind: line.text });
+        } else if (line.text !== 'pass' && line.text !== '...') {
+            statements.push({ kind: 'simple', text: line.text });
+        }
+    }
+
+    return { statements, next: i };
+};
+
+/**
+ * Find the first `def` in the source and parse its body; bare statements are parsed as-is
+ */
+const parsePython = (source: string): ParsedFunction => {
+    const lines = toPythonLines(source);
+    const defIndex = lines.findIndex(line => /^(async\s+)?def\s+\w+/.test(line.text));
+
+    if (defIndex === -1) {
+        const indent = Math.min(...lines.map(line => line.indent));
+        return { name: 'Start', body: parsePythonBlock(lines, 0, indent).statements };
+    }
+
+    const header = lines[defIndex];
+    const name = /def\s+(\w+)/.exec(header.text)![1];
+    const colon = findHeaderColon(header.text);
+    const inline = header.text.slice(colon + 1).trim();
+    if (inline) {
+        return { name, body: parsePythonBlock([{ indent: header.indent, text: inline }], 0, header.indent).statements };
+    }
+    const bodyIndent = lines[defIndex + 1]?.indent ?? 0;
+    if (bodyIndent <= header.indent) return { name, body: [] };
+    return { name, body: parsePythonBlock(lines, defIndex + 1, bodyIndent).statements };
+};
+
+// ---- Flowchart construction ----
+
+// A dangling connection waiting for the next node
+interface Exit {
+    source: string;
+    sourceHandle: string;
+    label?: string;
+}
+
+interface LoopContext {
+    breaks: Exit[];
+    continues: Exit[];
+}
+
+const withQuestion = (text: string) => (/[?？]$/.test(text) ? text : `${text}?`);
+
+/**
+ * Parse a JavaScript/TypeScript or Python function and build start, execution, condition and end nodes.
+ * Nodes are returned at the origin; run the result through the auto layout.
+ */
+export const parseSourceCode = (source: string, options: SourceParseOptions = {}): SourceParseResult => {
+    if (!source.trim()) throw new Error('Paste a function to convert.');
+
+    const language = options.language || detectSourceLanguage(source);
+    const parsed = language === 'python' ? parsePython(source) : parseJavaScript(source);
+
+    let counter = 0;
+    const createId = options.createId || (() => `node_${counter++}`);
+    const nodes: FlowchartProjectNode[] = [];
+    const edges: FlowchartProjectEdge[] = [];
+
+    const addNode = (type: string, label: string, incoming: Exit[]): string => {
+        const id = createId();
+        const size = getDefaultSize(type);
+        nodes.push({
+            id,
+            type,
+            position: { x: 0, y: 0 },
+            size,
+            style: { width: size.width, height: size.height },
+            data: { label },
+        });
+        connect(incoming, id, type);
+        return id;
+    };
+
+    const connect = (incoming: Exit[], target: string, targetType: string) => {
+        incoming.forEach(exit => {
+            edges.push({
+                id: `edge_${exit.source}_${target}_${edges.length}`,
+                source: exit.source,
+                target,
+                sourceHandle: exit.sourceHandle,
+                targetHandle: `${targetType}-top`,
+                label: exit.label,
+                ...getEdgeStyling(exit.label || ''),
+            } as FlowchartProjectEdge);
+        });
+    };
+
+    const trueExit = (id: string): Exit => ({ source: id, sourceHandle: 'condition-bottom-true', label: 'True' });
+    const falseExit = (id: string): Exit => ({ source: id, sourceHandle: 'condition-left-false', label: 'False' });
+
+    // Emit statements after `incoming` and return the exits that fall through
+    const emit = (statements: Statement[], incoming: Exit[], loop: LoopContext | null): Exit[] => {
+        let exits = incoming;
+
+        statements.forEach(statement => {
+            switch (statement.kind) {
+                case 'simple': {
+                    const id = addNode('execution', statement.text, exits);
+                    exits = [{ source: id, sourceHandle: 'execution-bottom' }];
+                    break;
+                }
+                case 'exit':
+                    addNode('end', statement.text, exits);
+                    exits = [];
+                    break;
+                case 'break':
+                case 'continue':
+                    if (!loop) throw new Error(`"${statement.kind}" outside of a loop.`);
+                    (statement.kind === 'break' ? loop.breaks : loop.continues).push(...exits);
+                    exits = [];
+                    break;
+                case 'if': {
+                    const id = addNode('condition', withQuestion(statement.condition), exits);
+                    exits = [
+                        ...emit(statement.then, [trueExit(id)], loop),
+                        ...emit(statement.otherwise, [falseExit(id)], loop),
+                    ];
+                    break;
+                }
+                case 'loop': {
+                    const context: LoopContext = { breaks: [], continues: [] };
+                    if (statement.init) {
+                        const init = addNode('execution', statement.init, exits);
+                        exits = [{ source: init, sourceHandle: 'execution-bottom' }];
+                    }
+
+                    if (statement.postTest) {
+                        // do ... while: the body runs first and the test jumps back to its first node
+                        const firstIndex = nodes.length;
+                        const bodyExits = emit(statement.body, exits, context);
+                        const condition = addNode('condition', withQuestion(statement.condition), [...bodyExits, ...context.continues]);
+                        const entry = nodes[firstIndex]?.id ?? condition;
+                        connect([trueExit(condition)], entry, nodes[firstIndex]?.type ?? 'condition');
+                        exits = [falseExit(condition), ...context.breaks];
+                        break;
+                    }
+
+                    const condition = addNode('condition', withQuestion(statement.condition), exits);
+                    let back = emit(statement.body, [trueExit(condition)], context);
+                    back = [...back, ...context.continues];
+                    if (statement.update) {
+                        const update = addNode('execution', statement.update, back);
+                        back = [{ source: update, sourceHandle: 'execution-bottom' }];
+                    }
+                    connect(back, condition, 'condition');
+                    exits = [...emit(statement.otherwise || [], [falseExit(condition)], loop), ...context.breaks];
+                    break;
+                }
+            }
+        });
+
+        return exits;
+    };
+
+    const start = addNode('start', parsed.name, []);
+    const exits = emit(parsed.body, [{ source: start, sourceHandle: 'start-bottom' }], null);
+    if (exits.length > 0) addNode('end', 'End', exits);
+
+    return { language, name: parsed.name, nodes, edges };
+};
@@ -0,0 +1,148 @@
+import { CrdtDoc } from './crdt';
+
+/**
+ * A person in a live session
+ */
+export interface CollabPeer {
+    id: string;
+    name: string;
+    color: string;
+}
+
+/**
+ * Where a collaborator points (flow coordinates) and what they have selected
+ */
+export interface CollabPresence {
+    cursor: { x: number; y: number } | null;
+    selection: string[];
+}
+
+export type CollabPeerState = CollabPeer & CollabPresence;
+
+export type CollabStatus = 'connecting' | 'online' | 'offline';
+
+/**
+ * Messages exchanged with the sync server (server/sync-server.js).
+ * `hello` carries the full local document, so edits made while offline are merged on every reconnect.
+ */
+export type CollabClientMessage =
+    | { type: 'hello'; peer: CollabPeer; doc: CrdtDoc }
+    | { type: 'update'; doc: CrdtDoc }
+    | ({ type: 'presence' } & CollabPresence);
+
+export type CollabServerMessage =
+    | { type: 'welcome'; doc: CrdtDoc; peers: CollabPeerState[] }
+    | { type: 'update'; doc: CrdtDoc }
+    | { type: 'presence'; peer: CollabPeerState }
+    | { type: 'leave'; peerId: string };
+
+export interface CollabHandlers {
+    onStatus: (status: CollabStatus) => void;
+    onWelcome: (doc: CrdtDoc, peers: CollabPeerState[]) => void;
+    onUpdate: (doc: CrdtDoc) => void;
+    onPresence: (peer: CollabPeerState) => void;
+    onLeave: (peerId: string) => void;
+}
+
+export interface CollabConnection {
+    sendUpdate: (doc: CrdtDoc) => void;
+    sendPresence: (presence: CollabPresence) => void;
+    close: () => void;
+}
+
+export const DEFAULT_COLLAB_PORT = 4455;
+
+const PEER_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899', '#84cc16'];
+
+// Reconnect delays grow up to this while the server is unreachable
+const MAX_RETRY_DELAY_MS = 10000;
+
+export const getDefaultCollabUrl = () => `ws://${window.location.hostname || 'localhost'}:${DEFAULT_COLLAB_PORT}`;
+
+export const createPeerId = () => Math.random().toString(36).slice(2, 8);
+
+export const getPeerColor = (peerId: string) => {
+    let hash = 0;
+    for (let i = 0; i < peerId.length; i++) hash = (hash * 31 + peerId.charCodeAt(i)) | 0;
+    return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+/**
+ * Join `room` on the sync server at `url`, reconnecting until closed.
+ * `getDoc` supplies the document to reconcile with each time the connection opens.
+ */
+export const connectCollaboration = (
+    url: string,
+    room: string,
+    peer: CollabPeer,
+    getDoc: () => CrdtDoc,
+    handlers: CollabHandlers
+): CollabConnection => {
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let retryDelay = 500;
+    let retryTimeout: number | null = null;
+
+    const send = (message: CollabClientMessage) => {
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const open = () => {
+        handlers.onStatus('connecting');
+        try {
+            socket = new WebSocket(`${url.replace(/\/+$/, '')}/${encodeURIComponent(room)}`);
+        } catch (error) {
+            console.error('Error connecting to the sync server:', error);
+            handlers.onStatus('offline');
+            return;
+        }
+
+        socket.onopen = () => {
+            retryDelay = 500;
+            send({ type: 'hello', peer, doc: getDoc() });
+        };
+        socket.onmessage = event => {
+            let message: CollabServerMessage;
+            try {
+                message = JSON.parse(event.data);
+            } catch (error) {
+                console.error('Invalid message from the sync server:', error);
+                return;
+            }
+            switch (message.type) {
+                case 'welcome':
+                    handlers.onStatus('online');
+                    handlers.onWelcome(message.doc, message.peers);
+                    break;
+                case 'update':
+                    handlers.onUpdate(message.doc);
+                    break;
+                case 'presence':
+                    handlers.onPresence(message.peer);
+                    break;
+                case 'leave':
+                    handlers.onLeave(message.peerId);
+                    break;
+            }
+        };
+        socket.onclose = () => {
+            socket = null;
+            if (closed) return;
+            handlers.onStatus('offline');
+            retryTimeout = window.setTimeout(open, retryDelay);
+            retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+        };
+    };
+
+    open();
+
+    return {
+        sendUpdate: doc => send({ type: 'update', doc }),
+        sendPresence: presence => send({ type: 'presence', ...presence }),
+        close: () => {
+            closed = true;
+            if (retryTimeout) clearTimeout(retryTimeout);
+            socket?.close();
+        },
+    };
+};
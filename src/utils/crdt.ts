@@ -0,0 +1,223 @@
+import { Edge } from '@xyflow/react';
+import { serializeEdge, serializeNodeData, FlowchartProjectEdge, FlowchartProjectNodeData } from './export';
+import { HistoryNode, HistorySnapshot } from './history';
+
+/**
+ * Lamport timestamp of a write: counter first, replica ID breaks ties so every replica picks the same winner
+ */
+export type CrdtClock = [number, string];
+
+/**
+ * Last-writer-wins value of one field (null stands for "not set")
+ */
+export interface CrdtRegister {
+    value: unknown;
+    clock: CrdtClock;
+}
+
+/**
+ * Fields of one node or edge; the `deleted` field is its tombstone
+ */
+export type CrdtEntry = Record<string, CrdtRegister>;
+
+/**
+ * Shared state of a page: a map of nodes and a map of edges, each a map of LWW fields.
+ * Merging two documents keeps the newest write of every field, so replicas that saw the
+ * same writes end up equal whatever order the writes arrived in (offline edits included).
+ */
+export interface CrdtDoc {
+    nodes: Record<string, CrdtEntry>;
+    edges: Record<string, CrdtEntry>;
+}
+
+/**
+ * A document plus the identity and clock of the replica writing to it
+ */
+export interface CrdtReplica {
+    id: string;
+    counter: number;
+    doc: CrdtDoc;
+}
+
+type CrdtKind = keyof CrdtDoc;
+
+const DELETED_FIELD = 'deleted';
+const DATA_PREFIX = 'data.';
+
+// Keys that would reach Object.prototype, as ids, fields or data keys ("data.__proto__")
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Entries and maps have no prototype, so no id or field name collides with an inherited property
+const createEntry = (): CrdtEntry => Object.create(null);
+
+export const createCrdtDoc = (): CrdtDoc => ({ nodes: Object.create(null), edges: Object.create(null) });
+
+export const createCrdtReplica = (id: string): CrdtReplica => ({ id, counter: 0, doc: createCrdtDoc() });
+
+export const isCrdtDocEmpty = (doc: CrdtDoc) => Object.keys(doc.nodes).length === 0 && Object.keys(doc.edges).length === 0;
+
+const compareClocks = (a: CrdtClock, b: CrdtClock) =>
+    a[0] !== b[0] ? a[0] - b[0] : a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+
+const isSafeKey = (key: string) => !UNSAFE_KEYS.has(key.startsWith(DATA_PREFIX) ? key.slice(DATA_PREFIX.length) : key);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCrdtRegister = (register: unknown): register is CrdtRegister =>
+    isPlainObject(register) &&
+    Array.isArray(register.clock) &&
+    Number.isFinite(register.clock[0]) &&
+    typeof register.clock[1] === 'string';
+
+/**
+ * Whether a document received from elsewhere has the expected shape (the sync server applies the same check)
+ */
+const isCrdtDoc = (doc: unknown): doc is CrdtDoc =>
+    isPlainObject(doc) &&
+    (['nodes', 'edges'] as CrdtKind[]).every(kind => {
+        const entries = doc[kind];
+        return isPlainObject(entries) && Object.entries(entries).every(([id, fields]) =>
+            isSafeKey(id) &&
+            isPlainObject(fields) &&
+            Object.entries(fields).every(([field, register]) => isSafeKey(field) && isCrdtRegister(register))
+        );
+    });
+
+/**
+ * Merge `incoming` into the replica's document (in place); returns whether anything changed.
+ * Invalid documents are ignored.
+ */
+export const mergeCrdtDoc = (replica: CrdtReplica, incoming: unknown): boolean => {
+    if (!isCrdtDoc(incoming)) {
+        console.error('Ignoring an invalid collaboration document');
+        return false;
+    }
+    let changed = false;
+    (['nodes', 'edges'] as CrdtKind[]).forEach(kind => {
+        Object.entries(incoming[kind]).forEach(([id, fields]) => {
+            const entry = replica.doc[kind][id] ?? (replica.doc[kind][id] = createEntry());
+            Object.entries(fields).forEach(([field, register]) => {
+                replica.counter = Math.max(replica.counter, register.clock[0]);
+                const current = entry[field];
+                if (!current || compareClocks(register.clock, current.clock) > 0) {
+                    entry[field] = register;
+                    changed = true;
+                }
+            });
+        });
+    });
+    return changed;
+};
+
+// Flat field map of a node; data keys become fields of their own so concurrent edits of
+// different properties (one user moves a node, another renames it) both survive
+const getNodeFields = (node: HistoryNode): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {
+        type: node.type,
+        parentId: node.parentId,
+        position: node.position,
+        width: node.width,
+        height: node.height,
+        style: node.style,
+    };
+    Object.entries(node.data).forEach(([key, value]) => {
+        fields[DATA_PREFIX + key] = value;
+    });
+    return fields;
+};
+
+const getEdgeFields = ({ id: _id, ...fields }: FlowchartProjectEdge): Record<string, unknown> => fields;
+
+const isAlive = (entry: CrdtEntry | undefined) => !!entry && entry[DELETED_FIELD]?.value !== true;
+
+const valueOf = (entry: CrdtEntry, field: string) => entry[field]?.value ?? undefined;
+
+/**
+ * Write the differences between the canvas and the replica's document as new registers.
+ * Returns the written registers (to send to the other replicas), or null if the canvas matches.
+ * With `since` (the canvas as it was last written or read) only what changed on the canvas since
+ * then is written, so remote writes merged into the replica in the meantime are kept.
+ */
+export const updateCrdtDoc = (replica: CrdtReplica, snapshot: HistorySnapshot, since?: HistorySnapshot): CrdtDoc | null => {
+    const delta = createCrdtDoc();
+    let changed = false;
+
+    const write = (kind: CrdtKind, id: string, field: string, value: unknown) => {
+        const register: CrdtRegister = { value: value ?? null, clock: [++replica.counter, replica.id] };
+        (replica.doc[kind][id] ??= createEntry())[field] = register;
+        (delta[kind][id] ??= createEntry())[field] = register;
+        changed = true;
+    };
+
+    const sync = (kind: CrdtKind, items: Map<string, Record<string, unknown>>, base?: Map<string, Record<string, unknown>>) => {
+        items.forEach((fields, id) => {
+            const entry = replica.doc[kind][id];
+            const baseFields = base?.get(id);
+            if (base ? !baseFields && !isAlive(entry) : !isAlive(entry)) write(kind, id, DELETED_FIELD, false);
+            const known = base ? Object.keys(baseFields ?? {}) : entry ? Object.keys(entry) : [];
+            new Set([...Object.keys(fields), ...known]).forEach(field => {
+                if (field === DELETED_FIELD) return;
+                const before = base ? baseFields?.[field] : entry ? valueOf(entry, field) : undefined;
+                if (JSON.stringify(before) !== JSON.stringify(fields[field])) write(kind, id, field, fields[field]);
+            });
+        });
+        const previousIds = base ? [...base.keys()] : Object.keys(replica.doc[kind]);
+        previousIds.forEach(id => {
+            if (isAlive(replica.doc[kind][id]) && !items.has(id)) write(kind, id, DELETED_FIELD, true);
+        });
+    };
+
+    const nodeFields = (source: HistorySnapshot) => new Map([...source.nodes].map(([id, { item }]) => [id, getNodeFields(item)]));
+    const edgeFields = (source: HistorySnapshot) => new Map([...source.edges].map(([id, { item }]) => [id, getEdgeFields(item)]));
+    sync('nodes', nodeFields(snapshot), since && nodeFields(since));
+    sync('edges', edgeFields(snapshot), since && edgeFields(since));
+    return changed ? delta : null;
+};
+
+/**
+ * Nodes and edges the document currently describes. Edges to deleted nodes are hidden and
+ * children of a deleted container fall back to the top level.
+ */
+export const readCrdtDoc = (doc: CrdtDoc): { nodes: HistoryNode[]; edges: FlowchartProjectEdge[] } => {
+    const nodeIds = new Set(Object.keys(doc.nodes).filter(id => isAlive(doc.nodes[id])));
+
+    const nodes = [...nodeIds].map(id => {
+        const entry = doc.nodes[id];
+        const data: Partial<FlowchartProjectNodeData> = {};
+        Object.keys(entry).forEach(field => {
+            if (field.startsWith(DATA_PREFIX)) {
+                (data as Record<string, unknown>)[field.slice(DATA_PREFIX.length)] = valueOf(entry, field);
+            }
+        });
+        const parentId = valueOf(entry, 'parentId') as string | undefined;
+        const width = valueOf(entry, 'width') as number | undefined;
+        const height = valueOf(entry, 'height') as number | undefined;
+        const style = valueOf(entry, 'style') as Record<string, unknown> | undefined;
+        // Same shape as the history's node records, so unchanged nodes compare equal
+        const node: HistoryNode = {
+            id,
+            type: (valueOf(entry, 'type') as string) || 'execution',
+            ...(parentId && nodeIds.has(parentId) ? { parentId } : {}),
+            position: (valueOf(entry, 'position') as { x: number; y: number }) ?? { x: 0, y: 0 },
+            ...(width !== undefined ? { width } : {}),
+            ...(height !== undefined ? { height } : {}),
+            ...(style ? { style } : {}),
+            data: serializeNodeData(data),
+        };
+        return node;
+    });
+
+    const edges = Object.keys(doc.edges)
+        .filter(id => isAlive(doc.edges[id]))
+        .map(id => {
+            const fields: Record<string, unknown> = { id };
+            Object.keys(doc.edges[id]).forEach(field => {
+                if (field !== DELETED_FIELD) fields[field] = valueOf(doc.edges[id], field);
+            });
+            return serializeEdge(fields as unknown as Edge);
+        })
+        .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+
+    return { nodes, edges };
+};
@@ -0,0 +1,160 @@
+import { Edge, MarkerType, Node } from '@xyflow/react';
+import { getSwitchCase, isSwitchNode } from './switchCases';
+
+/**
+ * Edge colors shared by the canvas, project loading and imports
+ */
+export const EDGE_COLORS = {
+    true: '#10b981',
+    false: '#ef4444',
+    default: '#7c3aed', // Violet-600 - deeper purple
+    annotation: '#94a3b8',
+};
+
+/**
+ * Get the edge label implied by a source handle (condition True/False branches)
+ */
+export const getHandleLabel = (sourceHandle: string | null | undefined): string => {
+    if (sourceHandle === 'condition-bottom-true') return 'True';
+    if (sourceHandle === 'condition-left-false' || sourceHandle === 'condition-right-false') return 'False';
+    return '';
+};
+
+/**
+ * Get the edge label implied by a connection: condition branches and switch case names
+ */
+export const getImpliedLabel = (source: Node | undefined, sourceHandle: string | null | undefined): string => {
+    if (isSwitchNode(source)) return getSwitchCase(source, sourceHandle)?.label ?? '';
+    return source?.type === 'condition' ? getHandleLabel(sourceHandle) : '';
+};
+
+/**
+ * Get edge color based on its label
+ */
+export const getEdgeColor = (label: string | undefined): string => {
+    if (label === 'True') return EDGE_COLORS.true;
+    if (label === 'False') return EDGE_COLORS.false;
+    return EDGE_COLORS.default;
+};
+
+/**
+ * Build the default visual properties for an edge with the given label
+ */
+export const getEdgeStyling = (label: string | undefined, color: string = getEdgeColor(label)): Partial<Edge> => ({
+    type: 'default',
+    animated: true,
+    style: {
+        strokeWidth: 2,
+        stroke: color,
+    },
+    labelStyle: {
+        fill: color,
+        fontWeight: 700,
+        fontSize: 13,
+        textShadow: '0 0 4px rgba(0,0,0,0.8), 0 0 8px rgba(0,0,0,0.6)',
+    },
+    labelBgStyle: {
+        fill: 'transparent',
+        fillOpacity: 0,
+    },
+});
+
+/**
+ * Dashed, static line joining a comment to the node it annotates
+ */
+export const getAnnotationEdgeStyling = (): Partial<Edge> => ({
+    type: 'straight',
+    animated: false,
+    style: {
+        strokeWidth: 1.5,
+        stroke: EDGE_COLORS.annotation,
+        strokeDasharray: '4 4',
+    },
+});
+
+/**
+ * Routing of an edge path ('default' is React Flow's bezier curve)
+ */
+export type EdgePathType = 'default' | 'smoothstep' | 'straight' | 'step';
+
+export const EDGE_PATH_TYPES: { id: EdgePathType; name: string }[] = [
+    { id: 'default', name: 'Bezier' },
+    { id: 'smoothstep', name: 'Smooth step' },
+    { id: 'straight', name: 'Straight' },
+    { id: 'step', name: 'Step' },
+];
+
+/**
+ * Marker drawn at the target end of an edge
+ */
+export type ArrowheadStyle = 'none' | 'arrow' | 'arrowclosed';
+
+export const ARROWHEAD_STYLES: { id: ArrowheadStyle; name: string }[] = [
+    { id: 'none', name: 'None' },
+    { id: 'arrow', name: 'Open arrow' },
+    { id: 'arrowclosed', name: 'Filled arrow' },
+];
+
+// Dash pattern used by the "Dashed" toggle
+const DASH_PATTERN = '6 4';
+
+/**
+ * Visual properties of an edge as edited in the inspector
+ */
+export interface EdgeAppearance {
+    label: string;
+    pathType: EdgePathType;
+    color: string;
+    strokeWidth: number;
+    dashed: boolean;
+    animated: boolean;
+    arrowhead: ArrowheadStyle;
+}
+
+const getArrowheadStyle = (marker: Edge['markerEnd']): ArrowheadStyle => {
+    const type = typeof marker === 'string' ? marker : marker?.type;
+    if (type === MarkerType.Arrow) return 'arrow';
+    if (type === MarkerType.ArrowClosed) return 'arrowclosed';
+    return 'none';
+};
+
+/**
+ * Read the editable appearance of an edge
+ */
+export const getEdgeAppearance = (edge: Edge): EdgeAppearance => {
+    const label = typeof edge.label === 'string' ? edge.label : '';
+    return {
+        label,
+        pathType: EDGE_PATH_TYPES.some(t => t.id === edge.type) ? edge.type as EdgePathType : 'default',
+        color: (edge.style?.stroke as string) || getEdgeColor(label),
+        strokeWidth: Number(edge.style?.strokeWidth) || 2,
+        dashed: Boolean(edge.style?.strokeDasharray),
+        animated: Boolean(edge.animated),
+        arrowhead: getArrowheadStyle(edge.markerEnd),
+    };
+};
+
+/**
+ * Apply appearance changes to an edge (label color and arrowhead follow the stroke color)
+ */
+export const applyEdgeAppearance = (edge: Edge, changes: Partial<EdgeAppearance>): Edge => {
+    const next = { ...getEdgeAppearance(edge), ...changes };
+    const { strokeDasharray: _dash, ...style } = edge.style || {};
+    return {
+        ...edge,
+        label: next.label || undefined,
+        type: next.pathType,
+        animated: next.animated,
+        style: {
+            ...style,
+            stroke: next.color,
+            strokeWidth: next.strokeWidth,
+            ...(next.dashed ? { strokeDasharray: DASH_PATTERN } : {}),
+        },
+        labelStyle: { ...getEdgeStyling(next.label, next.color).labelStyle, ...edge.labelStyle, fill: next.color },
+        labelBgStyle: edge.labelBgStyle || getEdgeStyling(next.label).labelBgStyle,
+        markerEnd: next.arrowhead === 'none'
+            ? undefined
+            : { type: next.arrowhead === 'arrow' ? MarkerType.Arrow : MarkerType.ArrowClosed, color: next.color },
+    };
+};
@@ -1,9 +1,20 @@
 import { toPng } from 'html-to-image';
-import { Node, Edge } from '@xyflow/react';
+import { Node, Edge, EdgeMarker } from '@xyflow/react';
+import { getEdgeColor, getEdgeStyling, getHandleLabel } from './edgeStyle';
+import { generateCode, CodeLanguage, CODE_LANGUAGES } from './codegen';
+import { SubprocessReference } from './subprocess';
+import { isSymbolType, SYMBOL_COLORS, SYMBOL_NAMES, SYMBOL_SIZES } from './symbols';
+import { isContainerNode, getAbsolutePosition, getContainerSize, sortContainersFirst, LaneOrientation } from './groups';
+import { getCaseHandleId, getSwitchCase, getSwitchCases, getSwitchSize, SwitchCase, DEFAULT_SWITCH_CASES } from './switchCases';
 
 // Custom node data interface for type safety
 interface FlowchartNodeData extends Record<string, unknown> {
     label: string;
+    color?: string;
+    description?: string;
+    subprocess?: SubprocessReference;
+    orientation?: LaneOrientation;
+    cases?: SwitchCase[];
     onChange?: (id: string, newLabel: string) => void;
 }
 
@@ -13,7 +24,7 @@ type FlowchartNode = Node<FlowchartNodeData>;
 /**
  * Export flowchart as PNG image
  */
-export const exportAsImage = async (elementId: string, fileName: string = 'flowchart.png') => {
+export const exportAsImage = async (elementId: string, fileName: string = 'flowchart.png', backgroundColor: string = '#0a0a0f') => {
     const element = document.getElementById(elementId);
     if (!element) {
         console.error('Element not found');
@@ -22,7 +33,7 @@ export const exportAsImage = async (elementId: string, fileName: string = 'flowc
 
     try {
         const dataUrl = await toPng(element, {
-            backgroundColor: '#0a0a0f',
+            backgroundColor,
             pixelRatio: 2,
         });
 
@@ -68,61 +79,183 @@ export const exportAsJSON = (nodes: FlowchartNode[], edges: Edge[], fileName: st
 /**
  * Project file format version
  */
-const PROJECT_VERSION = '1.0';
+const PROJECT_VERSION = '3.0';
 
 /**
- * Project file interface
+ * Persisted node data (runtime callbacks are never written to disk)
+ */
+export interface FlowchartProjectNodeData {
+    label: string;
+    color?: string;
+    description?: string;
+    subprocess?: SubprocessReference;
+    orientation?: LaneOrientation;
+    cases?: SwitchCase[];
+}
+
+/**
+ * Project file node (children of a swimlane or group store a position relative to it)
+ */
+export interface FlowchartProjectNode {
+    id: string;
+    type: string;
+    parentId?: string;
+    position: { x: number; y: number };
+    size?: { width: number; height: number };
+    style?: Record<string, any>;
+    data: FlowchartProjectNodeData;
+}
+
+/**
+ * Project file edge (v2 stores the full visual styling)
+ */
+export interface FlowchartProjectEdge {
+    id: string;
+    source: string;
+    target: string;
+    sourceHandle?: string;
+    targetHandle?: string;
+    label?: string;
+    type?: string;
+    animated?: boolean;
+    style?: Record<string, any>;
+    labelStyle?: Record<string, any>;
+    labelBgStyle?: Record<string, any>;
+    markerEnd?: EdgeMarker;
+}
+
+/**
+ * Saved viewport of a page
+ */
+export interface FlowchartViewport {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+/**
+ * A named diagram inside a project (v3)
+ */
+export interface FlowchartProjectPage {
+    id: string;
+    name: string;
+    nodes: FlowchartProjectNode[];
+    edges: FlowchartProjectEdge[];
+    viewport?: FlowchartViewport;
+}
+
+/**
+ * Project file interface (v3 holds several pages; v1/v2 files had a single top-level node/edge set)
  */
 export interface FlowchartProject {
     version: string;
     createdAt: string;
     modifiedAt: string;
-    nodes: Array<{
-        id: string;
-        type: string;
-        position: { x: number; y: number };
-        size?: { width: number; height: number };
-        style?: Record<string, any>;
-        data: { label: string };
-    }>;
-    edges: Array<{
-        id: string;
-        source: string;
-        target: string;
-        sourceHandle?: string;
-        targetHandle?: string;
-        label?: string;
-    }>;
+    pages: FlowchartProjectPage[];
+    activePageId?: string;
 }
 
 /**
- * Save flowchart project to .fchart file (complete save with all positions and sizes)
+ * Canvas state of a page, as held by the editor
  */
-export const saveProject = (nodes: FlowchartNode[], edges: Edge[], fileName: string = 'flowchart.fchart') => {
-    const project: FlowchartProject = {
-        version: PROJECT_VERSION,
-        createdAt: new Date().toISOString(),
-        modifiedAt: new Date().toISOString(),
-        nodes: nodes.map(node => ({
-            id: node.id,
-            type: node.type || 'execution',
-            position: node.position,
-            size: {
-                width: (node.measured?.width as number) || ((node.style as Record<string, number>)?.width) || getDefaultSize(node.type).width,
-                height: (node.measured?.height as number) || ((node.style as Record<string, number>)?.height) || getDefaultSize(node.type).height,
-            },
-            style: node.style as Record<string, unknown>,
-            data: { label: node.data?.label || '' },
-        })),
-        edges: edges.map(edge => ({
-            id: edge.id,
-            source: edge.source,
-            target: edge.target,
-            sourceHandle: edge.sourceHandle || undefined,
-            targetHandle: edge.targetHandle || undefined,
-            label: edge.label as string || undefined,
-        })),
-    };
+export interface FlowchartPage {
+    id: string;
+    name: string;
+    nodes: FlowchartNode[];
+    edges: Edge[];
+    viewport?: FlowchartViewport;
+}
+
+/**
+ * Strip runtime-only fields (callbacks) from node data
+ */
+export const serializeNodeData = (data: Partial<FlowchartProjectNodeData> | undefined): FlowchartProjectNodeData => ({
+    label: data?.label || '',
+    ...(data?.color ? { color: data.color } : {}),
+    ...(data?.description ? { description: data.description } : {}),
+    ...(data?.subprocess ? { subprocess: { ...data.subprocess } } : {}),
+    ...(data?.orientation ? { orientation: data.orientation } : {}),
+    ...(data?.cases ? { cases: data.cases.map(c => ({ id: c.id, label: c.label })) } : {}),
+});
+
+/**
+ * Project file form of an edge (drops selection and other editor state)
+ */
+export const serializeEdge = (edge: Edge): FlowchartProjectEdge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle || undefined,
+    targetHandle: edge.targetHandle || undefined,
+    label: edge.label as string || undefined,
+    type: edge.type || undefined,
+    animated: edge.animated,
+    style: edge.style as Record<string, unknown> | undefined,
+    labelStyle: edge.labelStyle as Record<string, unknown> | undefined,
+    labelBgStyle: edge.labelBgStyle as Record<string, unknown> | undefined,
+    markerEnd: typeof edge.markerEnd === 'object' ? edge.markerEnd : undefined,
+});
+
+/**
+ * Canvas nodes of a saved page (containers first; the editor adds its label callback on top)
+ */
+export const createFlowNodes = (projectNodes: FlowchartProjectNode[]): FlowchartNode[] =>
+    sortContainersFirst(projectNodes.map(node => ({
+        id: node.id,
+        type: node.type,
+        ...(node.parentId ? { parentId: node.parentId } : {}),
+        position: node.position,
+        style: node.size ? { width: node.size.width, height: node.size.height } : undefined,
+        data: { ...node.data },
+    })));
+
+/**
+ * Canvas edges of a saved page (styling is persisted since v2; older files get it from the label)
+ */
+export const createFlowEdges = (projectEdges: FlowchartProjectEdge[]): Edge[] =>
+    projectEdges.map(edge => ({
+        ...getEdgeStyling(edge.label),
+        ...edge,
+    }));
+
+/**
+ * Serialize the nodes and edges of one page
+ */
+export const createProjectPage = (page: FlowchartPage): FlowchartProjectPage => ({
+    id: page.id,
+    name: page.name,
+    nodes: page.nodes.map(node => ({
+        id: node.id,
+        type: node.type || 'execution',
+        ...(node.parentId ? { parentId: node.parentId } : {}),
+        position: node.position,
+        size: {
+            width: (node.measured?.width as number) || ((node.style as Record<string, number>)?.width) || getDefaultSize(node.type, node.data?.orientation).width,
+            height: (node.measured?.height as number) || ((node.style as Record<string, number>)?.height) || getDefaultSize(node.type, node.data?.orientation).height,
+        },
+        style: node.style as Record<string, unknown>,
+        data: serializeNodeData(node.data),
+    })),
+    edges: page.edges.map(serializeEdge),
+    viewport: page.viewport,
+});
+
+/**
+ * Build a project object from the editor pages
+ */
+export const createProject = (pages: FlowchartPage[], activePageId?: string, createdAt?: string): FlowchartProject => ({
+    version: PROJECT_VERSION,
+    createdAt: createdAt || new Date().toISOString(),
+    modifiedAt: new Date().toISOString(),
+    pages: pages.map(createProjectPage),
+    activePageId,
+});
+
+/**
+ * Save flowchart project to .fchart file (complete save with all positions, sizes, node data and edge styling)
+ */
+export const saveProject = (pages: FlowchartPage[], activePageId?: string, fileName: string = 'flowchart.fchart') => {
+    const project = createProject(pages, activePageId);
 
     const jsonString = JSON.stringify(project, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
@@ -136,15 +269,38 @@ export const saveProject = (nodes: FlowchartNode[], edges: Edge[], fileName: str
     URL.revokeObjectURL(url);
 };
 
+/**
+ * Default colors for each node type
+ */
+export const DEFAULT_NODE_COLORS: Record<string, string> = {
+    start: '#10b981',
+    end: '#ef4444',
+    execution: '#3b82f6',
+    subprocess: '#8b5cf6',
+    condition: '#f59e0b',
+    switch: '#d97706',
+    swimlane: '#0ea5e9',
+    group: '#64748b',
+    ...SYMBOL_COLORS,
+};
+
 /**
  * Get default node size based on type
  */
-const getDefaultSize = (type: string | undefined) => {
+export const getDefaultSize = (type: string | undefined, orientation?: LaneOrientation) => {
+    if (isSymbolType(type)) return SYMBOL_SIZES[type];
     switch (type) {
+        case 'swimlane':
+        case 'group':
+            return getContainerSize(type, orientation);
         case 'condition':
             return { width: 150, height: 150 };
+        case 'switch':
+            return getSwitchSize(DEFAULT_SWITCH_CASES.length);
         case 'execution':
             return { width: 150, height: 80 };
+        case 'subprocess':
+            return { width: 170, height: 80 };
         case 'start':
         case 'end':
             return { width: 120, height: 120 };
@@ -153,19 +309,83 @@ const getDefaultSize = (type: string | undefined) => {
     }
 };
 
+/**
+ * Shape of v1/v2 files: one node/edge set at the top level
+ */
+interface LegacyFlowchartProject {
+    version: string;
+    createdAt: string;
+    modifiedAt: string;
+    nodes: FlowchartProjectNode[];
+    edges: FlowchartProjectEdge[];
+}
+
+/**
+ * Upgrade a v1.0 project: node data held only a label and edges carried no styling,
+ * so edge colors are derived from the source handle the same way the canvas does
+ */
+const migrateV1Project = (project: LegacyFlowchartProject): LegacyFlowchartProject => ({
+    ...project,
+    version: '2.0',
+    nodes: project.nodes.map(node => ({
+        ...node,
+        data: serializeNodeData(node.data),
+    })),
+    edges: project.edges.map(edge => {
+        const label = edge.label || getHandleLabel(edge.sourceHandle);
+        return {
+            ...edge,
+            label: label || undefined,
+            ...getEdgeStyling(label),
+        } as FlowchartProjectEdge;
+    }),
+});
+
+/**
+ * Upgrade a v2 project: its single node/edge set becomes the first page
+ */
+const migrateV2Project = (project: LegacyFlowchartProject): FlowchartProject => ({
+    version: PROJECT_VERSION,
+    createdAt: project.createdAt,
+    modifiedAt: project.modifiedAt,
+    pages: [{ id: 'page_1', name: 'Page 1', nodes: project.nodes, edges: project.edges }],
+    activePageId: 'page_1',
+});
+
+/**
+ * Bring a parsed project of any known version up to the current schema
+ */
+export const migrateProject = (project: FlowchartProject | LegacyFlowchartProject): FlowchartProject => {
+    const major = parseInt(String(project.version || '1.0'), 10);
+
+    if (major > parseInt(PROJECT_VERSION, 10)) {
+        throw new Error(`Unsupported project version: ${project.version}`);
+    }
+    if (major < 2) {
+        return migrateV2Project(migrateV1Project(project as LegacyFlowchartProject));
+    }
+    if (major < 3) {
+        return migrateV2Project(project as LegacyFlowchartProject);
+    }
+    return project as FlowchartProject;
+};
+
 /**
  * Load flowchart project from .fchart file
  */
 export const loadProject = (fileContent: string): FlowchartProject | null => {
     try {
-        const project = JSON.parse(fileContent) as FlowchartProject;
+        const project = JSON.parse(fileContent);
 
         // Validate project structure
-        if (!project.nodes || !project.edges) {
-            throw new Error('Invalid project file: missing nodes or edges');
+        if (!project.pages && (!project.nodes || !project.edges)) {
+            throw new Error('Invalid project file: missing pages or nodes and edges');
+        }
+        if (project.pages && (!Array.isArray(project.pages) || project.pages.length === 0)) {
+            throw new Error('Invalid project file: no pages');
         }
 
-        return project;
+        return migrateProject(project);
     } catch (error) {
         console.error('Failed to load project:', error);
         return null;
@@ -173,37 +393,173 @@ export const loadProject = (fileContent: string): FlowchartProject | null => {
 };
 
 /**
- * Export flowchart as Mermaid-like string representation
+ * Mermaid flowchart direction
  */
-export const exportAsMermaid = (nodes: FlowchartNode[], edges: Edge[]): string => {
-    let mermaidString = 'flowchart TD\n';
+export type MermaidDirection = 'TB' | 'LR';
+
+// Words Mermaid treats as keywords and therefore rejects as node IDs
+const MERMAID_RESERVED_IDS = /^(?:end|graph|flowchart|subgraph|class|classdef|style|linkstyle|click|direction|default)$/i;
+
+/**
+ * Build a map from canvas node IDs to unique IDs that are safe to use in Mermaid
+ */
+const createMermaidIds = (nodes: FlowchartNode[]): Map<string, string> => {
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
 
-    // Add nodes
     nodes.forEach(node => {
-        const label = node.data?.label || node.type || 'Node';
-        const cleanLabel = label.replace(/"/g, '\\"');
+        let safeId = node.id.replace(/[^A-Za-z0-9_]/g, '_');
+        if (!safeId || /^\d/.test(safeId) || MERMAID_RESERVED_IDS.test(safeId)) {
+            safeId = `n_${safeId}`;
+        }
+
+        let uniqueId = safeId;
+        for (let i = 2; used.has(uniqueId); i++) {
+            uniqueId = `${safeId}_${i}`;
+        }
+
+        used.add(uniqueId);
+        ids.set(node.id, uniqueId);
+    });
+
+    return ids;
+};
+
+/**
+ * Escape text for a quoted Mermaid label using entity codes
+ */
+export const escapeMermaidText = (text: string): string =>
+    text
+        .replace(/["#[\]{}()|<>;]/g, char => (char === '"' ? '#quot;' : `#${char.charCodeAt(0)};`))
+        .replace(/\r?\n/g, '<br/>');
+
+// Mermaid v11 `@{ shape }` names for symbols without a classic bracket syntax
+const MERMAID_SHAPE_NAMES: Record<string, string> = {
+    document: 'doc',
+    manualInput: 'sl-rect',
+    connector: 'notch-pent',
+    comment: 'brace',
+};
+
+/**
+ * Reorder the edges leaving each switch node to follow its case list, keeping every other edge in place
+ */
+const orderSwitchEdges = (nodes: FlowchartNode[], edges: Edge[]): Edge[] => {
+    const result = [...edges];
+    nodes.filter(node => node.type === 'switch').forEach(node => {
+        const caseIds = getSwitchCases(node).map(c => getCaseHandleId(c.id));
+        const slots = result.map((edge, index) => (edge.source === node.id ? index : -1)).filter(index => index >= 0);
+        const ordered = slots.map(index => result[index]).sort((a, b) =>
+            caseIds.indexOf(a.sourceHandle || '') - caseIds.indexOf(b.sourceHandle || ''));
+        slots.forEach((slot, i) => (result[slot] = ordered[i]));
+    });
+    return result;
+};
+
+/**
+ * Export flowchart as Mermaid flowchart definition (labels, colors and branch labels included)
+ */
+export const exportAsMermaid = (nodes: FlowchartNode[], edges: Edge[], direction: MermaidDirection = 'TB'): string => {
+    let mermaidString = `flowchart ${direction}\n`;
+    const ids = createMermaidIds(nodes);
+
+    // Add nodes (lanes and groups become subgraphs below)
+    nodes.filter(node => !isContainerNode(node)).forEach(node => {
+        const id = ids.get(node.id)!;
+        const label = escapeMermaidText(node.data?.label || node.type || 'Node');
 
         switch (node.type) {
             case 'start':
-                mermaidString += `  ${node.id}(["${cleanLabel}"])\n`;
+                mermaidString += `  ${id}(["${label}"])\n`;
                 break;
             case 'end':
-                mermaidString += `  ${node.id}(["${cleanLabel}"])\n`;
-                break;
-            case 'execution':
-                mermaidString += `  ${node.id}["${cleanLabel}"]\n`;
+                mermaidString += `  ${id}((("${label}")))\n`;
                 break;
             case 'condition':
-                mermaidString += `  ${node.id}{"${cleanLabel}"}\n`;
+            case 'switch':
+                mermaidString += `  ${id}{"${label}"}\n`;
+                break;
+            case 'subprocess':
+                mermaidString += `  ${id}[["${label}"]]\n`;
+                break;
+            case 'io':
+                mermaidString += `  ${id}[/"${label}"/]\n`;
+                break;
+            case 'manual':
+                mermaidString += `  ${id}[\\"${label}"/]\n`;
+                break;
+            case 'database':
+                mermaidString += `  ${id}[("${label}")]\n`;
                 break;
+            case 'document':
+            case 'manualInput':
+            case 'connector':
+            case 'comment':
+                // No classic syntax for these; use the Mermaid v11 shape names
+                mermaidString += `  ${id}@{ shape: ${MERMAID_SHAPE_NAMES[node.type]}, label: "${label}" }\n`;
+                break;
+            case 'execution':
             default:
-                mermaidString += `  ${node.id}["${cleanLabel}"]\n`;
+                mermaidString += `  ${id}["${label}"]\n`;
+        }
+    });
+
+    // Add lanes and groups as subgraphs listing their members
+    const containers = nodes.filter(node => isContainerNode(node) && nodes.some(n => n.parentId === node.id));
+    containers.forEach(container => {
+        const label = escapeMermaidText(container.data?.label || container.type || 'Group');
+        mermaidString += `  subgraph ${ids.get(container.id)}["${label}"]\n`;
+        if (container.type === 'swimlane') {
+            mermaidString += `    direction ${container.data?.orientation === 'vertical' ? 'TB' : 'LR'}\n`;
         }
+        nodes.filter(n => n.parentId === container.id).forEach(child => {
+            mermaidString += `    ${ids.get(child.id)}\n`;
+        });
+        mermaidString += '  end\n';
+    });
+
+    // Add edges (only between exported nodes), with branch labels; switch cases are listed in case order
+    const linkStyles: string[] = [];
+    orderSwitchEdges(nodes, edges.filter(edge => ids.has(edge.source) && ids.has(edge.target)))
+        .forEach((edge, index) => {
+            const sourceNode = nodes.find(n => n.id === edge.source);
+            const label = (edge.label as string) || getHandleLabel(edge.sourceHandle) || getSwitchCase(sourceNode, edge.sourceHandle)?.label || '';
+            const isAnnotation = sourceNode?.type === 'comment';
+            // Dashed edges become dotted links, heavy ones thick links
+            const line = edge.style?.strokeDasharray ? '-.->' : Number(edge.style?.strokeWidth) >= 4 ? '==>' : '-->';
+            const arrow = isAnnotation ? '-.-' : label ? `${line}|"${escapeMermaidText(label)}"|` : line;
+            mermaidString += `  ${ids.get(edge.source)} ${arrow} ${ids.get(edge.target)}\n`;
+
+            const stroke = edge.style?.stroke;
+            if (stroke && stroke !== getEdgeColor(label)) {
+                linkStyles.push(`  linkStyle ${index} stroke:${stroke}\n`);
+            }
+        });
+
+    // Add class definitions for nodes with custom colors
+    const colorClasses = new Map<string, string[]>();
+    nodes.filter(node => !isContainerNode(node)).forEach(node => {
+        const color = node.data?.color;
+        if (!color || color === DEFAULT_NODE_COLORS[node.type || 'execution']) return;
+
+        const members = colorClasses.get(color) || [];
+        members.push(ids.get(node.id)!);
+        colorClasses.set(color, members);
+    });
+
+    colorClasses.forEach((members, color) => {
+        const className = `color_${color.replace(/[^A-Za-z0-9]/g, '')}`;
+        mermaidString += `  classDef ${className} fill:${color},stroke:${color},color:#fff\n`;
+        mermaidString += `  class ${members.join(',')} ${className}\n`;
     });
 
-    // Add edges
-    edges.forEach(edge => {
-        mermaidString += `  ${edge.source} --> ${edge.target}\n`;
+    containers.forEach(container => {
+        const color = container.data?.color || DEFAULT_NODE_COLORS[container.type!];
+        mermaidString += `  style ${ids.get(container.id)} fill:${color}1a,stroke:${color}\n`;
+    });
+
+    linkStyles.forEach(line => {
+        mermaidString += line;
     });
 
     return mermaidString;
@@ -212,14 +568,23 @@ export const exportAsMermaid = (nodes: FlowchartNode[], edges: Edge[]): string =
 /**
  * Export flowchart as descriptive text
  */
-export const exportAsText = (nodes: FlowchartNode[], edges: Edge[], fileName: string = 'flowchart.txt'): void => {
+export const exportAsText = (nodes: FlowchartNode[], edges: Edge[], fileName: string = 'flowchart.txt', direction: MermaidDirection = 'TB'): void => {
     let textContent = '=== FLOWCHART DESCRIPTION ===\n\n';
 
     textContent += 'NODES:\n';
     nodes.forEach((node, index) => {
         const label = node.data?.label || node.type || 'Node';
-        textContent += `${index + 1}. [${node.type?.toUpperCase()}] ${node.id}: "${label}"\n`;
-        textContent += `   Position: (${Math.round(node.position.x)}, ${Math.round(node.position.y)})\n\n`;
+        const typeName = isSymbolType(node.type) ? SYMBOL_NAMES[node.type] : node.type;
+        const position = getAbsolutePosition(node, nodes);
+        const parent = node.parentId ? nodes.find(n => n.id === node.parentId) : undefined;
+        textContent += `${index + 1}. [${typeName?.toUpperCase()}] ${node.id}: "${label}"\n`;
+        if (parent) {
+            textContent += `   ${parent.type === 'swimlane' ? 'Lane' : 'Group'}: "${parent.data?.label || parent.id}"\n`;
+        }
+        if (node.type === 'switch') {
+            textContent += `   Cases: ${getSwitchCases(node).map(c => `"${c.label}"`).join(', ') || '(none)'}\n`;
+        }
+        textContent += `   Position: (${Math.round(position.x)}, ${Math.round(position.y)})\n\n`;
     });
 
     textContent += '\nCONNECTIONS:\n';
@@ -229,11 +594,14 @@ export const exportAsText = (nodes: FlowchartNode[], edges: Edge[], fileName: st
         const sourceLabel = sourceNode?.data?.label || edge.source;
         const targetLabel = targetNode?.data?.label || edge.target;
 
-        textContent += `${index + 1}. "${sourceLabel}" → "${targetLabel}"\n`;
+        const connector = sourceNode?.type === 'comment' ? 'annotates' : '→';
+        const edgeLabel = typeof edge.label === 'string' && edge.label ? ` [${edge.label}]` : '';
+
+        textContent += `${index + 1}. "${sourceLabel}" ${connector} "${targetLabel}"${edgeLabel}\n`;
     });
 
     textContent += '\n\nMERMAID DIAGRAM:\n';
-    textContent += exportAsMermaid(nodes, edges);
+    textContent += exportAsMermaid(nodes, edges, direction);
 
     const blob = new Blob([textContent], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -246,11 +614,29 @@ export const exportAsText = (nodes: FlowchartNode[], edges: Edge[], fileName: st
     URL.revokeObjectURL(url);
 };
 
+/**
+ * Export generated source code as a downloadable file
+ */
+export const exportAsCode = (nodes: FlowchartNode[], edges: Edge[], language: CodeLanguage, fileName?: string): void => {
+    const code = generateCode(nodes, edges, language);
+    const extension = CODE_LANGUAGES.find(l => l.id === language)?.extension || 'txt';
+
+    const blob = new Blob([code], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = fileName || `flowchart.${extension}`;
+    link.href = url;
+    link.click();
+
+    URL.revokeObjectURL(url);
+};
+
 /**
  * Copy Mermaid diagram to clipboard
  */
-export const copyMermaidToClipboard = async (nodes: FlowchartNode[], edges: Edge[]): Promise<boolean> => {
-    const mermaidString = exportAsMermaid(nodes, edges);
+export const copyMermaidToClipboard = async (nodes: FlowchartNode[], edges: Edge[], direction: MermaidDirection = 'TB'): Promise<boolean> => {
+    const mermaidString = exportAsMermaid(nodes, edges, direction);
 
     try {
         await navigator.clipboard.writeText(mermaidString);
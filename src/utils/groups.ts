@@ -0,0 +1,197 @@
+import { Node } from '@xyflow/react';
+
+/**
+ * Swimlanes stack vertically (horizontal lanes) or side by side (vertical lanes)
+ */
+export type LaneOrientation = 'horizontal' | 'vertical';
+
+// Thickness of the lane title strip (left edge of horizontal lanes, top of vertical lanes)
+export const LANE_HEADER_SIZE = 36;
+// Height of the title bar of group frames
+export const GROUP_HEADER_SIZE = 28;
+// Space between a container's border and its children when fitted
+export const CONTAINER_PADDING = 24;
+
+/**
+ * Swimlanes and group frames hold other nodes as React Flow children (`parentId`)
+ */
+export const isContainerNode = (node: Node | undefined) => node?.type === 'swimlane' || node?.type === 'group';
+
+export const getLaneOrientation = (node: Node): LaneOrientation =>
+    node.data?.orientation === 'vertical' ? 'vertical' : 'horizontal';
+
+/**
+ * Initial size of a new container
+ */
+export const getContainerSize = (type: string, orientation?: LaneOrientation) => {
+    if (type === 'group') return { width: 420, height: 300 };
+    return orientation === 'vertical' ? { width: 280, height: 720 } : { width: 960, height: 220 };
+};
+
+// Rendered size, falling back to the stored style (and a typical node size)
+const getBoxSize = (node: Node) => ({
+    width: node.measured?.width || Number(node.style?.width) || node.width || 150,
+    height: node.measured?.height || Number(node.style?.height) || node.height || 80,
+});
+
+/**
+ * Canvas position of a node (children store positions relative to their container)
+ */
+export const getAbsolutePosition = (node: Node, nodes: Node[]): { x: number; y: number } => {
+    const parent = node.parentId ? nodes.find(n => n.id === node.parentId) : undefined;
+    if (!parent) return node.position;
+    const origin = getAbsolutePosition(parent, nodes);
+    return { x: origin.x + node.position.x, y: origin.y + node.position.y };
+};
+
+/**
+ * Copy of the nodes with canvas positions (parentId is kept)
+ */
+export const toAbsolutePositions = <T extends Node>(nodes: T[]): T[] =>
+    nodes.map(node => (node.parentId ? { ...node, position: getAbsolutePosition(node, nodes) } : node));
+
+/**
+ * Innermost container whose area contains the point
+ */
+export const findContainerAt = <T extends Node>(point: { x: number; y: number }, nodes: T[], excludeIds: Set<string> = new Set()): T | undefined => {
+    let best: T | undefined;
+    let bestArea = Infinity;
+
+    nodes.forEach(node => {
+        if (!isContainerNode(node) || excludeIds.has(node.id)) return;
+        const { x, y } = getAbsolutePosition(node, nodes);
+        const { width, height } = getBoxSize(node);
+        if (point.x < x || point.x > x + width || point.y < y || point.y > y + height) return;
+        if (width * height < bestArea) {
+            best = node;
+            bestArea = width * height;
+        }
+    });
+
+    return best;
+};
+
+/**
+ * Put a new node into the container under `point` (usually its center), converting its position
+ */
+export const placeInContainer = <T extends Node>(node: T, point: { x: number; y: number }, nodes: Node[]): T => {
+    if (isContainerNode(node)) return node;
+    const container = findContainerAt(point, nodes);
+    if (!container) return node;
+    const origin = getAbsolutePosition(container, nodes);
+    return { ...node, parentId: container.id, position: { x: node.position.x - origin.x, y: node.position.y - origin.y } };
+};
+
+/**
+ * React Flow needs containers before their children
+ */
+export const sortContainersFirst = <T extends Node>(nodes: T[]): T[] => [
+    ...nodes.filter(n => isContainerNode(n)),
+    ...nodes.filter(n => !isContainerNode(n)),
+];
+
+/**
+ * Attach moved nodes to the container under their center (or detach them onto the canvas)
+ */
+export const reparentNodes = <T extends Node>(nodes: T[], movedIds: Set<string>): T[] => {
+    let changed = false;
+
+    const updated = nodes.map(node => {
+        if (!movedIds.has(node.id) || isContainerNode(node)) return node;
+
+        const position = getAbsolutePosition(node, nodes);
+        const { width, height } = getBoxSize(node);
+        const container = findContainerAt({ x: position.x + width / 2, y: position.y + height / 2 }, nodes);
+        if ((container?.id ?? undefined) === node.parentId) return node;
+
+        changed = true;
+        if (!container) {
+            const { parentId: _parentId, ...rest } = node;
+            return { ...rest, position } as T;
+        }
+        const origin = getAbsolutePosition(container, nodes);
+        return { ...node, parentId: container.id, position: { x: position.x - origin.x, y: position.y - origin.y } };
+    });
+
+    return changed ? sortContainersFirst(updated) : nodes;
+};
+
+/**
+ * The given node IDs plus every node inside those containers
+ */
+export const withDescendants = (ids: Set<string>, nodes: Node[]): Set<string> => {
+    const result = new Set(ids);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        nodes.forEach(node => {
+            if (node.parentId && result.has(node.parentId) && !result.has(node.id)) {
+                result.add(node.id);
+                grew = true;
+            }
+        });
+    }
+    return result;
+};
+
+/**
+ * Padding on each side of a container's content area (the title strip is on the left or top)
+ */
+export const getContainerInsets = (node: Node) => {
+    if (node.type === 'group') {
+        return { left: CONTAINER_PADDING, top: GROUP_HEADER_SIZE + CONTAINER_PADDING / 2, right: CONTAINER_PADDING, bottom: CONTAINER_PADDING };
+    }
+    return getLaneOrientation(node) === 'vertical'
+        ? { left: CONTAINER_PADDING, top: LANE_HEADER_SIZE + CONTAINER_PADDING, right: CONTAINER_PADDING, bottom: CONTAINER_PADDING }
+        : { left: LANE_HEADER_SIZE + CONTAINER_PADDING, top: CONTAINER_PADDING, right: CONTAINER_PADDING, bottom: CONTAINER_PADDING };
+};
+
+/**
+ * Grow containers so every child lies inside them; `nodes` must hold canvas (absolute) positions.
+ * With `shrinkGroups`, group frames are fitted tightly around their children instead.
+ * Returns the nodes with children converted back to container-relative positions.
+ */
+export const fitContainersToChildren = <T extends Node>(
+    nodes: T[],
+    getSize: (node: T) => { width: number; height: number },
+    shrinkGroups = false
+): T[] => {
+    const boxes = new Map<string, { x: number; y: number; width: number; height: number }>();
+
+    nodes.filter(n => isContainerNode(n)).forEach(container => {
+        const children = nodes.filter(n => n.parentId === container.id);
+        const size = getSize(container);
+        const tight = shrinkGroups && container.type === 'group' && children.length > 0;
+        let minX = tight ? Infinity : container.position.x;
+        let minY = tight ? Infinity : container.position.y;
+        let maxX = tight ? -Infinity : minX + size.width;
+        let maxY = tight ? -Infinity : minY + size.height;
+        const insets = getContainerInsets(container);
+
+        children.forEach(child => {
+            const childSize = getSize(child);
+            minX = Math.min(minX, child.position.x - insets.left);
+            minY = Math.min(minY, child.position.y - insets.top);
+            maxX = Math.max(maxX, child.position.x + childSize.width + insets.right);
+            maxY = Math.max(maxY, child.position.y + childSize.height + insets.bottom);
+        });
+
+        boxes.set(container.id, { x: minX, y: minY, width: maxX - minX, height: maxY - minY });
+    });
+
+    return nodes.map(node => {
+        const box = boxes.get(node.id);
+        if (box) {
+            return {
+                ...node,
+                position: { x: Math.round(box.x), y: Math.round(box.y) },
+                width: Math.round(box.width),
+                height: Math.round(box.height),
+                style: { ...node.style, width: Math.round(box.width), height: Math.round(box.height) },
+            };
+        }
+        const parentBox = node.parentId ? boxes.get(node.parentId) : undefined;
+        if (!parentBox) return node;
+        return { ...node, position: { x: Math.round(node.position.x - parentBox.x), y: Math.round(node.position.y - parentBox.y) } };
+    });
+};
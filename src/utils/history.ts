@@ -0,0 +1,270 @@
+import { Node, Edge } from '@xyflow/react';
+import { serializeEdge, serializeNodeData, FlowchartProjectEdge, FlowchartProjectNodeData } from './export';
+
+/**
+ * Node as recorded in the history (editor-only state such as selection and measurements is left out)
+ */
+export interface HistoryNode {
+    id: string;
+    type: string;
+    parentId?: string;
+    position: { x: number; y: number };
+    width?: number;
+    height?: number;
+    style?: Record<string, unknown>;
+    data: FlowchartProjectNodeData;
+}
+
+/**
+ * One node or edge touched by a command; `before` is missing for added items, `after` for removed ones.
+ * The indexes keep the original stacking order when an item is put back.
+ */
+export interface HistoryChange<T> {
+    id: string;
+    before?: T;
+    after?: T;
+    beforeIndex?: number;
+    afterIndex?: number;
+}
+
+/**
+ * A single undoable step ("Add node", "Move 3 nodes", "Edit label", ...)
+ */
+export interface HistoryCommand {
+    id: string;
+    label: string;
+    timestamp: number;
+    // Consecutive commands with the same key (typing into one label, ...) are merged
+    mergeKey?: string;
+    nodes: HistoryChange<HistoryNode>[];
+    edges: HistoryChange<FlowchartProjectEdge>[];
+}
+
+/**
+ * Commands of one page; the first `index` of them are applied, the rest can be redone
+ */
+export interface PageHistory {
+    commands: HistoryCommand[];
+    index: number;
+}
+
+export const EMPTY_HISTORY: PageHistory = { commands: [], index: 0 };
+
+// Commands with the same merge key within this time of each other become one
+const MERGE_WINDOW_MS = 2000;
+
+interface SnapshotEntry<T> {
+    item: T;
+    key: string;
+}
+
+/**
+ * Recorded form of a canvas state; an action compares the states before and after it to find what it changed
+ */
+export interface HistorySnapshot {
+    nodes: Map<string, SnapshotEntry<HistoryNode> & { index: number }>;
+    edges: Map<string, SnapshotEntry<FlowchartProjectEdge> & { index: number }>;
+}
+
+// React Flow replaces a node or edge object whenever it changes, so unchanged ones are serialized once
+const nodeEntries = new WeakMap<Node, SnapshotEntry<HistoryNode>>();
+const edgeEntries = new WeakMap<Edge, SnapshotEntry<FlowchartProjectEdge>>();
+
+const toHistoryNode = (node: Node): HistoryNode => ({
+    id: node.id,
+    type: node.type || 'execution',
+    ...(node.parentId ? { parentId: node.parentId } : {}),
+    position: { x: node.position.x, y: node.position.y },
+    ...(node.width !== undefined ? { width: node.width } : {}),
+    ...(node.height !== undefined ? { height: node.height } : {}),
+    ...(node.style ? { style: { ...node.style } as Record<string, unknown> } : {}),
+    data: serializeNodeData(node.data),
+});
+
+const getNodeEntry = (node: Node): SnapshotEntry<HistoryNode> => {
+    let entry = nodeEntries.get(node);
+    if (!entry) {
+        const item = toHistoryNode(node);
+        entry = { item, key: JSON.stringify(item) };
+        nodeEntries.set(node, entry);
+    }
+    return entry;
+};
+
+const getEdgeEntry = (edge: Edge): SnapshotEntry<FlowchartProjectEdge> => {
+    let entry = edgeEntries.get(edge);
+    if (!entry) {
+        const item = serializeEdge(edge);
+        entry = { item, key: JSON.stringify(item) };
+        edgeEntries.set(edge, entry);
+    }
+    return entry;
+};
+
+export const createHistorySnapshot = (nodes: Node[], edges: Edge[]): HistorySnapshot => ({
+    nodes: new Map(nodes.map((node, index) => [node.id, { ...getNodeEntry(node), index }])),
+    edges: new Map(edges.map((edge, index) => [edge.id, { ...getEdgeEntry(edge), index }])),
+});
+
+const diffEntries = <T>(
+    before: Map<string, SnapshotEntry<T> & { index: number }>,
+    after: Map<string, SnapshotEntry<T> & { index: number }>
+): HistoryChange<T>[] => {
+    const changes: HistoryChange<T>[] = [];
+    before.forEach((entry, id) => {
+        const next = after.get(id);
+        if (!next) {
+            changes.push({ id, before: entry.item, beforeIndex: entry.index });
+        } else if (next.key !== entry.key) {
+            changes.push({ id, before: entry.item, after: next.item });
+        }
+    });
+    after.forEach((entry, id) => {
+        if (!before.has(id)) changes.push({ id, after: entry.item, afterIndex: entry.index });
+    });
+    return changes;
+};
+
+/**
+ * "node", "3 nodes", ... for command labels such as "Move 3 nodes"
+ */
+export const countOf = (count: number, noun: string) => (count === 1 ? noun : `${count} ${noun}s`);
+
+let commandCounter = 0;
+
+/**
+ * Command named `label` that turns `before` into `after`, or undefined when nothing recorded changed
+ */
+export const createHistoryCommand = (
+    before: HistorySnapshot,
+    after: HistorySnapshot,
+    label: string,
+    mergeKey?: string
+): HistoryCommand | undefined => {
+    const nodes = diffEntries(before.nodes, after.nodes);
+    const edges = diffEntries(before.edges, after.edges);
+    if (nodes.length === 0 && edges.length === 0) return undefined;
+
+    return {
+        id: `cmd_${Date.now()}_${commandCounter++}`,
+        label,
+        timestamp: Date.now(),
+        ...(mergeKey ? { mergeKey } : {}),
+        nodes,
+        edges,
+    };
+};
+
+// Combine the changes of two consecutive commands; items that end where they started drop out
+const mergeChanges = <T>(first: HistoryChange<T>[], second: HistoryChange<T>[]): HistoryChange<T>[] => {
+    const merged = new Map(first.map(change => [change.id, change]));
+    second.forEach(change => {
+        const earlier = merged.get(change.id);
+        merged.set(change.id, earlier
+            ? { id: change.id, before: earlier.before, beforeIndex: earlier.beforeIndex, after: change.after, afterIndex: change.afterIndex }
+            : change);
+    });
+    return [...merged.values()].filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+};
+
+/**
+ * Add a command after the applied ones (dropping the redo branch), merging it into the
+ * previous command when both continue the same edit (typing into one label, nudging with the arrow keys, ...)
+ */
+export const recordHistoryCommand = (history: PageHistory, command: HistoryCommand): PageHistory => {
+    const commands = history.commands.slice(0, history.index);
+    const previous = commands[commands.length - 1];
+
+    if (previous && command.mergeKey && previous.mergeKey === command.mergeKey && command.timestamp - previous.timestamp < MERGE_WINDOW_MS) {
+        const merged: HistoryCommand = {
+            ...previous,
+            timestamp: command.timestamp,
+            nodes: mergeChanges(previous.nodes, command.nodes),
+            edges: mergeChanges(previous.edges, command.edges),
+        };
+        // Typing a label back to what it was leaves nothing to undo
+        const rest = commands.slice(0, -1);
+        return merged.nodes.length === 0 && merged.edges.length === 0
+            ? { commands: rest, index: rest.length }
+            : { commands: [...rest, merged], index: commands.length };
+    }
+
+    return { commands: [...commands, command], index: commands.length + 1 };
+};
+
+// Put each item in the state the command gives it, re-inserting removed items at their old place
+const applyChanges = <T extends { id: string }, I>(
+    items: T[],
+    changes: HistoryChange<I>[],
+    undo: boolean,
+    restore: (item: I, current: T | undefined) => T
+): T[] => {
+    const targets = new Map(changes.map(change => [change.id, undo ? change.before : change.after]));
+    const result = items
+        .filter(item => !targets.has(item.id) || targets.get(item.id) !== undefined)
+        .map(item => (targets.has(item.id) ? restore(targets.get(item.id)!, item) : item));
+
+    const present = new Set(result.map(item => item.id));
+    changes
+        .map(change => ({ change, index: (undo ? change.beforeIndex : change.afterIndex) ?? result.length }))
+        .filter(({ change }) => targets.get(change.id) !== undefined && !present.has(change.id))
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ change, index }) => result.splice(Math.min(index, result.length), 0, restore(targets.get(change.id)!, undefined)));
+
+    return result;
+};
+
+/**
+ * Turns recorded items back into canvas nodes and edges (`current` is the item being replaced, if any)
+ */
+export interface HistoryRestorers<N extends Node> {
+    node: (item: HistoryNode, current: N | undefined) => N;
+    edge: (item: FlowchartProjectEdge, current: Edge | undefined) => Edge;
+}
+
+/**
+ * Undo or redo commands until `targetIndex` of them are applied
+ */
+export const travelHistory = <N extends Node>(
+    nodes: N[],
+    edges: Edge[],
+    history: PageHistory,
+    targetIndex: number,
+    restorers: HistoryRestorers<N>
+): { nodes: N[]; edges: Edge[] } => {
+    let state = { nodes, edges };
+    const apply = (command: HistoryCommand, undo: boolean) => {
+        state = {
+            nodes: applyChanges(state.nodes, command.nodes, undo, restorers.node),
+            edges: applyChanges(state.edges, command.edges, undo, restorers.edge),
+        };
+    };
+
+    for (let i = history.index - 1; i >= targetIndex; i--) apply(history.commands[i], true);
+    for (let i = history.index; i < targetIndex; i++) apply(history.commands[i], false);
+    return state;
+};
+
+/**
+ * Canvas node for a recorded one, keeping editor state (selection, measurements, callbacks) of the node it replaces
+ */
+export const restoreHistoryNode = <N extends Node>(item: HistoryNode, current: N | undefined, handlers: Record<string, unknown>): N => {
+    const { parentId: _parentId, width: _width, height: _height, style: _style, ...rest } = current ?? ({} as Partial<N>);
+    return { ...rest, ...item, data: { ...handlers, ...item.data } } as unknown as N;
+};
+
+/**
+ * Fingerprint of a page's content, used to tell whether a stored history still belongs to it.
+ * Sizes are left out because they are re-measured after a reload.
+ */
+export const getHistoryChecksum = (nodes: Node[], edges: Edge[]): string => {
+    const text = JSON.stringify({
+        nodes: nodes.map(node => [node.id, node.type, node.parentId, node.position.x, node.position.y, serializeNodeData(node.data)]),
+        edges: edges.map(serializeEdge),
+    });
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return `${text.length}:${(hash >>> 0).toString(36)}`;
+};
@@ -0,0 +1,170 @@
+import { FlowchartPage } from './export';
+import { buildFlowchartSvg, getThemeBackground } from './vectorExport';
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const getThemeColor = (name: string, fallback: string) =>
+    getComputedStyle(document.documentElement).getPropertyValue(name).trim() || fallback;
+
+// Pan (drag), zoom (wheel, +/-/0 keys, buttons) and page tabs for the exported charts.
+// Zooming scales the SVG viewBox around the pointer, so the chart stays sharp at any size.
+const VIEWER_SCRIPT = `
+(function () {
+    var views = Array.prototype.map.call(document.querySelectorAll('.fv-page'), function (page) {
+        var svg = page.querySelector('svg');
+        var fit = svg.getAttribute('viewBox').split(' ').map(Number);
+        svg.removeAttribute('width');
+        svg.removeAttribute('height');
+        return { page: page, svg: svg, fit: fit, box: fit.slice() };
+    });
+    var tabs = document.querySelectorAll('.fv-tab');
+    var current = 0;
+
+    function apply(view) {
+        view.svg.setAttribute('viewBox', view.box.join(' '));
+    }
+
+    function toChart(view, clientX, clientY) {
+        var point = view.svg.createSVGPoint();
+        point.x = clientX;
+        point.y = clientY;
+        return point.matrixTransform(view.svg.getScreenCTM().inverse());
+    }
+
+    function zoom(view, factor, clientX, clientY) {
+        var rect = view.svg.getBoundingClientRect();
+        var center = toChart(view,
+            clientX === undefined ? rect.left + rect.width / 2 : clientX,
+            clientY === undefined ? rect.top + rect.height / 2 : clientY);
+        var width = view.box[2] / factor;
+        if (width < view.fit[2] / 10 || width > view.fit[2] * 10) return;
+        view.box = [
+            center.x - (center.x - view.box[0]) / factor,
+            center.y - (center.y - view.box[1]) / factor,
+            width,
+            view.box[3] / factor
+        ];
+        apply(view);
+    }
+
+    function fit(view) {
+        view.box = view.fit.slice();
+        apply(view);
+    }
+
+    function show(index) {
+        current = index;
+        views.forEach(function (view, i) { view.page.classList.toggle('active', i === index); });
+        Array.prototype.forEach.call(tabs, function (tab, i) { tab.classList.toggle('active', i === index); });
+    }
+
+    views.forEach(function (view) {
+        var drag = null;
+        view.page.addEventListener('wheel', function (event) {
+            event.preventDefault();
+            zoom(view, event.deltaY < 0 ? 1.15 : 1 / 1.15, event.clientX, event.clientY);
+        }, { passive: false });
+        view.page.addEventListener('pointerdown', function (event) {
+            drag = { x: event.clientX, y: event.clientY, box: view.box.slice(), scale: view.svg.getScreenCTM().a };
+            view.page.setPointerCapture(event.pointerId);
+            view.page.classList.add('dragging');
+        });
+        view.page.addEventListener('pointermove', function (event) {
+            if (!drag) return;
+            view.box[0] = drag.box[0] - (event.clientX - drag.x) / drag.scale;
+            view.box[1] = drag.box[1] - (event.clientY - drag.y) / drag.scale;
+            apply(view);
+        });
+        view.page.addEventListener('pointerup', function () {
+            drag = null;
+            view.page.classList.remove('dragging');
+        });
+        view.page.addEventListener('dblclick', function () { fit(view); });
+    });
+
+    Array.prototype.forEach.call(tabs, function (tab, i) {
+        tab.addEventListener('click', function () { show(i); });
+    });
+    document.querySelector('.fv-controls').addEventListener('click', function (event) {
+        var action = event.target.closest('button') && event.target.closest('button').getAttribute('data-action');
+        if (action === 'in') zoom(views[current], 1.25);
+        if (action === 'out') zoom(views[current], 1 / 1.25);
+        if (action === 'fit') fit(views[current]);
+    });
+    document.addEventListener('keydown', function (event) {
+        if (event.key === '+' || event.key === '=') zoom(views[current], 1.25);
+        if (event.key === '-') zoom(views[current], 1 / 1.25);
+        if (event.key === '0') fit(views[current]);
+    });
+})();
+`;
+
+/**
+ * A single HTML document with every page drawn as SVG and a small pan/zoom viewer, usable offline
+ */
+export const buildStandaloneHtml = (pages: FlowchartPage[], title: string, activePageId?: string): string => {
+    const background = getThemeBackground();
+    const text = getThemeColor('--text-primary', '#f2f2f2');
+    const muted = getThemeColor('--text-secondary', '#a1a1aa');
+    const surface = getThemeColor('--bg-secondary', '#1c1c24');
+    const border = getThemeColor('--border-color', '#3a3a48');
+    const activeIndex = Math.max(0, pages.findIndex(page => page.id === activePageId));
+
+    const tabs = pages.length > 1
+        ? `<nav class="fv-tabs">${pages.map((page, i) =>
+            `<button class="fv-tab${i === activeIndex ? ' active' : ''}">${escapeHtml(page.name)}</button>`).join('')}</nav>`
+        : '';
+    const charts = pages.map((page, i) => {
+        const { svg } = buildFlowchartSvg(page.nodes, page.edges, { idPrefix: `p${i}-` });
+        return `<main class="fv-page${i === activeIndex ? ' active' : ''}" aria-label="${escapeHtml(page.name)}">\n${svg}\n</main>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>
+html, body { margin: 0; height: 100%; background: ${background}; color: ${text}; font-family: Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+body { display: flex; flex-direction: column; }
+.fv-tabs { display: flex; gap: 2px; padding: 6px 12px 0; background: ${surface}; border-bottom: 1px solid ${border}; overflow-x: auto; }
+.fv-tab { padding: 6px 14px; background: none; border: 1px solid transparent; border-bottom: none; border-radius: 8px 8px 0 0; color: ${muted}; font: inherit; font-size: 13px; cursor: pointer; }
+.fv-tab.active { background: ${background}; border-color: ${border}; color: ${text}; font-weight: 600; }
+.fv-page { flex: 1; position: relative; display: none; overflow: hidden; cursor: grab; touch-action: none; }
+.fv-page.active { display: block; }
+.fv-page.dragging { cursor: grabbing; }
+.fv-page svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+.fv-controls { position: fixed; right: 16px; bottom: 16px; display: flex; flex-direction: column; gap: 4px; }
+.fv-controls button { width: 32px; height: 32px; background: ${surface}; border: 1px solid ${border}; border-radius: 8px; color: ${text}; font-size: 16px; cursor: pointer; }
+</style>
+</head>
+<body>
+${tabs}
+${charts}
+<div class="fv-controls">
+<button data-action="in" title="Zoom in (+)">+</button>
+<button data-action="out" title="Zoom out (-)">&minus;</button>
+<button data-action="fit" title="Fit (0 or double-click)">&#x2922;</button>
+</div>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+/**
+ * Export all pages as a self-contained HTML file
+ */
+export const exportAsHtml = (pages: FlowchartPage[], title: string, activePageId?: string, fileName: string = 'flowchart.html'): void => {
+    const blob = new Blob([buildStandaloneHtml(pages, title, activePageId)], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    link.click();
+
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,59 @@
+const DB_NAME = 'flowchart-builder';
+const DB_VERSION = 3;
+
+/**
+ * Object stores of the app database (new stores need a DB_VERSION bump)
+ */
+export type IdbStoreName = 'history' | 'versions' | 'templates';
+const STORE_NAMES: IdbStoreName[] = ['history', 'versions', 'templates'];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                STORE_NAMES.forEach(name => {
+                    if (!request.result.objectStoreNames.contains(name)) {
+                        request.result.createObjectStore(name);
+                    }
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later retry (e.g. after the user closed a blocking tab)
+        databasePromise.catch(() => {
+            databasePromise = null;
+        });
+    }
+    return databasePromise;
+};
+
+const runRequest = async <T>(storeName: IdbStoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = run(database.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const idbGet = <T>(storeName: IdbStoreName, key: string): Promise<T | undefined> =>
+    runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const idbGetAll = <T>(storeName: IdbStoreName): Promise<T[]> =>
+    runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const idbSet = async (storeName: IdbStoreName, key: string, value: unknown): Promise<void> => {
+    await runRequest(storeName, 'readwrite', store => store.put(value, key));
+};
+
+export const idbDelete = async (storeName: IdbStoreName, key: string): Promise<void> => {
+    await runRequest(storeName, 'readwrite', store => store.delete(key));
+};
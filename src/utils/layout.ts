@@ -0,0 +1,546 @@
+import { Node, Edge } from '@xyflow/react';
+import { isSymbolType, SYMBOL_SIZES } from './symbols';
+import {
+    isContainerNode, getLaneOrientation, getContainerSize, getContainerInsets, toAbsolutePositions,
+    fitContainersToChildren, CONTAINER_PADDING, LaneOrientation
+} from './groups';
+import { getCaseBias, getSwitchCases, getSwitchSize, isSwitchNode } from './switchCases';
+
+export type LayoutDirection = 'TB' | 'LR';
+
+export interface LayoutOptions {
+    // TB stacks layers top to bottom, LR left to right
+    direction?: LayoutDirection;
+    // Only move selected nodes, keeping their bounding box in place
+    selectedOnly?: boolean;
+}
+
+const NODE_SEPARATION = 60;
+const RANK_SEPARATION = 70;
+const COMPONENT_SEPARATION = 120;
+const DUMMY_BREADTH = 20;
+const ORDERING_ITERATIONS = 12;
+const POSITIONING_ITERATIONS = 8;
+const LAYOUT_ORIGIN = { x: 50, y: 50 };
+const MIN_LANE_THICKNESS = 140;
+
+// Helper to get node dimensions (checks multiple possible locations)
+export const getNodeSize = (node: Node): { width: number; height: number } => {
+    // Check direct width/height (measured by ReactFlow)
+    if (node.width && node.height) {
+        return { width: node.width, height: node.height };
+    }
+    // Check measured dimensions
+    if (node.measured?.width && node.measured?.height) {
+        return { width: node.measured.width, height: node.measured.height };
+    }
+    // Check style dimensions
+    if (node.style?.width && node.style?.height) {
+        return { width: Number(node.style.width), height: Number(node.style.height) };
+    }
+    // Default sizes based on type
+    const type = node.type;
+    if (isSymbolType(type)) return SYMBOL_SIZES[type];
+    if (isContainerNode(node)) return getContainerSize(type!, getLaneOrientation(node));
+    if (isSwitchNode(node)) return getSwitchSize(getSwitchCases(node).length);
+    switch (type) {
+        case 'condition':
+            return { width: 150, height: 150 };
+        case 'execution':
+            return { width: 150, height: 80 };
+        case 'subprocess':
+            return { width: 170, height: 80 };
+        case 'start':
+        case 'end':
+            return { width: 120, height: 120 };
+        default:
+            return { width: 100, height: 100 };
+    }
+};
+
+// Condition False handles pull their target to the matching side; switch cases spread out in case order
+const getPortBias = (source: Node | undefined, sourceHandle?: string | null) => {
+    if (isSwitchNode(source)) return getCaseBias(source, sourceHandle);
+    if (sourceHandle?.includes('left')) return -0.25;
+    if (sourceHandle?.includes('right')) return 0.25;
+    return 0;
+};
+
+interface Vertex {
+    id: string;
+    // Size along the layer (breadth) and across layers (rank)
+    breadth: number;
+    rank: number;
+    dummy: boolean;
+    layer: number;
+    position: number;
+}
+
+interface Segment {
+    from: string;
+    to: string;
+    bias: number;
+    weight: number;
+}
+
+interface ComponentLayout {
+    centers: Map<string, { breadth: number; rank: number }>;
+    minBreadth: number;
+    maxBreadth: number;
+}
+
+/**
+ * Break cycles with a DFS from the entry points; edges closing a cycle are reversed
+ */
+const breakCycles = (ids: string[], edges: Edge[], nodeMap: Map<string, Node>): { from: string; to: string; bias: number }[] => {
+    const outgoing = new Map<string, Edge[]>(ids.map(id => [id, []]));
+    edges.forEach(edge => outgoing.get(edge.source)!.push(edge));
+
+    const state = new Map<string, 'active' | 'done'>();
+    const reversed = new Set<Edge>();
+
+    ids.forEach(root => {
+        if (state.has(root)) return;
+        const stack: { id: string; index: number }[] = [{ id: root, index: 0 }];
+        state.set(root, 'active');
+
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            const next = outgoing.get(frame.id)![frame.index++];
+            if (!next) {
+                state.set(frame.id, 'done');
+                stack.pop();
+                continue;
+            }
+            const targetState = state.get(next.target);
+            if (targetState === 'active') {
+                reversed.add(next);
+            } else if (!targetState) {
+                state.set(next.target, 'active');
+                stack.push({ id: next.target, index: 0 });
+            }
+        }
+    });
+
+    return edges
+        .filter(edge => edge.source !== edge.target)
+        .map(edge => reversed.has(edge)
+            ? { from: edge.target, to: edge.source, bias: 0 }
+            : { from: edge.source, to: edge.target, bias: getPortBias(nodeMap.get(edge.source), edge.sourceHandle) });
+};
+
+/**
+ * Longest-path layering; sources that only feed later layers are pulled down next to their successors
+ */
+const assignLayers = (ids: string[], arcs: { from: string; to: string }[], startIds: Set<string>): Map<string, number> => {
+    const layers = new Map<string, number>();
+    const inDegree = new Map<string, number>(ids.map(id => [id, 0]));
+    arcs.forEach(arc => inDegree.set(arc.to, inDegree.get(arc.to)! + 1));
+
+    const queue = ids.filter(id => inDegree.get(id) === 0);
+    queue.forEach(id => layers.set(id, 0));
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        arcs.filter(arc => arc.from === id).forEach(arc => {
+            layers.set(arc.to, Math.max(layers.get(arc.to) ?? 0, layers.get(id)! + 1));
+            inDegree.set(arc.to, inDegree.get(arc.to)! - 1);
+            if (inDegree.get(arc.to) === 0) queue.push(arc.to);
+        });
+    }
+
+    ids.forEach(id => {
+        const hasPredecessor = arcs.some(arc => arc.to === id);
+        const successors = arcs.filter(arc => arc.from === id).map(arc => layers.get(arc.to)!);
+        if (!hasPredecessor && !startIds.has(id) && successors.length > 0) {
+            layers.set(id, Math.min(...successors) - 1);
+        }
+    });
+
+    return layers;
+};
+
+/**
+ * Number of crossings between two adjacent layers
+ */
+const countCrossings = (segments: Segment[], vertices: Map<string, Vertex>): number => {
+    let crossings = 0;
+    for (let i = 0; i < segments.length; i++) {
+        for (let j = i + 1; j < segments.length; j++) {
+            const a = segments[i];
+            const b = segments[j];
+            const top = vertices.get(a.from)!.position - vertices.get(b.from)!.position;
+            const bottom = vertices.get(a.to)!.position - vertices.get(b.to)!.position;
+            if (top * bottom < 0) crossings++;
+        }
+    }
+    return crossings;
+};
+
+/**
+ * Closest positions to `desired` that keep the given order and minimum gaps (weighted isotonic regression)
+ */
+const projectPositions = (desired: number[], gaps: number[]): number[] => {
+    const offsets = [0];
+    gaps.forEach((gap, i) => offsets.push(offsets[i] + gap));
+
+    const blocks: { value: number; weight: number; count: number }[] = [];
+    desired.forEach((value, i) => {
+        blocks.push({ value: value - offsets[i], weight: 1, count: 1 });
+        while (blocks.length > 1 && blocks[blocks.length - 2].value > blocks[blocks.length - 1].value) {
+            const last = blocks.pop()!;
+            const previous = blocks[blocks.length - 1];
+            previous.value = (previous.value * previous.weight + last.value * last.weight) / (previous.weight + last.weight);
+            previous.weight += last.weight;
+            previous.count += last.count;
+        }
+    });
+
+    const result: number[] = [];
+    blocks.forEach(block => {
+        for (let k = 0; k < block.count; k++) result.push(block.value + offsets[result.length]);
+    });
+    return result;
+};
+
+/**
+ * Layered layout of one connected component in abstract (breadth, rank) coordinates
+ */
+const layoutComponent = (nodes: Node[], edges: Edge[], direction: LayoutDirection): ComponentLayout => {
+    const ids = nodes.map(n => n.id);
+    const startIds = new Set(nodes.filter(n => n.type === 'start').map(n => n.id));
+    // DFS roots: start nodes first, then in component order
+    const roots = [...ids].sort((a, b) => Number(startIds.has(b)) - Number(startIds.has(a)));
+
+    const arcs = breakCycles(roots, edges, new Map(nodes.map(n => [n.id, n])));
+    const layers = assignLayers(roots, arcs, startIds);
+
+    const vertices = new Map<string, Vertex>();
+    nodes.forEach(node => {
+        const size = getNodeSize(node);
+        vertices.set(node.id, {
+            id: node.id,
+            breadth: direction === 'TB' ? size.width : size.height,
+            rank: direction === 'TB' ? size.height : size.width,
+            dummy: false,
+            layer: layers.get(node.id)!,
+            position: 0,
+        });
+    });
+
+    // Long edges are split into chains of dummy vertices, one per layer
+    const segments: Segment[] = [];
+    arcs.forEach((arc, index) => {
+        const fromLayer = layers.get(arc.from)!;
+        const toLayer = layers.get(arc.to)!;
+        let previous = arc.from;
+        for (let layer = fromLayer + 1; layer < toLayer; layer++) {
+            const id = `__dummy_${index}_${layer}`;
+            vertices.set(id, { id, breadth: DUMMY_BREADTH, rank: 0, dummy: true, layer, position: 0 });
+            segments.push({ from: previous, to: id, bias: previous === arc.from ? arc.bias : 0, weight: previous === arc.from ? 2 : 8 });
+            previous = id;
+        }
+        segments.push({ from: previous, to: arc.to, bias: previous === arc.from ? arc.bias : 0, weight: previous === arc.from ? 1 : 2 });
+    });
+
+    const layerCount = Math.max(...[...vertices.values()].map(v => v.layer)) + 1;
+    const rows: Vertex[][] = Array.from({ length: layerCount }, () => []);
+    const down = new Map<string, Segment[]>();
+    const up = new Map<string, Segment[]>();
+    segments.forEach(segment => {
+        down.set(segment.from, [...(down.get(segment.from) || []), segment]);
+        up.set(segment.to, [...(up.get(segment.to) || []), segment]);
+    });
+
+    // Initial order: DFS from the roots, visiting False-left, main and False-right children (or switch cases) in turn
+    const seen = new Set<string>();
+    const visit = (id: string) => {
+        if (seen.has(id)) return;
+        seen.add(id);
+        const vertex = vertices.get(id)!;
+        vertex.position = rows[vertex.layer].length;
+        rows[vertex.layer].push(vertex);
+        [...(down.get(id) || [])].sort((a, b) => a.bias - b.bias).forEach(segment => visit(segment.to));
+    };
+    roots.forEach(visit);
+
+    const segmentsBetween = (layer: number) => rows[layer].flatMap(v => down.get(v.id) || []);
+    const totalCrossings = () => rows.slice(0, -1).reduce((sum, _row, layer) => sum + countCrossings(segmentsBetween(layer), vertices), 0);
+    const snapshot = () => rows.map(row => row.map(v => v.id));
+
+    // Crossing minimisation: barycenter sweeps, keeping the best ordering seen
+    let best = snapshot();
+    let bestCrossings = totalCrossings();
+    for (let iteration = 0; iteration < ORDERING_ITERATIONS && bestCrossings > 0; iteration++) {
+        const downward = iteration % 2 === 0;
+        const order = downward ? rows.map((_, i) => i).slice(1) : rows.map((_, i) => i).slice(0, -1).reverse();
+
+        order.forEach(layer => {
+            const row = rows[layer];
+            const keys = new Map(row.map(vertex => {
+                const neighbours = downward
+                    ? (up.get(vertex.id) || []).map(s => vertices.get(s.from)!.position + s.bias)
+                    : (down.get(vertex.id) || []).map(s => vertices.get(s.to)!.position - s.bias);
+                const key = neighbours.length > 0 ? neighbours.reduce((a, b) => a + b, 0) / neighbours.length : vertex.position;
+                return [vertex.id, key];
+            }));
+            row.sort((a, b) => keys.get(a.id)! - keys.get(b.id)! || a.position - b.position);
+            row.forEach((vertex, index) => (vertex.position = index));
+        });
+
+        const crossings = totalCrossings();
+        if (crossings < bestCrossings) {
+            bestCrossings = crossings;
+            best = snapshot();
+        }
+    }
+    best.forEach((ids, layer) => {
+        rows[layer] = ids.map(id => vertices.get(id)!);
+    });
+
+    // Coordinate assignment: pack each layer, then pull vertices towards their neighbours without overlapping
+    const centers = new Map<string, number>();
+    const gapsOf = (row: Vertex[]) => row.slice(1).map((vertex, i) => (row[i].breadth + vertex.breadth) / 2 + NODE_SEPARATION);
+    rows.forEach(row => {
+        const packed = projectPositions(row.map(() => 0), gapsOf(row));
+        const shift = (packed[0] + packed[packed.length - 1]) / 2;
+        row.forEach((vertex, i) => centers.set(vertex.id, packed[i] - shift));
+    });
+
+    const align = (row: Vertex[], neighboursOf: (vertex: Vertex) => { id: string; weight: number }[]) => {
+        const desired = row.map(vertex => {
+            const neighbours = neighboursOf(vertex);
+            const weight = neighbours.reduce((sum, n) => sum + n.weight, 0);
+            return weight > 0
+                ? neighbours.reduce((sum, n) => sum + centers.get(n.id)! * n.weight, 0) / weight
+                : centers.get(vertex.id)!;
+        });
+        projectPositions(desired, gapsOf(row)).forEach((center, i) => centers.set(row[i].id, center));
+    };
+
+    const predecessors = (vertex: Vertex) => (up.get(vertex.id) || []).map(s => ({ id: s.from, weight: s.weight }));
+    const successors = (vertex: Vertex) => (down.get(vertex.id) || []).map(s => ({ id: s.to, weight: s.weight }));
+    for (let iteration = 0; iteration < POSITIONING_ITERATIONS; iteration++) {
+        if (iteration % 2 === 0) {
+            rows.slice(1).forEach(row => align(row, predecessors));
+        } else {
+            rows.slice(0, -1).reverse().forEach(row => align(row, successors));
+        }
+    }
+    rows.slice(1).forEach(row => align(row, vertex => [...predecessors(vertex), ...successors(vertex)]));
+
+    // Layers are as deep as their largest vertex
+    const result: ComponentLayout = { centers: new Map(), minBreadth: Infinity, maxBreadth: -Infinity };
+    let offset = 0;
+    rows.forEach(row => {
+        const depth = Math.max(0, ...row.map(v => v.rank));
+        row.filter(v => !v.dummy).forEach(vertex => {
+            const breadth = centers.get(vertex.id)!;
+            result.centers.set(vertex.id, { breadth, rank: offset + depth / 2 });
+            result.minBreadth = Math.min(result.minBreadth, breadth - vertex.breadth / 2);
+            result.maxBreadth = Math.max(result.maxBreadth, breadth + vertex.breadth / 2);
+        });
+        offset += depth + RANK_SEPARATION;
+    });
+    return result;
+};
+
+/**
+ * Layered layout of nodes without containers
+ */
+const layoutFlat = <T extends Node>(nodes: T[], edges: Edge[], options: LayoutOptions): T[] => {
+    const direction = options.direction || 'TB';
+    const hasSelection = options.selectedOnly && nodes.some(n => n.selected);
+    const targets = hasSelection ? nodes.filter(n => n.selected) : nodes;
+    if (targets.length === 0) return nodes;
+
+    const targetIds = new Set(targets.map(n => n.id));
+    const targetEdges = edges.filter(e => targetIds.has(e.source) && targetIds.has(e.target));
+
+    // Split into connected components
+    const componentOf = new Map<string, number>();
+    const components: T[][] = [];
+    const byPosition = [...targets].sort((a, b) =>
+        Number(b.type === 'start') - Number(a.type === 'start') ||
+        (direction === 'TB' ? a.position.x - b.position.x : a.position.y - b.position.y));
+    byPosition.forEach(node => {
+        if (componentOf.has(node.id)) return;
+        const index = components.length;
+        const members: T[] = [];
+        const queue = [node.id];
+        componentOf.set(node.id, index);
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            members.push(byPosition.find(n => n.id === id)!);
+            targetEdges.forEach(edge => {
+                const other = edge.source === id ? edge.target : edge.target === id ? edge.source : null;
+                if (other && !componentOf.has(other)) {
+                    componentOf.set(other, index);
+                    queue.push(other);
+                }
+            });
+        }
+        components.push(members);
+    });
+
+    // Lay out each component and place them next to each other
+    const centers = new Map<string, { x: number; y: number }>();
+    let cursor = 0;
+    components.forEach(members => {
+        const memberIds = new Set(members.map(n => n.id));
+        const layout = layoutComponent(members, targetEdges.filter(e => memberIds.has(e.source)), direction);
+        const shift = cursor - layout.minBreadth;
+        layout.centers.forEach((center, id) => {
+            const breadth = center.breadth + shift;
+            centers.set(id, direction === 'TB' ? { x: breadth, y: center.rank } : { x: center.rank, y: breadth });
+        });
+        cursor += layout.maxBreadth - layout.minBreadth + COMPONENT_SEPARATION;
+    });
+
+    // Convert centers to top-left positions, anchored at the origin or the selection's bounding box
+    const topLeft = new Map<string, { x: number; y: number }>();
+    targets.forEach(node => {
+        const size = getNodeSize(node);
+        const center = centers.get(node.id)!;
+        topLeft.set(node.id, { x: center.x - size.width / 2, y: center.y - size.height / 2 });
+    });
+
+    const origin = hasSelection
+        ? { x: Math.min(...targets.map(n => n.position.x)), y: Math.min(...targets.map(n => n.position.y)) }
+        : LAYOUT_ORIGIN;
+    const minX = Math.min(...[...topLeft.values()].map(p => p.x));
+    const minY = Math.min(...[...topLeft.values()].map(p => p.y));
+
+    return nodes.map(node => {
+        const position = topLeft.get(node.id);
+        if (!position) return node;
+        return {
+            ...node,
+            position: {
+                x: Math.round(position.x - minX + origin.x),
+                y: Math.round(position.y - minY + origin.y),
+            },
+        };
+    });
+};
+
+/**
+ * Move the laid-out nodes into bands, one per swimlane, keeping their position along the lanes.
+ * Lanes are stacked without gaps and share the same length; nodes outside lanes get a trailing band.
+ * Within a band, nodes whose extents overlap along the lane are put in separate sub-rows.
+ */
+const arrangeInLanes = <T extends Node>(nodes: T[], orientation: LaneOrientation): T[] => {
+    // "main" runs along the lanes, "cross" stacks them
+    const main = orientation === 'horizontal' ? 'x' : 'y';
+    const cross = orientation === 'horizontal' ? 'y' : 'x';
+    const mainSize = orientation === 'horizontal' ? 'width' : 'height';
+    const crossSize = orientation === 'horizontal' ? 'height' : 'width';
+
+    const lanes = nodes
+        .filter(n => n.type === 'swimlane' && getLaneOrientation(n) === orientation)
+        .sort((a, b) => a.position[cross] - b.position[cross]);
+    const laneIds = new Set(lanes.map(n => n.id));
+    const members = nodes.filter(n => !isContainerNode(n) && n.parentId && laneIds.has(n.parentId));
+    const loose = nodes.filter(n => !isContainerNode(n) && !(n.parentId && laneIds.has(n.parentId)));
+    if (members.length + loose.length === 0) return nodes;
+
+    const insets = lanes.length > 0
+        ? getContainerInsets(lanes[0])
+        : { left: CONTAINER_PADDING, top: CONTAINER_PADDING, right: CONTAINER_PADDING, bottom: CONTAINER_PADDING };
+    const headStart = orientation === 'horizontal' ? insets.left : insets.top;
+    const headCross = orientation === 'horizontal' ? insets.top : insets.left;
+    const flowNodes = nodes.filter(n => !isContainerNode(n));
+    const minMain = Math.min(...flowNodes.map(n => n.position[main]));
+    const maxMain = Math.max(...flowNodes.map(n => n.position[main] + getNodeSize(n)[mainSize]));
+
+    const positions = new Map<string, { x: number; y: number }>();
+    const laneBoxes = new Map<string, { start: number; thickness: number }>();
+    const laneOrigin = LAYOUT_ORIGIN[main];
+    let crossCursor = LAYOUT_ORIGIN[cross];
+
+    const placeBand = (band: T[], bandStart: number): number => {
+        // Greedy sub-rows: first row where the node does not overlap anything along the lane
+        const rows: { thickness: number; nodes: T[] }[] = [];
+        [...band].sort((a, b) => a.position[cross] - b.position[cross] || a.position[main] - b.position[main]).forEach(node => {
+            const start = node.position[main];
+            const size = getNodeSize(node);
+            const row = rows.find(r => r.nodes.every(other => {
+                const otherStart = other.position[main];
+                return start >= otherStart + getNodeSize(other)[mainSize] + CONTAINER_PADDING ||
+                    start + size[mainSize] + CONTAINER_PADDING <= otherStart;
+            }));
+            if (row) {
+                row.nodes.push(node);
+                row.thickness = Math.max(row.thickness, size[crossSize]);
+            } else {
+                rows.push({ thickness: size[crossSize], nodes: [node] });
+            }
+        });
+
+        let offset = bandStart + headCross;
+        rows.forEach(row => {
+            row.nodes.forEach(node => {
+                const size = getNodeSize(node);
+                const position = { x: 0, y: 0 };
+                position[main] = laneOrigin + headStart + node.position[main] - minMain;
+                position[cross] = offset + (row.thickness - size[crossSize]) / 2;
+                positions.set(node.id, position);
+            });
+            offset += row.thickness + CONTAINER_PADDING;
+        });
+        return Math.max(MIN_LANE_THICKNESS, offset - bandStart);
+    };
+
+    lanes.forEach(lane => {
+        const thickness = placeBand(members.filter(n => n.parentId === lane.id), crossCursor);
+        laneBoxes.set(lane.id, { start: crossCursor, thickness });
+        crossCursor += thickness;
+    });
+    if (loose.length > 0) {
+        placeBand(loose, crossCursor + (lanes.length > 0 ? CONTAINER_PADDING * 2 : 0));
+    }
+
+    const laneLength = headStart + (maxMain - minMain) + CONTAINER_PADDING;
+    return nodes.map(node => {
+        const box = laneBoxes.get(node.id);
+        if (box) {
+            const position = { x: 0, y: 0 };
+            position[main] = laneOrigin;
+            position[cross] = box.start;
+            const size = { width: 0, height: 0 };
+            size[mainSize] = Math.round(laneLength);
+            size[crossSize] = Math.round(box.thickness);
+            return { ...node, position, ...size, style: { ...node.style, ...size } };
+        }
+        const position = positions.get(node.id);
+        return position ? { ...node, position } : node;
+    });
+};
+
+/**
+ * Compute a layered (Sugiyama-style) layout: cycles are broken at back-edges, nodes are assigned to layers,
+ * crossings are reduced with barycenter sweeps and positions respect each node's size.
+ * Disconnected parts are placed side by side, those containing a start node first.
+ *
+ * With swimlanes the flow runs along the lanes (LR for horizontal lanes, TB for vertical ones), each node
+ * stays in its lane and the lanes are resized to fit; group frames are fitted around their members.
+ */
+export const computeAutoLayout = <T extends Node>(nodes: T[], edges: Edge[], options: LayoutOptions = {}): T[] => {
+    if (!nodes.some(n => isContainerNode(n))) return layoutFlat(nodes, edges, options);
+
+    const absolute = toAbsolutePositions(nodes);
+    const lane = absolute.find(n => n.type === 'swimlane');
+    const orientation = lane ? getLaneOrientation(lane) : undefined;
+    const direction = orientation ? (orientation === 'horizontal' ? 'LR' : 'TB') : options.direction;
+    const laidOut = new Map(
+        layoutFlat(absolute.filter(n => !isContainerNode(n)), edges, { ...options, direction }).map(n => [n.id, n.position])
+    );
+    const placed = absolute.map(n => {
+        const position = laidOut.get(n.id);
+        return position ? { ...n, position } : n;
+    });
+
+    // Selection layouts only grow the containers; whole-chart layouts rebuild them around the flow
+    const partial = Boolean(options.selectedOnly) && nodes.some(n => n.selected && !isContainerNode(n));
+    const arranged = orientation && !partial ? arrangeInLanes(placed, orientation) : placed;
+    return fitContainersToChildren(arranged, getNodeSize, !partial);
+};
@@ -0,0 +1,425 @@
+import { FlowchartProject, FlowchartProjectEdge, FlowchartProjectNode, FlowchartProjectPage } from './export';
+
+/**
+ * The two edited copies of a three-way merge ("mine" is the one the merge result starts from)
+ */
+export type MergeSide = 'ours' | 'theirs';
+
+export const MERGE_SIDE_NAMES: Record<MergeSide, string> = { ours: 'mine', theirs: 'theirs' };
+
+/**
+ * Page content that one resolution of a conflict puts in place of the items it governs
+ */
+export interface MergeOption {
+    nodes: FlowchartProjectNode[];
+    edges: FlowchartProjectEdge[];
+}
+
+/**
+ * A node or edge both sides changed in different ways. The merged project holds the "ours" option
+ * until the conflict is resolved.
+ */
+export interface MergeConflict {
+    id: string;
+    pageId: string;
+    kind: 'node' | 'edge';
+    itemId: string;
+    // Both changed the same fields, one deleted what the other changed, or both added different items under one ID
+    reason: 'changed' | 'deleted' | 'added';
+    description: string;
+    // Conflicting fields with each side's value, for display
+    details: { field: string; ours: string; theirs: string }[];
+    // Items replaced when an option is chosen
+    nodeIds: string[];
+    edgeIds: string[];
+    options: Record<MergeSide, MergeOption>;
+}
+
+export interface MergeResult {
+    project: FlowchartProject;
+    conflicts: MergeConflict[];
+    // Changes taken over automatically from each side
+    merged: Record<MergeSide, number>;
+    // Decisions made without asking (kept pages, renamed pages, ...)
+    notes: string[];
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+type Fields = Record<string, unknown>;
+
+// Nodes are merged field by field; the size and the style that carries it count as one field
+const flattenNode = (node: FlowchartProjectNode): Fields => {
+    const { label, color, description, subprocess, orientation, cases } = node.data;
+    return {
+        type: node.type,
+        parentId: node.parentId,
+        position: node.position,
+        size: { size: node.size, style: node.style },
+        label,
+        color,
+        description,
+        subprocess,
+        orientation,
+        cases,
+    };
+};
+
+const buildNode = (id: string, fields: Fields): FlowchartProjectNode => {
+    const size = fields.size as { size?: FlowchartProjectNode['size']; style?: FlowchartProjectNode['style'] } | undefined;
+    const data = Object.fromEntries(
+        ['label', 'color', 'description', 'subprocess', 'orientation', 'cases']
+            .filter(key => fields[key] !== undefined)
+            .map(key => [key, fields[key]])
+    );
+    return {
+        id,
+        type: fields.type as string,
+        ...(fields.parentId ? { parentId: fields.parentId as string } : {}),
+        position: fields.position as FlowchartProjectNode['position'],
+        ...(size?.size ? { size: size.size } : {}),
+        ...(size?.style ? { style: size.style } : {}),
+        data: { label: '', ...data } as FlowchartProjectNode['data'],
+    };
+};
+
+const flattenEdge = (edge: FlowchartProjectEdge): Fields => {
+    const { id: _id, ...fields } = edge;
+    return fields;
+};
+
+const buildEdge = (id: string, fields: Fields): FlowchartProjectEdge => ({ id, ...fields } as FlowchartProjectEdge);
+
+interface ItemMerge<T> {
+    // Result when the sides agree, else the "ours" option
+    item?: T;
+    conflict?: { reason: MergeConflict['reason']; fields: string[]; ours?: T; theirs?: T };
+    from: MergeSide[];
+}
+
+/**
+ * Three-way merge of one item: a side's change wins when the other side left the item alone,
+ * and fields changed on both sides to different values conflict
+ */
+const mergeItem = <T>(
+    base: T | undefined,
+    ours: T | undefined,
+    theirs: T | undefined,
+    id: string,
+    flatten: (item: T) => Fields,
+    build: (id: string, fields: Fields) => T
+): ItemMerge<T> => {
+    if (!ours && !theirs) {
+        return { from: base ? ['ours', 'theirs'] : [] };
+    }
+    if (!ours || !theirs) {
+        const kept = (ours ?? theirs)!;
+        const keeper: MergeSide = ours ? 'ours' : 'theirs';
+        const other: MergeSide = ours ? 'theirs' : 'ours';
+        // Added on one side only
+        if (!base) return { item: kept, from: [keeper] };
+        // Deleted on one side, untouched on the other
+        if (same(base, kept)) return { from: [other] };
+        return { item: ours, conflict: { reason: 'deleted', fields: [], ours, theirs }, from: [] };
+    }
+
+    const baseFields = base ? flatten(base) : undefined;
+    const ourFields = flatten(ours);
+    const theirFields = flatten(theirs);
+    const merged: Fields = {};
+    const conflicting: string[] = [];
+    const from = new Set<MergeSide>();
+
+    new Set([...Object.keys(ourFields), ...Object.keys(theirFields)]).forEach(field => {
+        const baseValue = baseFields?.[field];
+        const ourValue = ourFields[field];
+        const theirValue = theirFields[field];
+        if (same(ourValue, theirValue)) {
+            merged[field] = ourValue;
+        } else if (baseFields && same(ourValue, baseValue)) {
+            merged[field] = theirValue;
+            from.add('theirs');
+        } else if (baseFields && same(theirValue, baseValue)) {
+            merged[field] = ourValue;
+            from.add('ours');
+        } else {
+            merged[field] = ourValue;
+            conflicting.push(field);
+        }
+    });
+
+    if (conflicting.length === 0) {
+        return { item: build(id, merged), from: [...from] };
+    }
+    const withSide = (values: Fields) => build(id, { ...merged, ...Object.fromEntries(conflicting.map(field => [field, values[field]])) });
+    return {
+        item: withSide(ourFields),
+        conflict: { reason: base ? 'changed' : 'added', fields: conflicting, ours: withSide(ourFields), theirs: withSide(theirFields) },
+        from: [...from],
+    };
+};
+
+// Short text for a field value in the conflict list
+const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '(none)';
+    if (field === 'position') {
+        const { x, y } = value as { x: number; y: number };
+        return `(${Math.round(x)}, ${Math.round(y)})`;
+    }
+    if (field === 'size') {
+        const size = (value as { size?: { width: number; height: number } }).size;
+        return size ? `${Math.round(size.width)}×${Math.round(size.height)}` : '(auto)';
+    }
+    if (typeof value === 'string') return `"${value}"`;
+    if (field === 'cases' && Array.isArray(value)) return value.map(c => c.label).join(', ');
+    return 'changed';
+};
+
+const FIELD_NAMES: Record<string, string> = { parentId: 'container', sourceHandle: 'source handle', targetHandle: 'target handle', markerEnd: 'arrowhead' };
+
+const byId = <T extends { id: string }>(items: T[] | undefined) => new Map((items ?? []).map(item => [item.id, item]));
+
+// IDs in the order of "ours", followed by the ones only the other copies have
+const orderedIds = (...lists: ({ id: string }[] | undefined)[]) => [...new Set(lists.flatMap(list => (list ?? []).map(item => item.id)))];
+
+/**
+ * New nodes get the next free number of the file they were added to, so both sides adding one usually
+ * means two different nodes under one ID. Theirs is given a new ID (its edges and children follow) and
+ * both are kept.
+ */
+const separateAddedNodes = (
+    base: FlowchartProjectPage | undefined,
+    ours: FlowchartProjectPage | undefined,
+    theirs: FlowchartProjectPage | undefined,
+    createNodeId: () => string,
+    result: MergeResult
+): FlowchartProjectPage | undefined => {
+    if (!ours || !theirs) return theirs;
+    const [baseNodes, ourNodes, baseEdges] = [byId(base?.nodes), byId(ours.nodes), byId(base?.edges)];
+    const renamed = new Map<string, string>();
+    theirs.nodes.forEach(node => {
+        const ourNode = ourNodes.get(node.id);
+        if (baseNodes.has(node.id) || !ourNode || same(flattenNode(ourNode), flattenNode(node))) return;
+        renamed.set(node.id, createNodeId());
+        result.notes.push(`"${ourNode.data.label || node.id}" in mine and "${node.data.label || node.id}" in theirs were added under the same ID; both were kept.`);
+    });
+    if (renamed.size === 0) return theirs;
+
+    const remap = (id: string) => renamed.get(id) ?? id;
+    return {
+        ...theirs,
+        nodes: theirs.nodes.map(node => ({
+            ...node,
+            id: remap(node.id),
+            ...(node.parentId ? { parentId: remap(node.parentId) } : {}),
+        })),
+        edges: theirs.edges.map(edge => {
+            if (!renamed.has(edge.source) && !renamed.has(edge.target)) return edge;
+            const [source, target] = [remap(edge.source), remap(edge.target)];
+            // Edges that are new as well get a new ID (named the way the editor names connections)
+            const id = baseEdges.has(edge.id) ? edge.id : `xy-edge__${source}${edge.sourceHandle ?? ''}-${target}${edge.targetHandle ?? ''}`;
+            return { ...edge, id, source, target };
+        }),
+    };
+};
+
+const mergePage = (
+    pageId: string,
+    base: FlowchartProjectPage | undefined,
+    ours: FlowchartProjectPage | undefined,
+    theirPage: FlowchartProjectPage | undefined,
+    createNodeId: () => string,
+    result: MergeResult
+): FlowchartProjectPage => {
+    const theirs = separateAddedNodes(base, ours, theirPage, createNodeId, result);
+    const conflicts: MergeConflict[] = [];
+    const count = (from: MergeSide[]) => from.forEach(side => result.merged[side]++);
+
+    // Nodes
+    const [baseNodes, ourNodes, theirNodes] = [byId(base?.nodes), byId(ours?.nodes), byId(theirs?.nodes)];
+    const nodes: FlowchartProjectNode[] = [];
+    // Nodes deleted on one side while the other kept (and maybe changed) them
+    const contested = new Map<string, { deleter: MergeSide; kept: FlowchartProjectNode; changed: boolean }>();
+
+    orderedIds(ours?.nodes, theirs?.nodes, base?.nodes).forEach(id => {
+        const merge = mergeItem(baseNodes.get(id), ourNodes.get(id), theirNodes.get(id), id, flattenNode, buildNode);
+        count(merge.from);
+        if (merge.conflict?.reason === 'deleted') {
+            const deleter: MergeSide = merge.conflict.ours ? 'theirs' : 'ours';
+            contested.set(id, { deleter, kept: (merge.conflict.ours ?? merge.conflict.theirs)!, changed: true });
+        } else if (merge.conflict) {
+            const label = merge.item!.data.label || id;
+            conflicts.push({
+                id: `${pageId}:node:${id}`,
+                pageId,
+                kind: 'node',
+                itemId: id,
+                reason: merge.conflict.reason,
+                description: merge.conflict.reason === 'added'
+                    ? `"${label}" was added on both sides with different content`
+                    : `"${label}": ${merge.conflict.fields.map(f => FIELD_NAMES[f] ?? f).join(', ')} changed on both sides`,
+                details: merge.conflict.fields.map(field => ({
+                    field: FIELD_NAMES[field] ?? field,
+                    ours: formatValue(field, flattenNode(merge.conflict!.ours!)[field]),
+                    theirs: formatValue(field, flattenNode(merge.conflict!.theirs!)[field]),
+                })),
+                nodeIds: [id],
+                edgeIds: [],
+                options: { ours: { nodes: [merge.conflict.ours!], edges: [] }, theirs: { nodes: [merge.conflict.theirs!], edges: [] } },
+            });
+        }
+        if (merge.item) nodes.push(merge.item);
+        // Remember untouched deletions: an edge the other side added to the node turns them into conflicts
+        if (!merge.item && !merge.conflict && baseNodes.has(id) && (ourNodes.has(id) || theirNodes.has(id))) {
+            contested.set(id, { deleter: ourNodes.has(id) ? 'theirs' : 'ours', kept: (ourNodes.get(id) ?? theirNodes.get(id))!, changed: false });
+        }
+    });
+
+    // Edges
+    const [baseEdges, ourEdges, theirEdges] = [byId(base?.edges), byId(ours?.edges), byId(theirs?.edges)];
+    let edges: FlowchartProjectEdge[] = [];
+    orderedIds(ours?.edges, theirs?.edges, base?.edges).forEach(id => {
+        const merge = mergeItem(baseEdges.get(id), ourEdges.get(id), theirEdges.get(id), id, flattenEdge, buildEdge);
+        count(merge.from);
+        if (!merge.conflict) {
+            if (merge.item) edges.push(merge.item);
+            return;
+        }
+        const edge = (merge.conflict.ours ?? merge.conflict.theirs)!;
+        const fields = merge.conflict.fields.map(f => FIELD_NAMES[f] ?? f);
+        conflicts.push({
+            id: `${pageId}:edge:${id}`,
+            pageId,
+            kind: 'edge',
+            itemId: id,
+            reason: merge.conflict.reason,
+            description: merge.conflict.reason === 'deleted'
+                ? `Edge${edge.label ? ` "${edge.label}"` : ''} was deleted on one side and changed on the other`
+                : `Edge${edge.label ? ` "${edge.label}"` : ''}: ${fields.join(', ')} changed on both sides`,
+            details: merge.conflict.reason === 'deleted'
+                ? [{ field: 'edge', ours: merge.conflict.ours ? 'kept' : 'deleted', theirs: merge.conflict.theirs ? 'kept' : 'deleted' }]
+                : merge.conflict.fields.map(field => ({
+                    field: FIELD_NAMES[field] ?? field,
+                    ours: formatValue(field, flattenEdge(merge.conflict!.ours!)[field]),
+                    theirs: formatValue(field, flattenEdge(merge.conflict!.theirs!)[field]),
+                })),
+            nodeIds: [],
+            edgeIds: [id],
+            options: {
+                ours: { nodes: [], edges: merge.conflict.ours ? [merge.conflict.ours] : [] },
+                theirs: { nodes: [], edges: merge.conflict.theirs ? [merge.conflict.theirs] : [] },
+            },
+        });
+        if (merge.item) edges.push(merge.item);
+    });
+
+    // A deleted node conflicts when the other side changed it or connected something new to it
+    contested.forEach(({ deleter, kept, changed }, id) => {
+        const keeper: MergeSide = deleter === 'ours' ? 'theirs' : 'ours';
+        const keeperEdges = ((keeper === 'ours' ? ours : theirs)?.edges ?? []).filter(e => e.source === id || e.target === id);
+        const connected = keeperEdges.some(edge => !same(edge, baseEdges.get(edge.id)));
+        const touching = edges.filter(e => e.source === id || e.target === id);
+        if (!changed && !connected) {
+            edges = edges.filter(e => !touching.includes(e));
+            return;
+        }
+
+        // Keeping the node brings back the keeper's edges to it (as merged, where both sides have them)
+        const present = new Set([id, ...nodes.map(n => n.id)]);
+        const keptEdges = keeperEdges
+            .map(edge => edges.find(e => e.id === edge.id) ?? edge)
+            .filter(edge => present.has(edge.source) && present.has(edge.target));
+        const options = {
+            [deleter]: { nodes: [], edges: [] },
+            [keeper]: { nodes: [kept], edges: keptEdges },
+        } as unknown as Record<MergeSide, MergeOption>;
+        conflicts.push({
+            id: `${pageId}:node:${id}`,
+            pageId,
+            kind: 'node',
+            itemId: id,
+            reason: 'deleted',
+            description: `"${kept.data.label || id}" was deleted in ${MERGE_SIDE_NAMES[deleter]} but ${changed ? 'changed' : 'connected to new edges'} in ${MERGE_SIDE_NAMES[keeper]}`,
+            details: [{ field: 'node', ours: deleter === 'ours' ? 'deleted' : 'kept', theirs: deleter === 'theirs' ? 'deleted' : 'kept' }],
+            nodeIds: [id],
+            edgeIds: [...new Set([...touching, ...keptEdges].map(e => e.id))],
+            options,
+        });
+
+        // The merged project starts from mine
+        if (deleter === 'ours') {
+            edges = edges.filter(e => !touching.includes(e));
+        } else {
+            if (!nodes.some(n => n.id === id)) nodes.push(kept);
+            edges = [...edges, ...keptEdges.filter(edge => !edges.includes(edge))];
+        }
+    });
+
+    // Edges left without an end (their node was deleted without a conflict) are dropped
+    const nodeIds = new Set(nodes.map(n => n.id));
+    edges = edges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target));
+
+    // Children of a deleted lane or group stay where they were, on the canvas
+    const findNode = (id: string) => ourNodes.get(id) ?? theirNodes.get(id) ?? baseNodes.get(id);
+    const placedNodes = nodes.map(node => {
+        if (!node.parentId || nodeIds.has(node.parentId)) return node;
+        const parent = findNode(node.parentId);
+        const { parentId: _parentId, ...rest } = node;
+        return parent ? { ...rest, position: { x: parent.position.x + node.position.x, y: parent.position.y + node.position.y } } : rest;
+    });
+
+    result.conflicts.push(...conflicts);
+    const page = (ours ?? theirs ?? base)!;
+    return { ...page, id: pageId, nodes: placedNodes, edges };
+};
+
+/**
+ * Three-way merge of two edited copies of a project with their common ancestor.
+ * Nodes, edges and pages are matched by ID.
+ */
+export const mergeProjects = (base: FlowchartProject, ours: FlowchartProject, theirs: FlowchartProject): MergeResult => {
+    const result: MergeResult = {
+        project: { ...ours, modifiedAt: new Date().toISOString(), pages: [] },
+        conflicts: [],
+        merged: { ours: 0, theirs: 0 },
+        notes: [],
+    };
+    const [basePages, ourPages, theirPages] = [byId(base.pages), byId(ours.pages), byId(theirs.pages)];
+
+    // New node IDs continue after the highest number any copy uses
+    let lastNodeNumber = Math.max(0, ...[base, ours, theirs].flatMap(project => project.pages.flatMap(page => page.nodes)).map(node => {
+        const match = node.id.match(/node_(\d+)/);
+        return match ? parseInt(match[1], 10) : 0;
+    }));
+    const createNodeId = () => `node_${++lastNodeNumber}`;
+
+    orderedIds(ours.pages, theirs.pages, base.pages).forEach(pageId => {
+        const [basePage, ourPage, theirPage] = [basePages.get(pageId), ourPages.get(pageId), theirPages.get(pageId)];
+        const content = (page?: FlowchartProjectPage) => page && { nodes: page.nodes, edges: page.edges, name: page.name };
+
+        if (!ourPage || !theirPage) {
+            const kept = ourPage ?? theirPage;
+            if (!kept) return;
+            // Deleted on one side: gone if the other side did not touch it
+            if (basePage && same(content(basePage), content(kept))) return;
+            if (basePage) {
+                result.notes.push(`Page "${kept.name}" was deleted in ${MERGE_SIDE_NAMES[ourPage ? 'theirs' : 'ours']} but changed in ${MERGE_SIDE_NAMES[ourPage ? 'ours' : 'theirs']}; it was kept.`);
+            }
+            result.project.pages.push(kept);
+            return;
+        }
+
+        const page = mergePage(pageId, basePage, ourPage, theirPage, createNodeId, result);
+        const name = ourPage.name === theirPage.name || theirPage.name === basePage?.name ? ourPage.name
+            : ourPage.name === basePage?.name ? theirPage.name : undefined;
+        if (name === undefined) {
+            result.notes.push(`Page "${ourPage.name}" was renamed on both sides ("${theirPage.name}" in theirs); mine was kept.`);
+        }
+        result.project.pages.push({ ...page, name: name ?? ourPage.name });
+    });
+
+    if (!result.project.pages.some(p => p.id === result.project.activePageId)) {
+        result.project.activePageId = result.project.pages[0]?.id;
+    }
+    return result;
+};
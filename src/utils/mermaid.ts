@@ -0,0 +1,514 @@
+import { getDefaultSize, FlowchartProjectNode, FlowchartProjectEdge } from './export';
+import { Edge } from '@xyflow/react';
+import { applyEdgeAppearance, getAnnotationEdgeStyling, getEdgeStyling } from './edgeStyle';
+import { isSymbolType } from './symbols';
+import { createSwitchCases, getCaseHandleId, getSwitchSize, SWITCH_TARGET_HANDLE } from './switchCases';
+
+/**
+ * Mermaid node shapes grouped by how they map onto our node types
+ */
+type MermaidShape = 'terminal' | 'end' | 'decision' | 'process' | 'subroutine'
+    | 'io' | 'document' | 'database' | 'manual' | 'manualInput' | 'connector' | 'comment';
+
+interface MermaidNodeDef {
+    id: string;
+    label: string;
+    shape: MermaidShape;
+}
+
+// Subgraphs become swimlanes when they set a direction, group frames otherwise
+interface MermaidSubgraphDef {
+    id: string;
+    label: string;
+    direction?: string;
+}
+
+// Link strokes: `-->`, dotted `-.->` and thick `==>`
+type MermaidLineStyle = 'solid' | 'dotted' | 'thick';
+
+interface MermaidEdgeDef {
+    source: string;
+    target: string;
+    label: string;
+    line: MermaidLineStyle;
+}
+
+export interface MermaidParseResult {
+    direction: string;
+    nodes: FlowchartProjectNode[];
+    edges: FlowchartProjectEdge[];
+}
+
+export interface MermaidParseOptions {
+    // Map a Mermaid node ID to the ID used on the canvas
+    createId?: (mermaidId: string) => string;
+}
+
+// Opening/closing delimiters, longest first so `([` wins over `(`
+const SHAPE_DELIMITERS: { open: string; close: string; shape: MermaidShape }[] = [
+    { open: '(((', close: ')))', shape: 'end' },
+    { open: '((', close: '))', shape: 'terminal' },
+    { open: '([', close: '])', shape: 'terminal' },
+    { open: '[[', close: ']]', shape: 'subroutine' },
+    { open: '[(', close: ')]', shape: 'database' },
+    { open: '{{', close: '}}', shape: 'process' },
+    { open: '[/', close: '/]', shape: 'io' },
+    { open: '[/', close: '\\]', shape: 'manual' },
+    { open: '[\\', close: '\\]', shape: 'io' },
+    { open: '[\\', close: '/]', shape: 'manual' },
+    { open: '>', close: ']', shape: 'process' },
+    { open: '{', close: '}', shape: 'decision' },
+    { open: '(', close: ')', shape: 'process' },
+    { open: '[', close: ']', shape: 'process' },
+];
+
+// `-->`, `---`, `-.->`, `==>`, `--o`, `--x` optionally followed by `|label|`
+const ARROW_PATTERN = /^<?(?:-{2,}>|-{3,}|={2,}>|={3,}|-\.+->|-\.+-|-{2,}[ox]|={2,}[ox])\s*(?:\|([^|]*)\|)?/;
+// `-- label -->`, `== label ==>`, `-. label .->`
+const TEXT_ARROW_PATTERN = /^<?(?:--|==|-\.)\s+([^|>]+?)\s*(?:-{2,}>|={2,}>|\.+->|-{3,}|={3,}|\.+-)/;
+const ID_PATTERN = /^[\w.]+/;
+const HEADER_PATTERN = /^(?:flowchart|graph)(?:\s+(TD|TB|BT|LR|RL))?\s*$/i;
+// Mermaid v11 `id@{ shape: ..., label: "..." }` shape names (and aliases)
+const SHAPE_NAMES: Record<string, MermaidShape> = {
+    'rect': 'process', 'proc': 'process', 'process': 'process', 'rectangle': 'process',
+    'rounded': 'process', 'event': 'process', 'hex': 'process', 'hexagon': 'process', 'prepare': 'process',
+    'stadium': 'terminal', 'pill': 'terminal', 'terminal': 'terminal', 'circle': 'terminal', 'circ': 'terminal',
+    'dbl-circ': 'end', 'double-circle': 'end', 'fr-circ': 'end', 'stop': 'end',
+    'diam': 'decision', 'diamond': 'decision', 'decision': 'decision', 'question': 'decision',
+    'subproc': 'subroutine', 'subprocess': 'subroutine', 'subroutine': 'subroutine', 'fr-rect': 'subroutine', 'framed-rectangle': 'subroutine',
+    'lean-r': 'io', 'lean-right': 'io', 'in-out': 'io', 'lean-l': 'io', 'lean-left': 'io', 'out-in': 'io',
+    'doc': 'document', 'document': 'document',
+    'cyl': 'database', 'cylinder': 'database', 'database': 'database', 'db': 'database',
+    'trap-t': 'manual', 'manual': 'manual', 'inv-trapezoid': 'manual', 'trapezoid-top': 'manual',
+    'sl-rect': 'manualInput', 'manual-input': 'manualInput', 'sloped-rectangle': 'manualInput',
+    'notch-pent': 'connector', 'off-page-ref': 'connector', 'off-page': 'connector',
+    'brace': 'comment', 'brace-l': 'comment', 'comment': 'comment', 'brace-r': 'comment', 'braces': 'comment',
+};
+
+const IGNORED_STATEMENT_PATTERN = /^(?:%%|classDef\s|class\s|style\s|linkStyle\s|click\s)/;
+const SUBGRAPH_PATTERN = /^subgraph(?:\s+(.*))?$/;
+const DIRECTION_PATTERN = /^direction\s+(TD|TB|BT|LR|RL)$/i;
+
+const TRUE_LABELS = /^(?:yes|true|y|ok|はい)$/i;
+const FALSE_LABELS = /^(?:no|false|n|いいえ)$/i;
+
+// A condition shows one False handle (left or right, whichever is connected), so it has two exits
+const CONDITION_TRUE_HANDLE = 'condition-bottom-true';
+const CONDITION_FALSE_HANDLE = 'condition-left-false';
+
+/**
+ * Decode Mermaid entity codes (`#quot;`, `#91;`) and `<br/>` line breaks
+ */
+const decodeMermaidText = (text: string) =>
+    text
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/#quot;/g, '"')
+        .replace(/#(\d+);/g, (_match, code: string) => String.fromCharCode(parseInt(code, 10)));
+
+const unquote = (text: string) => {
+    let trimmed = text.trim();
+    if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+        trimmed = trimmed.slice(1, -1).replace(/\\"/g, '"');
+    }
+    return decodeMermaidText(trimmed);
+};
+
+/**
+ * Read a node reference (`id`, `id[label]`, `id{"label"}`, ...) at the start of `text`
+ */
+const readNodeRef = (text: string): { def: MermaidNodeDef & { hasShape: boolean }; rest: string } | null => {
+    const idMatch = text.match(ID_PATTERN);
+    if (!idMatch) return null;
+
+    const id = idMatch[0];
+    const afterId = text.slice(id.length);
+
+    if (afterId.startsWith('@{')) {
+        return readShapeData(id, afterId);
+    }
+
+    for (const { open, close, shape } of SHAPE_DELIMITERS) {
+        if (!afterId.startsWith(open)) continue;
+
+        const body = afterId.slice(open.length);
+        let end: number;
+        if (body.trimStart().startsWith('"')) {
+            // Quoted labels may contain the closing delimiter
+            const quoteStart = body.indexOf('"');
+            let quoteEnd = quoteStart + 1;
+            while (quoteEnd < body.length && (body[quoteEnd] !== '"' || body[quoteEnd - 1] === '\\')) {
+                quoteEnd++;
+            }
+            end = body.indexOf(close, quoteEnd + 1);
+        } else {
+            end = body.indexOf(close);
+        }
+        if (end === -1) continue;
+
+        return {
+            def: { id, label: unquote(body.slice(0, end)), shape, hasShape: true },
+            rest: body.slice(end + close.length),
+        };
+    }
+
+    return { def: { id, label: id, shape: 'process', hasShape: false }, rest: afterId };
+};
+
+/**
+ * Read the `@{ shape: doc, label: "..." }` form of a node definition
+ */
+const readShapeData = (id: string, afterId: string): { def: MermaidNodeDef & { hasShape: boolean }; rest: string } | null => {
+    let inQuotes = false;
+    let end = -1;
+    for (let i = 2; i < afterId.length; i++) {
+        if (afterId[i] === '"' && afterId[i - 1] !== '\\') inQuotes = !inQuotes;
+        if (afterId[i] === '}' && !inQuotes) {
+            end = i;
+            break;
+        }
+    }
+    if (end === -1) return null;
+
+    const body = afterId.slice(2, end);
+    const shapeName = body.match(/(?:^|,)\s*shape\s*:\s*([\w-]+)/)?.[1]?.toLowerCase() || 'rect';
+    const label = body.match(/(?:^|,)\s*label\s*:\s*("(?:[^"\\]|\\.)*"|[^,]*)/)?.[1];
+
+    return {
+        def: { id, label: label !== undefined ? unquote(label) : id, shape: SHAPE_NAMES[shapeName] || 'process', hasShape: true },
+        rest: afterId.slice(end + 1),
+    };
+};
+
+/**
+ * Read a group of node references joined with `&`
+ */
+const readNodeGroup = (text: string): { defs: (MermaidNodeDef & { hasShape: boolean })[]; rest: string } | null => {
+    const defs: (MermaidNodeDef & { hasShape: boolean })[] = [];
+    let rest = text;
+
+    while (true) {
+        const ref = readNodeRef(rest.trimStart());
+        if (!ref) return null;
+        defs.push(ref.def);
+        rest = ref.rest.trimStart();
+        if (!rest.startsWith('&')) break;
+        rest = rest.slice(1);
+    }
+
+    return { defs, rest };
+};
+
+const readArrow = (text: string): { label: string; line: MermaidLineStyle; rest: string } | null => {
+    const match = text.match(ARROW_PATTERN) || text.match(TEXT_ARROW_PATTERN);
+    if (!match) return null;
+    const line = /^<?-\./.test(match[0]) ? 'dotted' : /^<?=/.test(match[0]) ? 'thick' : 'solid';
+    return { label: unquote(match[1] || ''), line, rest: text.slice(match[0].length) };
+};
+
+/**
+ * Split a line on `;` separators, ignoring those inside quoted labels and entity codes like `#quot;`
+ */
+const splitLine = (line: string): string[] => {
+    const parts: string[] = [];
+    let inQuotes = false;
+    let start = 0;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"' && line[i - 1] !== '\\') {
+            inQuotes = !inQuotes;
+        } else if (char === ';' && !inQuotes && !/#\w+$/.test(line.slice(start, i))) {
+            parts.push(line.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(line.slice(start));
+
+    return parts;
+};
+
+/**
+ * Split Mermaid source into statements (lines and `;`-separated parts)
+ */
+const splitStatements = (source: string): string[] =>
+    source
+        .split(/\r?\n/)
+        .flatMap(line => (line.trim().startsWith('%%') ? [] : splitLine(line)))
+        .map(statement => statement.trim())
+        .filter(Boolean);
+
+/**
+ * Whether the text starts with a Mermaid flowchart header (used to recognise pasted diagrams)
+ */
+export const isMermaidFlowchart = (source: string): boolean => HEADER_PATTERN.test(splitStatements(source)[0] || '');
+
+/**
+ * Resolve terminal shapes to start/end based on connectivity; decisions with more than two exits become switches
+ */
+const resolveNodeType = (def: MermaidNodeDef, incoming: number, outgoing: number): string => {
+    if (def.shape === 'end') return 'end';
+    if (def.shape === 'decision') return outgoing > 2 ? 'switch' : 'condition';
+    if (def.shape === 'process') return 'execution';
+    if (def.shape === 'subroutine') return 'subprocess';
+    if (isSymbolType(def.shape)) return def.shape;
+
+    if (incoming === 0 && outgoing > 0) return 'start';
+    if (incoming > 0 && outgoing === 0) return 'end';
+    if (incoming === 0 && outgoing === 0) {
+        return /end|stop|finish|終了/i.test(def.label) ? 'end' : 'start';
+    }
+    return 'execution';
+};
+
+/**
+ * Input handle of a node type, or null if it has none (start nodes and comments)
+ */
+const getTargetHandle = (type: string): string | null => {
+    if (type === 'start' || type === 'comment') return null;
+    return type === 'switch' ? SWITCH_TARGET_HANDLE : `${type}-top`;
+};
+
+/**
+ * Output handle of a node type, or null if it has none (end nodes); conditions, switches and comments have their own
+ */
+const getSourceHandle = (type: string): string | null => (type === 'end' ? null : `${type}-bottom`);
+
+/**
+ * Parse a Mermaid `flowchart`/`graph` definition into project nodes and edges.
+ * Node positions are left at the origin; run the auto-layout afterwards.
+ */
+export const parseMermaid = (source: string, options: MermaidParseOptions = {}): MermaidParseResult => {
+    const statements = splitStatements(source);
+    const header = statements.shift()?.match(HEADER_PATTERN);
+    if (!header) {
+        throw new Error('Expected a "flowchart TD" or "graph TD" header');
+    }
+
+    const nodeDefs = new Map<string, MermaidNodeDef>();
+    const edgeDefs: MermaidEdgeDef[] = [];
+    const subgraphDefs: MermaidSubgraphDef[] = [];
+    const subgraphStack: MermaidSubgraphDef[] = [];
+    // Node ID -> innermost subgraph that mentions it
+    const membership = new Map<string, string>();
+
+    const registerNode = (def: MermaidNodeDef & { hasShape: boolean }) => {
+        if (subgraphStack.length > 0) {
+            membership.set(def.id, subgraphStack[subgraphStack.length - 1].id);
+        }
+        const existing = nodeDefs.get(def.id);
+        // Later definitions with an explicit shape override bare references
+        if (!existing || def.hasShape) {
+            nodeDefs.set(def.id, { id: def.id, label: def.label, shape: def.shape });
+        }
+    };
+
+    statements.forEach(statement => {
+        if (IGNORED_STATEMENT_PATTERN.test(statement)) return;
+
+        const subgraph = statement.match(SUBGRAPH_PATTERN);
+        if (subgraph) {
+            // `subgraph id["title"]`, `subgraph id` or `subgraph "title"`
+            const title = (subgraph[1] || '').trim();
+            const ref = title.startsWith('"') ? null : readNodeRef(title);
+            const def: MermaidSubgraphDef = ref
+                ? { id: ref.def.id, label: ref.def.label }
+                : { id: `subgraph${subgraphDefs.length + 1}`, label: unquote(title) || 'Group' };
+            subgraphDefs.push(def);
+            subgraphStack.push(def);
+            return;
+        }
+        if (statement === 'end') {
+            subgraphStack.pop();
+            return;
+        }
+        const direction = statement.match(DIRECTION_PATTERN);
+        if (direction) {
+            if (subgraphStack.length > 0) subgraphStack[subgraphStack.length - 1].direction = direction[1].toUpperCase();
+            return;
+        }
+
+        const first = readNodeGroup(statement);
+        if (!first) {
+            throw new Error(`Cannot parse statement: ${statement}`);
+        }
+        first.defs.forEach(registerNode);
+
+        let sources = first.defs;
+        let rest = first.rest.trim();
+        while (rest.length > 0) {
+            const arrow = readArrow(rest);
+            if (!arrow) {
+                throw new Error(`Cannot parse statement: ${statement}`);
+            }
+            const next = readNodeGroup(arrow.rest);
+            if (!next) {
+                throw new Error(`Missing edge target: ${statement}`);
+            }
+            next.defs.forEach(registerNode);
+            sources.forEach(source => {
+                next.defs.forEach(target => {
+                    edgeDefs.push({ source: source.id, target: target.id, label: arrow.label, line: arrow.line });
+                });
+            });
+            sources = next.defs;
+            rest = next.rest.trim();
+        }
+    });
+
+    // Edges to a subgraph itself are not supported; its ID is not a node
+    const subgraphIds = new Set(subgraphDefs.map(def => def.id));
+    subgraphIds.forEach(id => nodeDefs.delete(id));
+    const connectedEdgeDefs = edgeDefs.filter(e => !subgraphIds.has(e.source) && !subgraphIds.has(e.target));
+    edgeDefs.splice(0, edgeDefs.length, ...connectedEdgeDefs);
+
+    if (nodeDefs.size === 0) {
+        throw new Error('No nodes found');
+    }
+
+    const createId = options.createId || ((mermaidId: string) => mermaidId);
+    const isComment = (mermaidId: string) => nodeDefs.get(mermaidId)?.shape === 'comment';
+    const flowEdgeDefs = edgeDefs.filter(e => !isComment(e.source) && !isComment(e.target));
+    const idMap = new Map<string, string>();
+    const typeMap = new Map<string, string>();
+    // Switch exits: one case per outgoing edge, named after the edge label
+    const caseExits = new Map<MermaidEdgeDef, { handle: string; label: string }>();
+
+    const containers: FlowchartProjectNode[] = subgraphDefs.map(def => {
+        const type = def.direction ? 'swimlane' : 'group';
+        const orientation = def.direction === 'LR' || def.direction === 'RL' ? 'horizontal' : 'vertical';
+        const size = getDefaultSize(type, type === 'swimlane' ? orientation : undefined);
+        const id = createId(def.id);
+        idMap.set(def.id, id);
+
+        return {
+            id,
+            type,
+            position: { x: 0, y: 0 },
+            size,
+            style: { width: size.width, height: size.height },
+            data: { label: def.label, ...(type === 'swimlane' ? { orientation } : {}) },
+        } as FlowchartProjectNode;
+    });
+
+    const flowNodes: FlowchartProjectNode[] = Array.from(nodeDefs.values()).map(def => {
+        // Lines to comments are annotations, not flow
+        const incoming = flowEdgeDefs.filter(e => e.target === def.id).length;
+        const outgoing = flowEdgeDefs.filter(e => e.source === def.id).length;
+        const type = resolveNodeType(def, incoming, outgoing);
+        const id = createId(def.id);
+
+        idMap.set(def.id, id);
+        typeMap.set(def.id, type);
+        const parentId = membership.has(def.id) ? idMap.get(membership.get(def.id)!) : undefined;
+
+        const exits = type === 'switch' ? flowEdgeDefs.filter(e => e.source === def.id) : [];
+        const cases = createSwitchCases(exits.map((edge, index) => edge.label || `Case ${index + 1}`));
+        exits.forEach((edge, index) => caseExits.set(edge, { handle: getCaseHandleId(cases[index].id), label: cases[index].label }));
+        const size = type === 'switch' ? getSwitchSize(cases.length) : getDefaultSize(type);
+
+        return {
+            id,
+            type,
+            ...(parentId ? { parentId } : {}),
+            position: { x: 0, y: 0 },
+            size,
+            style: { width: size.width, height: size.height },
+            data: { label: def.label, ...(type === 'switch' ? { cases } : {}) },
+        };
+    });
+
+    const nodes = [...containers, ...flowNodes];
+
+    // Edges that cannot attach to the node types they connect are reported rather than left dangling
+    const requireHandle = (handle: string | null, edge: MermaidEdgeDef, problem: string): string => {
+        if (!handle) throw new Error(`Cannot connect ${edge.source} to ${edge.target}: ${problem}`);
+        return handle;
+    };
+
+    // Assign condition branches to the True/False handles, each handle to one edge
+    const usedHandles = new Set<string>();
+    const pickConditionHandle = (edge: MermaidEdgeDef): { handle: string; label: string } => {
+        const free = (handle: string) => !usedHandles.has(`${edge.source}:${handle}`);
+        const wantsFalse = FALSE_LABELS.test(edge.label) || (!TRUE_LABELS.test(edge.label) && !free(CONDITION_TRUE_HANDLE));
+        const [preferred, fallback] = wantsFalse
+            ? [CONDITION_FALSE_HANDLE, CONDITION_TRUE_HANDLE]
+            : [CONDITION_TRUE_HANDLE, CONDITION_FALSE_HANDLE];
+        const handle = requireHandle(
+            free(preferred) ? preferred : free(fallback) ? fallback : null,
+            edge,
+            `decision ${edge.source} has no free exit left`
+        );
+        usedHandles.add(`${edge.source}:${handle}`);
+
+        const isTrue = handle === CONDITION_TRUE_HANDLE;
+        if (isTrue && TRUE_LABELS.test(edge.label)) return { handle, label: 'True' };
+        if (!isTrue && FALSE_LABELS.test(edge.label)) return { handle, label: 'False' };
+        return { handle, label: edge.label || (isTrue ? 'True' : 'False') };
+    };
+    // Yes/No edges pick first; unlabelled ones take the handles left over
+    const isBranchLabel = (label: string) => TRUE_LABELS.test(label) || FALSE_LABELS.test(label);
+    const conditionBranches = new Map(
+        flowEdgeDefs
+            .filter(edge => typeMap.get(edge.source) === 'condition')
+            .sort((a, b) => Number(isBranchLabel(b.label)) - Number(isBranchLabel(a.label)))
+            .map(edge => [edge, pickConditionHandle(edge)])
+    );
+
+    const edges: FlowchartProjectEdge[] = edgeDefs.map((edge, index) => {
+        const sourceType = typeMap.get(edge.source);
+        const targetType = typeMap.get(edge.target);
+
+        // Annotation lines always run from the comment to the annotated node
+        if (sourceType === 'comment' || targetType === 'comment') {
+            const [comment, annotated] = sourceType === 'comment' ? [edge.source, edge.target] : [edge.target, edge.source];
+            const source = idMap.get(comment)!;
+            const target = idMap.get(annotated)!;
+            return {
+                id: `edge_${source}_${target}_${index}`,
+                source,
+                target,
+                sourceHandle: 'comment-left',
+                targetHandle: requireHandle(getTargetHandle(typeMap.get(annotated)!), edge, `${typeMap.get(annotated)} nodes cannot be annotated`),
+                ...getAnnotationEdgeStyling(),
+            } as FlowchartProjectEdge;
+        }
+
+        let sourceHandle: string;
+        let label = edge.label;
+
+        if (sourceType === 'condition') {
+            const branch = conditionBranches.get(edge)!;
+            sourceHandle = branch.handle;
+            label = branch.label;
+        } else if (sourceType === 'switch') {
+            const exit = caseExits.get(edge)!;
+            sourceHandle = exit.handle;
+            label = exit.label;
+        } else {
+            sourceHandle = requireHandle(getSourceHandle(sourceType!), edge, `${sourceType} nodes have no outgoing connections`);
+        }
+        const targetHandle = requireHandle(getTargetHandle(targetType!), edge, `${targetType} nodes have no incoming connections`);
+
+        const source = idMap.get(edge.source)!;
+        const target = idMap.get(edge.target)!;
+
+        const flowEdge = {
+            id: `edge_${source}_${target}_${index}`,
+            source,
+            target,
+            sourceHandle,
+            targetHandle,
+            label: label || undefined,
+            ...getEdgeStyling(label),
+        } as FlowchartProjectEdge;
+
+        if (edge.line === 'solid') return flowEdge;
+        return applyEdgeAppearance(flowEdge as Edge, edge.line === 'dotted' ? { dashed: true } : { strokeWidth: 4 }) as FlowchartProjectEdge;
+    });
+
+    return {
+        direction: (header[1] || 'TD').toUpperCase(),
+        nodes,
+        edges,
+    };
+};
@@ -0,0 +1,125 @@
+import { Edge, Node } from '@xyflow/react';
+import { applyEdgeAppearance } from './edgeStyle';
+import { getAbsolutePosition } from './groups';
+
+export interface ReplaceOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+}
+
+/**
+ * Text fields that find/replace works on
+ */
+export type ReplaceField = 'label' | 'description' | 'edgeLabel';
+
+/**
+ * One occurrence of the search text; `start`/`end` index into `text`, the field's current value
+ */
+export interface TextMatch {
+    id: string;
+    itemId: string;
+    field: ReplaceField;
+    text: string;
+    start: number;
+    end: number;
+}
+
+export const REPLACE_FIELD_NAMES: Record<ReplaceField, string> = {
+    label: 'Label',
+    description: 'Description',
+    edgeLabel: 'Edge label',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Literal pattern for the search text; whole words are bounded by anything but letters, digits and `_`
+ */
+export const createFindPattern = (find: string, options: ReplaceOptions): RegExp | null => {
+    if (!find) return null;
+    const escaped = escapeRegExp(find);
+    const source = options.wholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped;
+    return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+};
+
+const getFieldText = (item: Node | Edge, field: ReplaceField): string => {
+    if (field === 'edgeLabel') return typeof (item as Edge).label === 'string' ? (item as Edge).label as string : '';
+    const value = (item as Node).data?.[field];
+    return typeof value === 'string' ? value : '';
+};
+
+/**
+ * Every match in node labels and descriptions (nodes in reading order), then in edge labels
+ */
+export const findTextMatches = (nodes: Node[], edges: Edge[], find: string, options: ReplaceOptions): TextMatch[] => {
+    const pattern = createFindPattern(find, options);
+    if (!pattern) return [];
+
+    const collect = (item: Node | Edge, field: ReplaceField): TextMatch[] => {
+        const text = getFieldText(item, field);
+        return Array.from(text.matchAll(pattern), match => ({
+            id: `${item.id}:${field}:${match.index}`,
+            itemId: item.id,
+            field,
+            text,
+            start: match.index!,
+            end: match.index! + match[0].length,
+        }));
+    };
+
+    const positions = new Map(nodes.map(node => [node.id, getAbsolutePosition(node, nodes)]));
+    const ordered = [...nodes].sort((a, b) => {
+        const pa = positions.get(a.id)!;
+        const pb = positions.get(b.id)!;
+        return pa.y - pb.y || pa.x - pb.x;
+    });
+
+    return [
+        ...ordered.flatMap(node => [...collect(node, 'label'), ...collect(node, 'description')]),
+        ...edges.flatMap(edge => collect(edge, 'edgeLabel')),
+    ];
+};
+
+// Replace the given ranges of one value, last first so the earlier indices stay valid
+const replaceRanges = (text: string, matches: TextMatch[], replacement: string) =>
+    [...matches]
+        .sort((a, b) => b.start - a.start)
+        .reduce((value, match) => value.slice(0, match.start) + replacement + value.slice(match.end), text);
+
+/**
+ * Nodes and edges with the given matches replaced; items without matches are returned as they are
+ */
+export const replaceTextMatches = <N extends Node>(
+    nodes: N[],
+    edges: Edge[],
+    matches: TextMatch[],
+    replacement: string
+): { nodes: N[]; edges: Edge[] } => {
+    const byItem = new Map<string, TextMatch[]>();
+    matches.forEach(match => byItem.set(match.itemId, [...(byItem.get(match.itemId) ?? []), match]));
+
+    const replaceField = (item: Node | Edge, field: ReplaceField) => {
+        const fieldMatches = (byItem.get(item.id) ?? []).filter(match => match.field === field);
+        return fieldMatches.length > 0 ? replaceRanges(getFieldText(item, field), fieldMatches, replacement) : undefined;
+    };
+
+    return {
+        nodes: nodes.map(node => {
+            const label = replaceField(node, 'label');
+            const description = replaceField(node, 'description');
+            if (label === undefined && description === undefined) return node;
+            return {
+                ...node,
+                data: {
+                    ...node.data,
+                    ...(label !== undefined ? { label } : {}),
+                    ...(description !== undefined ? { description } : {}),
+                },
+            };
+        }),
+        edges: edges.map(edge => {
+            const label = replaceField(edge, 'edgeLabel');
+            return label === undefined ? edge : applyEdgeAppearance(edge, { label });
+        }),
+    };
+};
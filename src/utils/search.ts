@@ -0,0 +1,88 @@
+import { Node } from '@xyflow/react';
+import { DEFAULT_NODE_COLORS } from './export';
+import { getAbsolutePosition } from './groups';
+import { SYMBOL_NAMES } from './symbols';
+
+/**
+ * Node search: text (plain or regex) over labels and descriptions, narrowed by type and color.
+ * Empty lists mean no filter.
+ */
+export interface NodeSearchQuery {
+    text: string;
+    regex: boolean;
+    types: string[];
+    colors: string[];
+}
+
+export interface NodeSearchResult {
+    // Matching node IDs in reading order (top to bottom, then left to right)
+    matches: string[];
+    // Set when the regex does not compile
+    error?: string;
+}
+
+export const EMPTY_SEARCH_QUERY: NodeSearchQuery = { text: '', regex: false, types: [], colors: [] };
+
+export const NODE_TYPE_NAMES: Record<string, string> = {
+    start: 'Start',
+    end: 'End',
+    execution: 'Process',
+    subprocess: 'Sub-process',
+    condition: 'Decision',
+    switch: 'Switch',
+    swimlane: 'Lane',
+    group: 'Group',
+    ...SYMBOL_NAMES,
+};
+
+export const isSearchActive = (query: NodeSearchQuery) =>
+    query.text.trim() !== '' || query.types.length > 0 || query.colors.length > 0;
+
+/**
+ * Fill color of a node: its custom color or the default of its type
+ */
+export const getNodeColor = (node: Node) =>
+    ((node.data?.color as string | undefined) || DEFAULT_NODE_COLORS[node.type || ''] || '').toLowerCase();
+
+/**
+ * Case-insensitive matcher for the query text; throws on an invalid regex
+ */
+const createMatcher = (query: NodeSearchQuery): ((text: string) => boolean) => {
+    const text = query.text.trim();
+    if (!text) return () => true;
+    if (query.regex) {
+        const pattern = new RegExp(text, 'i');
+        return value => pattern.test(value);
+    }
+    const needle = text.toLowerCase();
+    return value => value.toLowerCase().includes(needle);
+};
+
+export const searchNodes = (nodes: Node[], query: NodeSearchQuery): NodeSearchResult => {
+    if (!isSearchActive(query)) return { matches: [] };
+
+    let matchText;
+    try {
+        matchText = createMatcher(query);
+    } catch (error) {
+        return { matches: [], error: (error as Error).message };
+    }
+
+    const colors = new Set(query.colors.map(color => color.toLowerCase()));
+    const matches = nodes.filter(node => {
+        if (query.types.length > 0 && !query.types.includes(node.type || '')) return false;
+        if (colors.size > 0 && !colors.has(getNodeColor(node))) return false;
+        const label = String(node.data?.label ?? '');
+        const description = String(node.data?.description ?? '');
+        return matchText(label) || matchText(description);
+    });
+
+    const positions = new Map(matches.map(node => [node.id, getAbsolutePosition(node, nodes)]));
+    matches.sort((a, b) => {
+        const pa = positions.get(a.id)!;
+        const pb = positions.get(b.id)!;
+        return pa.y - pb.y || pa.x - pb.x;
+    });
+
+    return { matches: matches.map(node => node.id) };
+};
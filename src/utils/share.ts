@@ -0,0 +1,60 @@
+import { loadProject, FlowchartProject } from './export';
+
+/**
+ * Share links carry a whole project in the URL hash (never sent to a server), e.g. `#share=z.<data>`
+ */
+export const SHARE_HASH_PREFIX = '#share=';
+
+// Payload formats: deflate-compressed JSON, or plain JSON where CompressionStream is missing
+const COMPRESSED = 'z';
+const PLAIN = 'j';
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const isShareLink = (hash: string) => hash.startsWith(SHARE_HASH_PREFIX);
+
+/**
+ * URL of the current app with the project encoded in its hash
+ */
+export const createShareLink = async (project: FlowchartProject): Promise<string> => {
+    const bytes = new TextEncoder().encode(JSON.stringify(project));
+    const payload = typeof CompressionStream === 'undefined'
+        ? `${PLAIN}.${toBase64Url(bytes)}`
+        : `${COMPRESSED}.${toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')))}`;
+    return `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}${payload}`;
+};
+
+/**
+ * Project encoded in a share link hash, or null if the link is damaged
+ */
+export const readShareLink = async (hash: string): Promise<FlowchartProject | null> => {
+    if (!isShareLink(hash)) return null;
+
+    const [format, data] = hash.slice(SHARE_HASH_PREFIX.length).split('.');
+    try {
+        let bytes = fromBase64Url(data || '');
+        if (format === COMPRESSED) {
+            bytes = await transform(bytes, new DecompressionStream('deflate-raw'));
+        } else if (format !== PLAIN) {
+            return null;
+        }
+        return loadProject(new TextDecoder().decode(bytes));
+    } catch (error) {
+        console.error('Error reading share link:', error);
+        return null;
+    }
+};
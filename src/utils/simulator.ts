@@ -0,0 +1,235 @@
+import { Node, Edge } from '@xyflow/react';
+import { getConnectorContinuation } from './symbols';
+import { getCaseHandleId, getSwitchCases } from './switchCases';
+
+/**
+ * Branch taken at a decision: 'True' or 'False' at a condition, the case label at a switch
+ */
+export type SimulationBranch = string;
+
+/**
+ * running  - ready for the next step
+ * waiting  - stopped at a condition or switch, needs a branch choice
+ * finished - reached an end node
+ * deadEnd  - the current node has no outgoing edge to follow
+ * loop     - an infinite loop was detected
+ * error    - the flowchart cannot be simulated (e.g. no start node)
+ */
+export type SimulationStatus = 'running' | 'waiting' | 'finished' | 'deadEnd' | 'loop' | 'error';
+
+export interface SimulationTraceEntry {
+    step: number;
+    nodeId: string;
+    label: string;
+    nodeType: string;
+    branch?: SimulationBranch;
+}
+
+export interface SimulationState {
+    status: SimulationStatus;
+    currentNodeId: string | null;
+    trace: SimulationTraceEntry[];
+    traversedEdgeIds: string[];
+    // Scripted answers consumed in order at each condition or switch
+    answers: string[];
+    answerIndex: number;
+    // Step of the most recent condition decision, used for loop detection
+    lastDecisionStep: number;
+    lastVisitStep: Record<string, number>;
+    message: string;
+}
+
+export interface SimulationOptions {
+    startNodeId?: string;
+    answers?: string[];
+    // Hard stop for long scripted runs
+    maxSteps?: number;
+}
+
+const DEFAULT_MAX_STEPS = 1000;
+
+// Source handles followed for each node type
+const NEXT_HANDLES: Record<string, Record<string, string[]>> = {
+    start: { next: ['start-bottom'] },
+    execution: { next: ['execution-bottom'] },
+    subprocess: { next: ['subprocess-bottom'] },
+    io: { next: ['io-bottom'] },
+    document: { next: ['document-bottom'] },
+    database: { next: ['database-bottom'] },
+    manual: { next: ['manual-bottom'] },
+    manualInput: { next: ['manualInput-bottom'] },
+    connector: { next: ['connector-bottom'] },
+    condition: {
+        True: ['condition-bottom-true'],
+        False: ['condition-left-false', 'condition-right-false'],
+    },
+};
+
+const getLabel = (node: Node) => (node.data?.label as string) || node.type || node.id;
+
+/**
+ * Parse a scripted answer list such as "True, False, yes, n, Awaiting approval".
+ * Answers are separated by commas or line breaks, so case labels may contain spaces.
+ * They are interpreted at the decision that consumes them (see resolveBranch).
+ */
+export const parseSimulationAnswers = (text: string): string[] =>
+    text
+        .split(/[,\n]/)
+        .map(answer => answer.trim())
+        .filter(Boolean);
+
+/**
+ * Branch named by an answer: conditions read it as yes/no, switches match a case label or 1-based case number.
+ * Returns undefined for answers the decision does not recognise.
+ */
+const resolveBranch = (node: Node, answer: string): SimulationBranch | undefined => {
+    if (node.type === 'condition') {
+        if (/^(?:t|true|y|yes|1)$/i.test(answer)) return 'True';
+        if (/^(?:f|false|n|no|0)$/i.test(answer)) return 'False';
+        return undefined;
+    }
+    const cases = getSwitchCases(node);
+    const match = cases.find(c => c.label.trim().toLowerCase() === answer.trim().toLowerCase())
+        ?? (/^\d+$/.test(answer) ? cases[Number(answer) - 1] : undefined);
+    return match?.label;
+};
+
+const isDecision = (node: Node) => node.type === 'condition' || node.type === 'switch';
+
+const getChoicePrompt = (node: Node) =>
+    node.type === 'switch' ? `Switch "${getLabel(node)}": choose a case.` : `Decision "${getLabel(node)}": choose True or False.`;
+
+const enterNode = (state: SimulationState, node: Node, branch?: SimulationBranch): SimulationState => {
+    const step = state.trace.length + 1;
+    const trace = [...state.trace];
+
+    // Record the branch on the decision entry that was just decided
+    if (branch && trace.length > 0) {
+        trace[trace.length - 1] = { ...trace[trace.length - 1], branch };
+    }
+    trace.push({ step, nodeId: node.id, label: getLabel(node), nodeType: node.type || 'execution' });
+
+    const lastDecisionStep = branch ? step - 1 : state.lastDecisionStep;
+    const previousVisit = state.lastVisitStep[node.id];
+    const next: SimulationState = {
+        ...state,
+        currentNodeId: node.id,
+        trace,
+        lastDecisionStep,
+        lastVisitStep: { ...state.lastVisitStep, [node.id]: step },
+    };
+
+    // Reaching the same node again without any decision in between can never terminate
+    if (previousVisit !== undefined && lastDecisionStep < previousVisit) {
+        return { ...next, status: 'loop', message: `Infinite loop: "${getLabel(node)}" is reached again without passing a decision.` };
+    }
+
+    switch (node.type) {
+        case 'end':
+            return { ...next, status: 'finished', message: `Finished at "${getLabel(node)}".` };
+        case 'condition':
+        case 'switch':
+            return next.answerIndex < next.answers.length
+                ? { ...next, status: 'running', message: `Decision "${getLabel(node)}" will use the scripted answer.` }
+                : { ...next, status: 'waiting', message: getChoicePrompt(node) };
+        default:
+            return { ...next, status: 'running', message: '' };
+    }
+};
+
+/**
+ * Start a simulation at the given (or first) start node
+ */
+export const startSimulation = (nodes: Node[], _edges: Edge[], options: SimulationOptions = {}): SimulationState => {
+    const initial: SimulationState = {
+        status: 'running',
+        currentNodeId: null,
+        trace: [],
+        traversedEdgeIds: [],
+        answers: options.answers || [],
+        answerIndex: 0,
+        lastDecisionStep: 0,
+        lastVisitStep: {},
+        message: '',
+    };
+
+    const startNode = options.startNodeId
+        ? nodes.find(n => n.id === options.startNodeId && n.type === 'start')
+        : nodes.find(n => n.type === 'start');
+
+    if (!startNode) {
+        return { ...initial, status: 'error', message: 'No Start node found.' };
+    }
+
+    return enterNode(initial, startNode);
+};
+
+/**
+ * Advance the simulation by one edge. At a condition or switch the branch comes from
+ * `branch`, or from the next scripted answer when none is given.
+ */
+export const stepSimulation = (
+    state: SimulationState,
+    nodes: Node[],
+    edges: Edge[],
+    branch?: SimulationBranch,
+    maxSteps: number = DEFAULT_MAX_STEPS
+): SimulationState => {
+    if (state.status !== 'running' && state.status !== 'waiting') return state;
+
+    const current = nodes.find(n => n.id === state.currentNodeId);
+    if (!current) {
+        return { ...state, status: 'error', message: 'The current node no longer exists.' };
+    }
+
+    if (state.trace.length >= maxSteps) {
+        return { ...state, status: 'loop', message: `Stopped after ${maxSteps} steps: possible infinite loop.` };
+    }
+
+    let handles: string[];
+    let chosenBranch: SimulationBranch | undefined;
+    let answerIndex = state.answerIndex;
+
+    if (isDecision(current)) {
+        let answer = branch;
+        if (!answer && answerIndex < state.answers.length) {
+            answer = state.answers[answerIndex];
+            answerIndex++;
+        }
+        if (!answer) {
+            return { ...state, status: 'waiting', message: getChoicePrompt(current) };
+        }
+        chosenBranch = resolveBranch(current, answer);
+        if (!chosenBranch) {
+            const message = current.type === 'condition'
+                ? `Dead end: "${getLabel(current)}" expects True or False, not "${answer}".`
+                : `Dead end: "${getLabel(current)}" has no case "${answer}".`;
+            return { ...state, answerIndex, status: 'deadEnd', message };
+        }
+        handles = current.type === 'switch'
+            ? getSwitchCases(current).filter(c => c.label === chosenBranch).map(c => getCaseHandleId(c.id))
+            : NEXT_HANDLES.condition[chosenBranch];
+    } else {
+        handles = NEXT_HANDLES[current.type || 'execution']?.next || [];
+    }
+
+    const edge = edges.find(e => e.source === current.id && handles.includes(e.sourceHandle || ''));
+    const target = edge && nodes.find(n => n.id === edge.target);
+
+    // An off-page connector without an outgoing line continues at its counterpart
+    const continuation = !edge ? getConnectorContinuation(current, nodes, edges) : undefined;
+    if (continuation) {
+        return enterNode({ ...state, answerIndex }, continuation);
+    }
+
+    if (!edge || !target) {
+        const where = chosenBranch ? `${chosenBranch} branch of "${getLabel(current)}"` : `"${getLabel(current)}"`;
+        return { ...state, answerIndex, status: 'deadEnd', message: `Dead end: ${where} has no outgoing connection.` };
+    }
+
+    return enterNode(
+        { ...state, answerIndex, traversedEdgeIds: [...state.traversedEdgeIds, edge.id] },
+        target,
+        chosenBranch
+    );
+};
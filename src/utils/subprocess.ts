@@ -0,0 +1,136 @@
+import { Node, Edge } from '@xyflow/react';
+import { isContainerNode } from './groups';
+
+/**
+ * Chart a sub-process node points at: a page of the current project or an external .fchart file
+ */
+export interface SubprocessReference {
+    pageId?: string;
+    fileName?: string;
+}
+
+/**
+ * How exports treat sub-process nodes: keep them as a single call or splice the referenced chart in
+ */
+export type SubprocessMode = 'reference' | 'inline';
+
+/**
+ * Chart resolved for inlining
+ */
+export interface SubprocessChart<T extends Node = Node> {
+    nodes: T[];
+    edges: Edge[];
+}
+
+// Nested sub-processes deeper than this are left as references
+const MAX_INLINE_DEPTH = 8;
+
+/**
+ * Read the reference stored on a sub-process node
+ */
+export const getSubprocessReference = (node: Node): SubprocessReference | undefined =>
+    node.type === 'subprocess' ? (node.data?.subprocess as SubprocessReference | undefined) : undefined;
+
+/**
+ * Replace sub-process nodes with the contents of the pages they reference.
+ * The child's Start/End nodes are dropped: edges entering the sub-process are routed to the nodes
+ * after the child's Start, and edges leaving the child towards its End continue to the sub-process's
+ * successors. Spliced IDs are prefixed with the sub-process ID so repeated references stay unique.
+ * References that cannot be resolved (e.g. external files) or that recurse stay as single nodes.
+ */
+export const inlineSubprocesses = <T extends Node>(
+    nodes: T[],
+    edges: Edge[],
+    resolvePage: (pageId: string) => SubprocessChart<T> | undefined,
+    ancestors: string[] = []
+): SubprocessChart<T> => {
+    if (ancestors.length >= MAX_INLINE_DEPTH) return { nodes, edges };
+
+    const resultNodes: T[] = [];
+    let resultEdges = [...edges];
+
+    nodes.forEach(node => {
+        const pageId = getSubprocessReference(node)?.pageId;
+        const page = pageId && !ancestors.includes(pageId) ? resolvePage(pageId) : undefined;
+        if (!pageId || !page) {
+            resultNodes.push(node);
+            return;
+        }
+
+        const child = inlineSubprocesses(page.nodes, page.edges, resolvePage, [...ancestors, pageId]);
+        const prefix = (id: string) => `${node.id}__${id}`;
+        const childTypes = new Map(child.nodes.map(n => [n.id, n.type]));
+        const incoming = resultEdges.filter(e => e.target === node.id);
+        const outgoing = resultEdges.filter(e => e.source === node.id);
+        // Without successors the child's End nodes are kept so the flow still terminates
+        const dropEnds = outgoing.length > 0;
+        const isDropped = (id: string) => childTypes.get(id) === 'start' || (dropEnds && childTypes.get(id) === 'end');
+
+        const offset = { x: node.position.x, y: node.position.y };
+        const origin = child.nodes.filter(n => !n.parentId).reduce(
+            (min, n) => ({ x: Math.min(min.x, n.position.x), y: Math.min(min.y, n.position.y) }),
+            { x: Infinity, y: Infinity }
+        );
+        child.nodes.filter(n => !isDropped(n.id)).forEach(n => {
+            // Lane/group members keep their relative position; top-level nodes join the sub-process's lane
+            if (n.parentId) {
+                resultNodes.push({ ...n, id: prefix(n.id), parentId: prefix(n.parentId), selected: false });
+                return;
+            }
+            const parentId = isContainerNode(n) ? undefined : node.parentId;
+            resultNodes.push({
+                ...n,
+                id: prefix(n.id),
+                ...(parentId ? { parentId } : {}),
+                position: { x: offset.x + n.position.x - origin.x, y: offset.y + n.position.y - origin.y },
+                selected: false,
+            });
+        });
+
+        // Entry points: what the child's Start nodes lead to (an empty child leads straight to its End)
+        const entries = child.edges
+            .filter(e => childTypes.get(e.source) === 'start' && childTypes.has(e.target))
+            .map(e => ({ target: e.target, targetHandle: e.targetHandle }));
+        // Exit points: edges arriving at the child's End nodes
+        const exits = child.edges.filter(e => childTypes.get(e.target) === 'end' && childTypes.has(e.source));
+
+        const spliced: Edge[] = child.edges
+            .filter(e => !isDropped(e.source) && !isDropped(e.target))
+            .map(e => ({ ...e, id: prefix(e.id), source: prefix(e.source), target: prefix(e.target), selected: false }));
+
+        incoming.forEach(inEdge => {
+            entries.forEach((entry, index) => {
+                if (!isDropped(entry.target)) {
+                    spliced.push({ ...inEdge, id: `${inEdge.id}__in${index}`, target: prefix(entry.target), targetHandle: entry.targetHandle });
+                    return;
+                }
+                // Start connects directly to End: bypass the sub-process entirely
+                outgoing.forEach((outEdge, outIndex) => {
+                    spliced.push({ ...inEdge, id: `${inEdge.id}__through${index}_${outIndex}`, target: outEdge.target, targetHandle: outEdge.targetHandle });
+                });
+            });
+        });
+
+        outgoing.forEach(outEdge => {
+            exits.filter(exit => !isDropped(exit.source)).forEach((exit, index) => {
+                spliced.push({
+                    ...exit,
+                    id: `${outEdge.id}__out${index}`,
+                    source: prefix(exit.source),
+                    target: outEdge.target,
+                    targetHandle: outEdge.targetHandle,
+                    selected: false,
+                });
+            });
+        });
+
+        resultEdges = [
+            ...resultEdges.filter(e => e.source !== node.id && e.target !== node.id),
+            ...spliced,
+        ];
+    });
+
+    // Drop edges whose endpoints were not carried over (e.g. dangling edges in the child page)
+    const ids = new Set(resultNodes.map(n => n.id));
+    return { nodes: resultNodes, edges: resultEdges.filter(e => ids.has(e.source) && ids.has(e.target)) };
+};
@@ -0,0 +1,87 @@
+import { Node } from '@xyflow/react';
+
+/**
+ * One outcome of a switch node; the ID is stable so edges survive renames and reordering
+ */
+export interface SwitchCase {
+    id: string;
+    label: string;
+}
+
+export const SWITCH_TARGET_HANDLE = 'switch-top';
+const CASE_HANDLE_PREFIX = 'switch-case-';
+
+// Width given to each case along the bottom edge of the node
+const CASE_WIDTH = 80;
+export const SWITCH_MIN_SIZE = { width: 200, height: 110 };
+
+// Case labels treated as the fallback branch by code generation
+const DEFAULT_CASE_PATTERN = /^(?:default|else|other|otherwise)$/i;
+
+export const isSwitchNode = (node: Node | undefined) => node?.type === 'switch';
+
+/**
+ * Cases of a switch node, in handle order
+ */
+export const getSwitchCases = (node: Node | undefined): SwitchCase[] =>
+    isSwitchNode(node) && Array.isArray(node!.data?.cases) ? (node!.data.cases as SwitchCase[]) : [];
+
+export const getCaseHandleId = (caseId: string) => `${CASE_HANDLE_PREFIX}${caseId}`;
+
+export const getCaseIdFromHandle = (handle: string | null | undefined): string | undefined =>
+    handle?.startsWith(CASE_HANDLE_PREFIX) ? handle.slice(CASE_HANDLE_PREFIX.length) : undefined;
+
+/**
+ * Case reached through a source handle of the given switch node
+ */
+export const getSwitchCase = (node: Node | undefined, handle: string | null | undefined): SwitchCase | undefined => {
+    const caseId = getCaseIdFromHandle(handle);
+    return caseId === undefined ? undefined : getSwitchCases(node).find(c => c.id === caseId);
+};
+
+/**
+ * New case with an ID not yet used by the node ("c1", "c2", ...)
+ */
+export const createSwitchCase = (label: string, existing: SwitchCase[] = []): SwitchCase => {
+    const used = new Set(existing.map(c => c.id));
+    let index = existing.length + 1;
+    while (used.has(`c${index}`)) index++;
+    return { id: `c${index}`, label };
+};
+
+/**
+ * Cases from a list of labels (used for new nodes and imports)
+ */
+export const createSwitchCases = (labels: string[]): SwitchCase[] =>
+    labels.reduce<SwitchCase[]>((cases, label) => [...cases, createSwitchCase(label, cases)], []);
+
+export const DEFAULT_SWITCH_CASES = ['Case 1', 'Case 2', 'Case 3'];
+
+export const isDefaultCaseLabel = (label: string) => DEFAULT_CASE_PATTERN.test(label.trim());
+
+/**
+ * Size that leaves room for every case handle and label
+ */
+export const getSwitchSize = (caseCount: number) => ({
+    width: Math.max(SWITCH_MIN_SIZE.width, caseCount * CASE_WIDTH + 40),
+    height: SWITCH_MIN_SIZE.height,
+});
+
+// Height of the row of case cells along the bottom of the node
+export const CASE_ROW_HEIGHT = 30;
+
+/**
+ * Horizontal center of a case cell (and its handle) as a fraction of the node width
+ */
+export const getCaseOffset = (index: number, caseCount: number) => (index + 0.5) / Math.max(caseCount, 1);
+
+/**
+ * Layout bias of a case: earlier cases pull their target to the left, later ones to the right
+ */
+export const getCaseBias = (node: Node | undefined, handle: string | null | undefined): number => {
+    const cases = getSwitchCases(node);
+    const caseId = getCaseIdFromHandle(handle);
+    const index = cases.findIndex(c => c.id === caseId);
+    if (index < 0 || cases.length < 2) return 0;
+    return (index - (cases.length - 1) / 2) * (0.5 / (cases.length - 1));
+};
@@ -0,0 +1,132 @@
+import { Node, Edge } from '@xyflow/react';
+import { isContainerNode } from './groups';
+
+/**
+ * ISO 5807 symbols beyond the basic start/end/process/decision set
+ */
+export type SymbolType = 'io' | 'document' | 'database' | 'manual' | 'manualInput' | 'connector' | 'comment';
+
+export const SYMBOL_TYPES: SymbolType[] = ['io', 'document', 'database', 'manual', 'manualInput', 'connector', 'comment'];
+
+/**
+ * Display names (sidebar, text export, default labels)
+ */
+export const SYMBOL_NAMES: Record<SymbolType, string> = {
+    io: 'Input/Output',
+    document: 'Document',
+    database: 'Stored Data',
+    manual: 'Manual Operation',
+    manualInput: 'Manual Input',
+    connector: 'Off-page Connector',
+    comment: 'Comment',
+};
+
+export const SYMBOL_COLORS: Record<SymbolType, string> = {
+    io: '#06b6d4',
+    document: '#14b8a6',
+    database: '#6366f1',
+    manual: '#f97316',
+    manualInput: '#ec4899',
+    connector: '#64748b',
+    comment: '#94a3b8',
+};
+
+export const SYMBOL_SIZES: Record<SymbolType, { width: number; height: number }> = {
+    io: { width: 170, height: 80 },
+    document: { width: 160, height: 90 },
+    database: { width: 130, height: 100 },
+    manual: { width: 170, height: 80 },
+    manualInput: { width: 170, height: 80 },
+    connector: { width: 70, height: 60 },
+    comment: { width: 180, height: 70 },
+};
+
+// Horizontal padding (fraction of the width) that keeps labels inside slanted or curved outlines
+export const SYMBOL_TEXT_INSET: Record<SymbolType, number> = {
+    io: 0.15,
+    document: 0.08,
+    database: 0.08,
+    manual: 0.18,
+    manualInput: 0.08,
+    connector: 0.1,
+    comment: 0.12,
+};
+
+export const isSymbolType = (type: string | undefined): type is SymbolType =>
+    SYMBOL_TYPES.includes(type as SymbolType);
+
+/**
+ * Outline of a symbol filling the box (x, y, width, height), as SVG path data
+ */
+export const getSymbolPath = (type: SymbolType, x: number, y: number, w: number, h: number): string => {
+    const px = (f: number) => x + w * f;
+    const py = (f: number) => y + h * f;
+
+    switch (type) {
+        case 'io':
+            return `M${px(0.12)},${y} H${x + w} L${px(0.88)},${y + h} H${x} Z`;
+        case 'manual':
+            return `M${x},${y} H${x + w} L${px(0.85)},${y + h} H${px(0.15)} Z`;
+        case 'manualInput':
+            return `M${x},${py(0.3)} L${x + w},${y} V${y + h} H${x} Z`;
+        case 'document':
+            return `M${x},${y} H${x + w} V${py(0.85)} Q${px(0.75)},${py(0.7)} ${px(0.5)},${py(0.85)} T${x},${py(0.85)} Z`;
+        case 'database': {
+            const ry = Math.min(h * 0.12, 14);
+            const rx = w / 2;
+            return `M${x},${y + ry} A${rx},${ry} 0 0 1 ${x + w},${y + ry} V${y + h - ry} A${rx},${ry} 0 0 1 ${x},${y + h - ry} Z `
+                + `M${x},${y + ry} A${rx},${ry} 0 0 0 ${x + w},${y + ry}`;
+        }
+        case 'connector':
+            return `M${x},${y} H${x + w} V${py(0.6)} L${px(0.5)},${y + h} L${x},${py(0.6)} Z`;
+        case 'comment':
+            return `M${px(0.12)},${y} H${x} V${y + h} H${px(0.12)}`;
+    }
+};
+
+/**
+ * Comment nodes annotate the chart; they and their edges are not part of the control flow
+ */
+export const isAnnotationNode = (node: Node | undefined) => node?.type === 'comment';
+
+/**
+ * Where the flow continues after an off-page connector with no outgoing edge:
+ * the connector with the same label that does have outgoing edges
+ */
+export const getConnectorContinuation = <T extends Node>(node: T, nodes: T[], edges: Edge[]): T | undefined => {
+    if (node.type !== 'connector' || edges.some(e => e.source === node.id)) return undefined;
+    const label = ((node.data?.label as string) || '').trim();
+    if (!label) return undefined;
+
+    return nodes.find(n =>
+        n.id !== node.id &&
+        n.type === 'connector' &&
+        ((n.data?.label as string) || '').trim() === label &&
+        edges.some(e => e.source === n.id)
+    );
+};
+
+/**
+ * Control-flow view of a chart: annotations and lanes/groups removed and matching connectors joined by virtual edges
+ */
+export const getControlFlow = <T extends Node>(nodes: T[], edges: Edge[]): { nodes: T[]; edges: Edge[] } => {
+    const flowNodes = nodes.filter(n => !isAnnotationNode(n) && !isContainerNode(n));
+    const ids = new Set(flowNodes.map(n => n.id));
+    const flowEdges = edges.filter(e => ids.has(e.source) && ids.has(e.target));
+    const links: Edge[] = [];
+
+    flowNodes.forEach(node => {
+        const continuation = getConnectorContinuation(node, flowNodes, flowEdges);
+        if (continuation) {
+            links.push({
+                id: `connector_${node.id}_${continuation.id}`,
+                source: node.id,
+                target: continuation.id,
+                sourceHandle: 'connector-bottom',
+                targetHandle: 'connector-top',
+            });
+        }
+    });
+
+    return { nodes: flowNodes, edges: [...flowEdges, ...links] };
+};
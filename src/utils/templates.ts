@@ -0,0 +1,184 @@
+import { createFlowEdges, createFlowNodes, createProjectPage, loadProject, FlowchartPage, FlowchartProjectEdge, FlowchartProjectNode } from './export';
+import { idbDelete, idbGetAll, idbSet } from './idb';
+import { computeAutoLayout } from './layout';
+import { parseMermaid } from './mermaid';
+
+/**
+ * Reusable piece of a chart; built-in templates ship with the app, the others live in IndexedDB
+ */
+export interface FlowchartTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    createdAt: string;
+    builtIn?: boolean;
+    nodes: FlowchartProjectNode[];
+    edges: FlowchartProjectEdge[];
+}
+
+const TEMPLATE_FILE_FORMAT = 'flowchart-builder/templates';
+
+/**
+ * Exported template file (.json)
+ */
+export interface FlowchartTemplateFile {
+    format: typeof TEMPLATE_FILE_FORMAT;
+    version: 1;
+    templates: FlowchartTemplate[];
+}
+
+// Built-ins are written as Mermaid and laid out on first use
+const BUILT_IN_SOURCES: { id: string; name: string; description: string; source: string }[] = [
+    {
+        id: 'login',
+        name: 'Login Flow',
+        description: 'Credentials check with two-factor step, retry and account lock',
+        source: `flowchart TD
+            start(["Start"]) --> form[/"Enter username and password"/]
+            form --> valid{"Credentials valid?"}
+            valid -->|Yes| mfa{"2FA enabled?"}
+            mfa -->|Yes| code[/"Enter verification code"/]
+            code --> session["Create session"]
+            mfa -->|No| session
+            valid -->|No| attempts{"Too many attempts?"}
+            attempts -->|No| error["Show error message"]
+            error --> form
+            attempts -->|Yes| lock["Lock account"]
+            lock --> locked(["End"])
+            session --> done(["End"])`,
+    },
+    {
+        id: 'approval',
+        name: 'Approval Process',
+        description: 'Manager review, finance sign-off above a limit, and rework on rejection',
+        source: `flowchart TD
+            start(["Request submitted"]) --> review["Manager review"]
+            review --> approved{"Approved?"}
+            approved -->|Yes| amount{"Amount over limit?"}
+            amount -->|Yes| finance["Finance review"]
+            finance --> signed{"Approved?"}
+            signed -->|Yes| notify["Notify requester"]
+            signed -->|No| rework["Send back with comments"]
+            amount -->|No| notify
+            approved -->|No| rework
+            rework --> revise[/"Requester revises request"/]
+            revise --> review
+            notify --> done(["End"])`,
+    },
+    {
+        id: 'retry',
+        name: 'Retry Loop',
+        description: 'Call a service and retry with backoff up to a maximum number of attempts',
+        source: `flowchart TD
+            start(["Start"]) --> init["attempt = 0"]
+            init --> call["Call service"]
+            call --> ok{"Succeeded?"}
+            ok -->|Yes| done(["End"])
+            ok -->|No| more{"attempt < max retries?"}
+            more -->|Yes| wait["Wait with backoff, attempt += 1"]
+            wait --> call
+            more -->|No| fail["Report failure"]
+            fail --> done`,
+    },
+];
+
+let builtInTemplates: FlowchartTemplate[] | null = null;
+
+export const getBuiltInTemplates = (): FlowchartTemplate[] => {
+    if (!builtInTemplates) {
+        builtInTemplates = BUILT_IN_SOURCES.map(({ id, name, description, source }) => {
+            const result = parseMermaid(source, { createId: mermaidId => `${id}_${mermaidId}` });
+            const edges = createFlowEdges(result.edges);
+            const page = createProjectPage({
+                id,
+                name,
+                nodes: computeAutoLayout(createFlowNodes(result.nodes), edges),
+                edges,
+            } as FlowchartPage);
+            return { id: `builtin_${id}`, name, description, createdAt: '', builtIn: true, nodes: page.nodes, edges: page.edges };
+        });
+    }
+    return builtInTemplates;
+};
+
+let templateCounter = 0;
+
+export const createTemplateId = () => `template_${Date.now()}_${templateCounter++}`;
+
+export const createTemplate = (
+    name: string,
+    content: { nodes: FlowchartProjectNode[]; edges: FlowchartProjectEdge[] },
+    description?: string
+): FlowchartTemplate => ({
+    id: createTemplateId(),
+    name,
+    ...(description ? { description } : {}),
+    createdAt: new Date().toISOString(),
+    nodes: content.nodes,
+    edges: content.edges,
+});
+
+/**
+ * Saved templates, newest first
+ */
+export const loadTemplates = async (): Promise<FlowchartTemplate[]> => {
+    const templates = await idbGetAll<FlowchartTemplate>('templates');
+    return templates.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const storeTemplate = (template: FlowchartTemplate) => idbSet('templates', template.id, template);
+
+export const deleteTemplate = (templateId: string) => idbDelete('templates', templateId);
+
+export const createTemplateFile = (templates: FlowchartTemplate[]): FlowchartTemplateFile => ({
+    format: TEMPLATE_FILE_FORMAT,
+    version: 1,
+    templates: templates.map(({ builtIn: _builtIn, ...template }) => template),
+});
+
+/**
+ * Templates in an exported template file, or one per page of a project file; null if neither.
+ * Imported templates get new IDs so that they never replace saved ones.
+ */
+export const readTemplateFile = (fileContent: string): FlowchartTemplate[] | null => {
+    let data;
+    try {
+        data = JSON.parse(fileContent);
+    } catch (error) {
+        console.error('Failed to read template file:', error);
+        return null;
+    }
+
+    if (data?.format === TEMPLATE_FILE_FORMAT) {
+        if (!Array.isArray(data.templates)) return null;
+        const templates = (data.templates as FlowchartTemplate[]).filter(t =>
+            typeof t?.name === 'string' && Array.isArray(t.nodes) && Array.isArray(t.edges) && t.nodes.length > 0);
+        return templates.map(({ builtIn: _builtIn, ...template }) => ({
+            ...template,
+            id: createTemplateId(),
+            createdAt: template.createdAt || new Date().toISOString(),
+        }));
+    }
+
+    const project = loadProject(fileContent);
+    if (!project) return null;
+    return project.pages
+        .filter(page => page.nodes.length > 0)
+        .map(page => createTemplate(page.name, { nodes: page.nodes, edges: page.edges }));
+};
+
+/**
+ * Download templates as a file that can be imported in another browser
+ */
+export const exportTemplates = (templates: FlowchartTemplate[], fileName: string = 'templates.json'): void => {
+    const jsonString = JSON.stringify(createTemplateFile(templates), null, 2);
+    const blob = new Blob([jsonString], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    link.click();
+
+    URL.revokeObjectURL(url);
+};
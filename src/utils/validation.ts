@@ -0,0 +1,221 @@
+import { Node, Edge } from '@xyflow/react';
+import { getSubprocessReference } from './subprocess';
+import { getControlFlow } from './symbols';
+import { getCaseHandleId, getSwitchCases } from './switchCases';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+    | 'noStart'
+    | 'multipleStarts'
+    | 'unreachable'
+    | 'noPathToEnd'
+    | 'missingTrueBranch'
+    | 'missingFalseBranch'
+    | 'missingCaseBranch'
+    | 'duplicateCase'
+    | 'orphanEdge'
+    | 'unlinkedSubprocess'
+    | 'emptyLabel';
+
+/**
+ * A single structural problem found in the flowchart
+ */
+export interface Diagnostic {
+    id: string;
+    code: DiagnosticCode;
+    severity: DiagnosticSeverity;
+    message: string;
+    nodeId?: string;
+    edgeId?: string;
+}
+
+const getLabel = (node: Node) => ((node.data?.label as string) || '').trim() || `(${node.type || 'node'} ${node.id})`;
+
+/**
+ * Collect every node reachable from `roots` following `adjacency`
+ */
+const collectReachable = (roots: string[], adjacency: Map<string, string[]>): Set<string> => {
+    const visited = new Set<string>(roots);
+    const queue = [...roots];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        (adjacency.get(id) || []).forEach(next => {
+            if (!visited.has(next)) {
+                visited.add(next);
+                queue.push(next);
+            }
+        });
+    }
+
+    return visited;
+};
+
+/**
+ * Validate flowchart structure and return diagnostics (errors first)
+ */
+export const validateFlowchart = (nodes: Node[], edges: Edge[]): Diagnostic[] => {
+    const diagnostics: Diagnostic[] = [];
+    const nodeIds = new Set(nodes.map(n => n.id));
+
+    // Orphan edges point to nodes that no longer exist
+    const validEdges = edges.filter(edge => {
+        if (nodeIds.has(edge.source) && nodeIds.has(edge.target)) return true;
+        diagnostics.push({
+            id: `orphanEdge:${edge.id}`,
+            code: 'orphanEdge',
+            severity: 'error',
+            message: `Edge ${edge.id} is connected to a missing node.`,
+            edgeId: edge.id,
+        });
+        return false;
+    });
+
+    if (nodes.length === 0) return diagnostics;
+
+    // Comments are left out of the flow checks; matching off-page connectors are joined
+    const flow = getControlFlow(nodes, validEdges);
+    const forward = new Map<string, string[]>();
+    const backward = new Map<string, string[]>();
+    flow.edges.forEach(edge => {
+        forward.set(edge.source, [...(forward.get(edge.source) || []), edge.target]);
+        backward.set(edge.target, [...(backward.get(edge.target) || []), edge.source]);
+    });
+
+    // Start nodes
+    const startNodes = nodes.filter(n => n.type === 'start');
+    if (startNodes.length === 0) {
+        diagnostics.push({
+            id: 'noStart',
+            code: 'noStart',
+            severity: 'error',
+            message: 'The flowchart has no Start node.',
+        });
+    } else if (startNodes.length > 1) {
+        startNodes.slice(1).forEach(node => {
+            diagnostics.push({
+                id: `multipleStarts:${node.id}`,
+                code: 'multipleStarts',
+                severity: 'warning',
+                message: `"${getLabel(node)}" is an additional Start node (${startNodes.length} in total).`,
+                nodeId: node.id,
+            });
+        });
+    }
+
+    // Reachability from the start nodes
+    if (startNodes.length > 0) {
+        const reachable = collectReachable(startNodes.map(n => n.id), forward);
+        flow.nodes.filter(n => !reachable.has(n.id)).forEach(node => {
+            diagnostics.push({
+                id: `unreachable:${node.id}`,
+                code: 'unreachable',
+                severity: 'error',
+                message: `"${getLabel(node)}" cannot be reached from a Start node.`,
+                nodeId: node.id,
+            });
+        });
+    }
+
+    // Every node should be able to reach an end node
+    const canFinish = collectReachable(nodes.filter(n => n.type === 'end').map(n => n.id), backward);
+    flow.nodes.filter(n => !canFinish.has(n.id)).forEach(node => {
+        diagnostics.push({
+            id: `noPathToEnd:${node.id}`,
+            code: 'noPathToEnd',
+            severity: 'error',
+            message: `"${getLabel(node)}" has no path to an End node.`,
+            nodeId: node.id,
+        });
+    });
+
+    // Conditions need both branches
+    nodes.filter(n => n.type === 'condition').forEach(node => {
+        const outgoing = validEdges.filter(e => e.source === node.id);
+        if (!outgoing.some(e => e.sourceHandle === 'condition-bottom-true')) {
+            diagnostics.push({
+                id: `missingTrueBranch:${node.id}`,
+                code: 'missingTrueBranch',
+                severity: 'error',
+                message: `Decision "${getLabel(node)}" has no True branch.`,
+                nodeId: node.id,
+            });
+        }
+        if (!outgoing.some(e => e.sourceHandle === 'condition-left-false' || e.sourceHandle === 'condition-right-false')) {
+            diagnostics.push({
+                id: `missingFalseBranch:${node.id}`,
+                code: 'missingFalseBranch',
+                severity: 'error',
+                message: `Decision "${getLabel(node)}" has no False branch.`,
+                nodeId: node.id,
+            });
+        }
+    });
+
+    // Every switch case needs its own outgoing edge; case labels should be distinct
+    nodes.filter(n => n.type === 'switch').forEach(node => {
+        const outgoing = validEdges.filter(e => e.source === node.id);
+        const cases = getSwitchCases(node);
+        if (cases.length === 0) {
+            diagnostics.push({
+                id: `missingCaseBranch:${node.id}`,
+                code: 'missingCaseBranch',
+                severity: 'error',
+                message: `Switch "${getLabel(node)}" has no cases.`,
+                nodeId: node.id,
+            });
+        }
+        cases.forEach(c => {
+            if (outgoing.some(e => e.sourceHandle === getCaseHandleId(c.id))) return;
+            diagnostics.push({
+                id: `missingCaseBranch:${node.id}:${c.id}`,
+                code: 'missingCaseBranch',
+                severity: 'error',
+                message: `Switch "${getLabel(node)}" has no connection for case "${c.label}".`,
+                nodeId: node.id,
+            });
+        });
+        const seen = new Set<string>();
+        cases.forEach(c => {
+            const key = c.label.trim().toLowerCase();
+            if (!seen.has(key)) {
+                seen.add(key);
+                return;
+            }
+            diagnostics.push({
+                id: `duplicateCase:${node.id}:${c.id}`,
+                code: 'duplicateCase',
+                severity: 'warning',
+                message: `Switch "${getLabel(node)}" has more than one case named "${c.label}".`,
+                nodeId: node.id,
+            });
+        });
+    });
+
+    // Sub-processes should point at a page or file
+    nodes.filter(n => n.type === 'subprocess').forEach(node => {
+        const reference = getSubprocessReference(node);
+        if (reference?.pageId || reference?.fileName) return;
+        diagnostics.push({
+            id: `unlinkedSubprocess:${node.id}`,
+            code: 'unlinkedSubprocess',
+            severity: 'warning',
+            message: `Sub-process "${getLabel(node)}" is not linked to a page or file.`,
+            nodeId: node.id,
+        });
+    });
+
+    // Empty labels
+    nodes.filter(n => !((n.data?.label as string) || '').trim()).forEach(node => {
+        diagnostics.push({
+            id: `emptyLabel:${node.id}`,
+            code: 'emptyLabel',
+            severity: 'warning',
+            message: `Empty label on ${node.type || 'node'} node ${node.id}.`,
+            nodeId: node.id,
+        });
+    });
+
+    return diagnostics.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
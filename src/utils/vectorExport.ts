@@ -0,0 +1,409 @@
+import { Node, Edge, Position, getBezierPath, getSmoothStepPath, getStraightPath } from '@xyflow/react';
+import { getNodeSize } from './layout';
+import { DEFAULT_NODE_COLORS } from './export';
+import { EDGE_COLORS, getEdgeAppearance } from './edgeStyle';
+import { getSymbolPath, isSymbolType, SYMBOL_TEXT_INSET } from './symbols';
+import { isContainerNode, getLaneOrientation, toAbsolutePositions, LANE_HEADER_SIZE, GROUP_HEADER_SIZE } from './groups';
+import { getCaseIdFromHandle, getCaseOffset, getSwitchCases, CASE_ROW_HEIGHT } from './switchCases';
+
+export type ExportBackground = 'theme' | 'transparent';
+
+export interface SvgExportOptions {
+    background?: ExportBackground;
+    selectedOnly?: boolean;
+    padding?: number;
+    // Keeps gradient and marker IDs unique when several charts share one document
+    idPrefix?: string;
+}
+
+export interface FlowchartSvg {
+    svg: string;
+    width: number;
+    height: number;
+}
+
+const FONT_FAMILY = "Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+const escapeXml = (text: string) =>
+    text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Same darkening as the canvas node gradients
+const darkenColor = (hex: string, percent: number) => {
+    const num = parseInt(hex.replace('#', ''), 16);
+    const amt = Math.round(2.55 * percent);
+    const R = Math.max(0, (num >> 16) - amt);
+    const G = Math.max(0, ((num >> 8) & 0x00FF) - amt);
+    const B = Math.max(0, (num & 0x0000FF) - amt);
+    return `#${(0x1000000 + R * 0x10000 + G * 0x100 + B).toString(16).slice(1)}`;
+};
+
+/**
+ * Background color of the current theme
+ */
+export const getThemeBackground = (): string =>
+    getComputedStyle(document.documentElement).getPropertyValue('--bg-primary').trim() || '#0a0a0f';
+
+/**
+ * Where an edge leaves or enters a node, derived from the handle ID
+ */
+const getHandlePoint = (node: Node, handle: string | null | undefined, fallback: Position) => {
+    const { width, height } = getNodeSize(node);
+    const { x, y } = node.position;
+
+    // Switch cases leave from the bottom, below their cell
+    const caseId = getCaseIdFromHandle(handle);
+    if (caseId !== undefined) {
+        const cases = getSwitchCases(node);
+        const index = Math.max(0, cases.findIndex(c => c.id === caseId));
+        return { x: x + width * getCaseOffset(index, cases.length), y: y + height, position: Position.Bottom };
+    }
+
+    const position = handle?.includes('left') ? Position.Left
+        : handle?.includes('right') ? Position.Right
+        : handle?.includes('top') ? Position.Top
+        : handle?.includes('bottom') ? Position.Bottom
+        : fallback;
+
+    switch (position) {
+        case Position.Left:
+            return { x, y: y + height / 2, position };
+        case Position.Right:
+            return { x: x + width, y: y + height / 2, position };
+        case Position.Top:
+            return { x: x + width / 2, y, position };
+        default:
+            return { x: x + width / 2, y: y + height, position };
+    }
+};
+
+/**
+ * Break a label into lines that fit `maxWidth` (approximate glyph widths)
+ */
+const wrapText = (text: string, maxWidth: number, fontSize: number): string[] => {
+    const charWidth = (char: string) => (/[　-鿿＀-￯]/.test(char) ? fontSize : fontSize * 0.56);
+    const lines: string[] = [];
+
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        let width = 0;
+        // Split on spaces, and between CJK characters which have no spaces
+        (paragraph.match(/[　-鿿＀-￯]|[^\s　-鿿＀-￯]+\s*|\s+/g) || ['']).forEach(word => {
+            const wordWidth = [...word].reduce((sum, char) => sum + charWidth(char), 0);
+            if (line && width + wordWidth > maxWidth) {
+                lines.push(line.trimEnd());
+                line = '';
+                width = 0;
+            }
+            line += word;
+            width += wordWidth;
+        });
+        lines.push(line.trimEnd());
+    });
+
+    return lines;
+};
+
+const renderText = (text: string, cx: number, cy: number, maxWidth: number, fontSize: number, fill: string, fontWeight: number) => {
+    const lines = wrapText(text, maxWidth, fontSize);
+    const lineHeight = fontSize * 1.3;
+    const top = cy - ((lines.length - 1) * lineHeight) / 2;
+    const spans = lines
+        .map((line, i) => `<tspan x="${cx}" y="${(top + i * lineHeight).toFixed(1)}">${escapeXml(line) || ' '}</tspan>`)
+        .join('');
+    return `<text text-anchor="middle" dominant-baseline="central" font-family="${escapeXml(FONT_FAMILY)}" font-size="${fontSize}" font-weight="${fontWeight}" fill="${fill}">${spans}</text>`;
+};
+
+const renderNode = (node: Node, gradientIds: Map<string, string>): string => {
+    const { width, height } = getNodeSize(node);
+    const { x, y } = node.position;
+    const color = (node.data?.color as string) || DEFAULT_NODE_COLORS[node.type || ''] || '#3b82f6';
+    const fill = `url(#${gradientIds.get(color)})`;
+    const stroke = `stroke="${color}" stroke-width="2"`;
+    const label = ((node.data?.label as string) || '').trim();
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+
+    if (isSymbolType(node.type)) {
+        // Comments are an open bracket with the text in the node color
+        const isComment = node.type === 'comment';
+        const path = `<path d="${getSymbolPath(node.type, x + 1, y + 1, width - 2, height - 2)}" fill="${isComment ? 'none' : fill}" ${stroke}/>`;
+        const text = renderText(label, cx, cy, width * (1 - SYMBOL_TEXT_INSET[node.type] * 2), 14, isComment ? color : 'white', 500);
+        return `<g data-id="${escapeXml(node.id)}">${path}${text}</g>`;
+    }
+
+    let shape: string;
+    let textWidth = width - 32;
+
+    switch (node.type) {
+        case 'start':
+        case 'end':
+            shape = `<ellipse cx="${cx}" cy="${cy}" rx="${width / 2 - 1}" ry="${height / 2 - 1}" fill="${fill}" ${stroke}/>`;
+            textWidth = width * 0.75;
+            break;
+        case 'condition':
+            shape = `<polygon points="${cx},${y} ${x + width},${cy} ${cx},${y + height} ${x},${cy}" fill="${fill}" ${stroke}/>`;
+            textWidth = width * 0.6;
+            break;
+        case 'switch': {
+            // Label on top, one cell per case along the bottom
+            const cases = getSwitchCases(node);
+            const rowTop = y + height - CASE_ROW_HEIGHT;
+            const cellWidth = width / Math.max(cases.length, 1);
+            shape = `<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${height - 2}" rx="10" fill="${fill}" ${stroke}/>`
+                + `<path d="M${x + 1},${rowTop} H${x + width - 1}${cases.slice(1).map((_, i) => ` M${x + cellWidth * (i + 1)},${rowTop} V${y + height - 1}`).join('')}" stroke="rgba(255,255,255,0.45)" stroke-width="1"/>`
+                + cases.map((c, i) => renderText(c.label, x + width * getCaseOffset(i, cases.length), rowTop + CASE_ROW_HEIGHT / 2, cellWidth - 8, 12, 'white', 600)).join('');
+            return `<g data-id="${escapeXml(node.id)}">${shape}${renderText(label, cx, y + (height - CASE_ROW_HEIGHT) / 2, width - 32, 14, 'white', 500)}</g>`;
+        }
+        case 'subprocess':
+            // Predefined process: rectangle with double vertical side bars
+            shape = `<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${height - 2}" rx="4" fill="${fill}" ${stroke}/>`
+                + `<path d="M${x + 12},${y + 1} V${y + height - 1} M${x + width - 12},${y + 1} V${y + height - 1}" stroke="rgba(255,255,255,0.7)" stroke-width="2"/>`;
+            textWidth = width - 48;
+            break;
+        default:
+            shape = `<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${height - 2}" rx="8" fill="${fill}" ${stroke}/>`;
+    }
+
+    const fontSize = node.type === 'start' || node.type === 'end' ? 16 : 14;
+    const fontWeight = node.type === 'start' || node.type === 'end' ? 600 : 500;
+    return `<g data-id="${escapeXml(node.id)}">${shape}${renderText(label, cx, cy, textWidth, fontSize, 'white', fontWeight)}</g>`;
+};
+
+// Lanes and groups are drawn below the edges: a translucent area with a title strip
+const renderContainer = (node: Node): string => {
+    const { width, height } = getNodeSize(node);
+    const { x, y } = node.position;
+    const color = (node.data?.color as string) || DEFAULT_NODE_COLORS[node.type || ''];
+    const label = escapeXml(((node.data?.label as string) || '').trim());
+    const text = `font-family="${escapeXml(FONT_FAMILY)}" font-size="14" font-weight="600" fill="${color}"`;
+
+    if (node.type === 'group') {
+        const frame = `<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${height - 2}" rx="10" fill="${color}" fill-opacity="0.06" stroke="${color}" stroke-width="2" stroke-dasharray="8 5"/>`;
+        const title = `<text x="${x + 14}" y="${y + GROUP_HEADER_SIZE / 2 + 2}" dominant-baseline="central" ${text}>${label}</text>`;
+        return `<g data-id="${escapeXml(node.id)}">${frame}${title}</g>`;
+    }
+
+    const vertical = getLaneOrientation(node) === 'vertical';
+    const area = `<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${height - 2}" rx="6" fill="${color}" fill-opacity="0.08" stroke="${color}" stroke-opacity="0.6" stroke-width="2"/>`;
+    const header = vertical
+        ? `<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${LANE_HEADER_SIZE}" rx="6" fill="${color}" fill-opacity="0.22"/>`
+        : `<rect x="${x + 1}" y="${y + 1}" width="${LANE_HEADER_SIZE}" height="${height - 2}" rx="6" fill="${color}" fill-opacity="0.22"/>`;
+    // Horizontal lanes read their title bottom to top along the left strip
+    const tx = vertical ? x + width / 2 : x + LANE_HEADER_SIZE / 2 + 1;
+    const ty = vertical ? y + LANE_HEADER_SIZE / 2 + 1 : y + height / 2;
+    const title = `<text x="${tx}" y="${ty}" text-anchor="middle" dominant-baseline="central"${vertical ? '' : ` transform="rotate(-90 ${tx} ${ty})"`} ${text}>${label}</text>`;
+    return `<g data-id="${escapeXml(node.id)}">${area}${header}${title}</g>`;
+};
+
+// Arrowhead shapes matching React Flow's built-in markers
+const renderMarker = (id: string, arrowhead: 'arrow' | 'arrowclosed', color: string) => {
+    const points = arrowhead === 'arrow' ? '-5,-4 0,0 -5,4' : '-5,-4 0,0 -5,4 -5,-4';
+    const fill = arrowhead === 'arrow' ? 'none' : color;
+    return `<marker id="${id}" viewBox="-10 -10 20 20" markerWidth="12.5" markerHeight="12.5" markerUnits="strokeWidth" orient="auto-start-reverse" refX="0" refY="0">`
+        + `<polyline points="${points}" fill="${fill}" stroke="${color}" stroke-width="1" stroke-linecap="round" stroke-linejoin="round"/></marker>`;
+};
+
+const renderEdge = (edge: Edge, nodeById: Map<string, Node>, markerIds: Map<string, string>): string => {
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target) return '';
+
+    const from = getHandlePoint(source, edge.sourceHandle, Position.Bottom);
+    const to = getHandlePoint(target, edge.targetHandle, Position.Top);
+    const params = {
+        sourceX: from.x,
+        sourceY: from.y,
+        sourcePosition: from.position,
+        targetX: to.x,
+        targetY: to.y,
+        targetPosition: to.position,
+    };
+
+    const [path, labelX, labelY] = edge.type === 'straight'
+        ? getStraightPath(params)
+        : edge.type === 'smoothstep' || edge.type === 'step'
+            ? getSmoothStepPath({ ...params, borderRadius: edge.type === 'step' ? 0 : 5 })
+            : getBezierPath(params);
+
+    const style = (edge.style || {}) as React.CSSProperties;
+    const stroke = (style.stroke as string) || EDGE_COLORS.default;
+    const strokeWidth = Number(style.strokeWidth) || 2;
+    const dash = style.strokeDasharray ? ` stroke-dasharray="${style.strokeDasharray}"` : '';
+    const { arrowhead } = getEdgeAppearance(edge);
+    const marker = arrowhead !== 'none' ? ` marker-end="url(#${markerIds.get(`${arrowhead}|${stroke}`)})"` : '';
+    let svg = `<path d="${path}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"${dash}${marker}/>`;
+
+    const label = typeof edge.label === 'string' ? edge.label : '';
+    if (label) {
+        const labelStyle = (edge.labelStyle || {}) as React.CSSProperties;
+        const fill = (labelStyle.fill as string) || stroke;
+        svg += renderText(label, labelX, labelY, 200, Number(labelStyle.fontSize) || 13, fill, Number(labelStyle.fontWeight) || 700);
+    }
+
+    return `<g data-id="${escapeXml(edge.id)}">${svg}</g>`;
+};
+
+/**
+ * Draw the flowchart (or the selected nodes and the edges between them) as a standalone SVG document
+ */
+export const buildFlowchartSvg = (nodes: Node[], edges: Edge[], options: SvgExportOptions = {}): FlowchartSvg => {
+    const padding = options.padding ?? 40;
+    const idPrefix = options.idPrefix ?? '';
+    const hasSelection = options.selectedOnly && nodes.some(n => n.selected);
+    // Children of lanes and groups are positioned relative to them
+    const absoluteNodes = toAbsolutePositions(nodes);
+    const includedNodes = hasSelection ? absoluteNodes.filter(n => n.selected) : absoluteNodes;
+    const nodeById = new Map(includedNodes.map(n => [n.id, n]));
+    const includedEdges = edges.filter(e => nodeById.has(e.source) && nodeById.has(e.target));
+
+    // Bounds of all included nodes
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    includedNodes.forEach(node => {
+        const { width, height } = getNodeSize(node);
+        minX = Math.min(minX, node.position.x);
+        minY = Math.min(minY, node.position.y);
+        maxX = Math.max(maxX, node.position.x + width);
+        maxY = Math.max(maxY, node.position.y + height);
+    });
+    if (includedNodes.length === 0) {
+        minX = minY = 0;
+        maxX = maxY = 0;
+    }
+
+    const width = Math.ceil(maxX - minX + padding * 2);
+    const height = Math.ceil(maxY - minY + padding * 2);
+    const viewBox = `${minX - padding} ${minY - padding} ${width} ${height}`;
+
+    // One gradient per node color
+    const gradientIds = new Map<string, string>();
+    includedNodes.filter(node => !isContainerNode(node)).forEach(node => {
+        const color = (node.data?.color as string) || DEFAULT_NODE_COLORS[node.type || ''] || '#3b82f6';
+        if (!gradientIds.has(color)) gradientIds.set(color, `${idPrefix}gradient-${gradientIds.size}`);
+    });
+    // One marker per arrowhead style and edge color
+    const markerIds = new Map<string, string>();
+    const markers: string[] = [];
+    includedEdges.forEach(edge => {
+        const { arrowhead } = getEdgeAppearance(edge);
+        const stroke = (edge.style?.stroke as string) || EDGE_COLORS.default;
+        const key = `${arrowhead}|${stroke}`;
+        if (arrowhead === 'none' || markerIds.has(key)) return;
+        markerIds.set(key, `${idPrefix}marker-${markerIds.size}`);
+        markers.push(renderMarker(markerIds.get(key)!, arrowhead, stroke));
+    });
+    const defs = [...gradientIds.entries()]
+        .map(([color, id]) =>
+            `<linearGradient id="${id}" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${color}"/><stop offset="1" stop-color="${darkenColor(color, 15)}"/></linearGradient>`)
+        .join('') + markers.join('');
+
+    const background = options.background === 'transparent'
+        ? ''
+        : `<rect x="${minX - padding}" y="${minY - padding}" width="${width}" height="${height}" fill="${getThemeBackground()}"/>`;
+
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox}">`,
+        `<defs>${defs}</defs>`,
+        background,
+        ...includedNodes.filter(node => isContainerNode(node)).map(renderContainer),
+        ...includedEdges.map(edge => renderEdge(edge, nodeById, markerIds)),
+        ...includedNodes.filter(node => !isContainerNode(node)).map(node => renderNode(node, gradientIds)),
+        '</svg>',
+    ].filter(Boolean).join('\n');
+
+    return { svg, width, height };
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    link.click();
+
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Export flowchart as an SVG file
+ */
+export const exportAsSvg = (nodes: Node[], edges: Edge[], options: SvgExportOptions = {}, fileName: string = 'flowchart.svg'): void => {
+    const { svg } = buildFlowchartSvg(nodes, edges, options);
+    downloadBlob(new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${svg}`], { type: 'image/svg+xml' }), fileName);
+};
+
+export type PdfPageMode = 'single' | 'multi';
+
+export interface PdfExportOptions extends SvgExportOptions {
+    // `single` sizes one page to the chart, `multi` tiles it across A4 pages
+    pageMode?: PdfPageMode;
+    landscape?: boolean;
+}
+
+// A4 at 96 CSS pixels per inch, minus a 10mm margin on each side
+const A4 = { width: 794, height: 1123 };
+const PAGE_MARGIN = 38;
+
+/**
+ * Export flowchart as PDF through the browser's print dialog ("Save as PDF"), which keeps text and shapes as vectors
+ */
+export const exportAsPdf = (nodes: Node[], edges: Edge[], options: PdfExportOptions = {}): void => {
+    const { svg, width, height } = buildFlowchartSvg(nodes, edges, options);
+    const background = options.background === 'transparent' ? 'transparent' : getThemeBackground();
+
+    let pageCss: string;
+    let body: string;
+    if (options.pageMode === 'multi') {
+        const pageWidth = (options.landscape ? A4.height : A4.width) - PAGE_MARGIN * 2;
+        const pageHeight = (options.landscape ? A4.width : A4.height) - PAGE_MARGIN * 2;
+        const columns = Math.ceil(width / pageWidth);
+        const rows = Math.ceil(height / pageHeight);
+        const viewBox = /viewBox="([^"]+)"/.exec(svg)![1].split(' ').map(Number);
+
+        // Every page shows a window of the same drawing
+        const pages: string[] = [];
+        for (let row = 0; row < rows; row++) {
+            for (let column = 0; column < columns; column++) {
+                const window = `${viewBox[0] + column * pageWidth} ${viewBox[1] + row * pageHeight} ${pageWidth} ${pageHeight}`;
+                pages.push(`<div class="page">${svg
+                    .replace(/width="\d+" height="\d+" viewBox="[^"]+"/, `width="${pageWidth}" height="${pageHeight}" viewBox="${window}"`)
+                    .replace(/gradient-(\d+)/g, `p${pages.length}-gradient-$1`)}</div>`);
+            }
+        }
+        pageCss = `@page { size: A4 ${options.landscape ? 'landscape' : 'portrait'}; margin: ${PAGE_MARGIN}px; }`;
+        body = pages.join('\n');
+    } else {
+        pageCss = `@page { size: ${width}px ${height}px; margin: 0; }`;
+        body = `<div class="page">${svg}</div>`;
+    }
+
+    const html = `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>flowchart</title><style>
+${pageCss}
+html, body { margin: 0; padding: 0; background: ${background}; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.page { break-after: page; }
+.page:last-child { break-after: auto; }
+svg { display: block; }
+</style></head><body>${body}</body></html>`;
+
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = 'none';
+    document.body.appendChild(iframe);
+
+    const frameWindow = iframe.contentWindow!;
+    frameWindow.document.open();
+    frameWindow.document.write(html);
+    frameWindow.document.close();
+
+    // Remove the frame once printing is done (or cancelled)
+    frameWindow.addEventListener('afterprint', () => setTimeout(() => iframe.remove(), 0));
+    setTimeout(() => {
+        frameWindow.focus();
+        frameWindow.print();
+    }, 100);
+};
@@ -0,0 +1,130 @@
+import { Node } from '@xyflow/react';
+import { FlowchartProject, FlowchartProjectEdge, FlowchartProjectNode, FlowchartProjectPage } from './export';
+import { getAbsolutePosition } from './groups';
+import { idbDelete, idbGetAll, idbSet } from './idb';
+
+export const DEFAULT_BRANCH = 'main';
+
+/**
+ * Snapshot of the whole project recorded on save; versions form a tree through `parentId`
+ */
+export interface FlowchartVersion {
+    id: string;
+    savedAt: string;
+    branch: string;
+    parentId?: string;
+    fileName?: string;
+    project: FlowchartProject;
+    stats: { pages: number; nodes: number; edges: number };
+}
+
+let versionCounter = 0;
+
+export const createVersion = (
+    project: FlowchartProject,
+    options: { branch: string; parentId?: string; fileName?: string }
+): FlowchartVersion => ({
+    id: `version_${Date.now()}_${versionCounter++}`,
+    savedAt: new Date().toISOString(),
+    branch: options.branch,
+    ...(options.parentId ? { parentId: options.parentId } : {}),
+    ...(options.fileName ? { fileName: options.fileName } : {}),
+    project,
+    stats: {
+        pages: project.pages.length,
+        nodes: project.pages.reduce((sum, page) => sum + page.nodes.length, 0),
+        edges: project.pages.reduce((sum, page) => sum + page.edges.length, 0),
+    },
+});
+
+// Page content without the viewport, which changes on every pan
+const getContentKey = (project: FlowchartProject) =>
+    JSON.stringify(project.pages.map(({ viewport: _viewport, ...page }) => page));
+
+/**
+ * Whether two projects hold the same pages, nodes and edges
+ */
+export const isSameContent = (a: FlowchartProject, b: FlowchartProject) => getContentKey(a) === getContentKey(b);
+
+/**
+ * Stored versions, newest first
+ */
+export const loadVersions = async (): Promise<FlowchartVersion[]> => {
+    const versions = await idbGetAll<FlowchartVersion>('versions');
+    return versions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const storeVersion = (version: FlowchartVersion) => idbSet('versions', version.id, version);
+
+export const deleteVersion = (versionId: string) => idbDelete('versions', versionId);
+
+/**
+ * Differences between a page of a version (before) and the same page now (after)
+ */
+export interface PageDiff {
+    // IDs of nodes on the current page
+    added: string[];
+    moved: string[];
+    relabeled: { id: string; before: string; after: string }[];
+    edited: string[];
+    // Nodes of the version that are gone, with canvas positions
+    removed: FlowchartProjectNode[];
+    addedEdges: string[];
+    removedEdges: FlowchartProjectEdge[];
+}
+
+// Nodes keyed by ID with canvas positions (children store positions relative to their container)
+const withCanvasPositions = (nodes: FlowchartProjectNode[]) => {
+    const asNodes = nodes as unknown as Node[];
+    return new Map(nodes.map((node, index) => [node.id, { node, position: getAbsolutePosition(asNodes[index], asNodes) }]));
+};
+
+// Moves smaller than this (rounding, snapping) are not reported
+const MOVE_TOLERANCE = 1;
+
+/**
+ * Compare a page of a version with the current page; a page missing from the version counts as all new
+ */
+export const diffPages = (before: FlowchartProjectPage | undefined, after: FlowchartProjectPage): PageDiff => {
+    const beforeNodes = withCanvasPositions(before?.nodes ?? []);
+    const afterNodes = withCanvasPositions(after.nodes);
+    const diff: PageDiff = { added: [], moved: [], relabeled: [], edited: [], removed: [], addedEdges: [], removedEdges: [] };
+
+    afterNodes.forEach(({ node, position }, id) => {
+        const previous = beforeNodes.get(id);
+        if (!previous) {
+            diff.added.push(id);
+            return;
+        }
+        if (Math.abs(previous.position.x - position.x) > MOVE_TOLERANCE || Math.abs(previous.position.y - position.y) > MOVE_TOLERANCE) {
+            diff.moved.push(id);
+        }
+        if (previous.node.data.label !== node.data.label) {
+            diff.relabeled.push({ id, before: previous.node.data.label, after: node.data.label });
+        }
+        const { label: _beforeLabel, ...beforeData } = previous.node.data;
+        const { label: _afterLabel, ...afterData } = node.data;
+        if (previous.node.type !== node.type || JSON.stringify(beforeData) !== JSON.stringify(afterData)) {
+            diff.edited.push(id);
+        }
+    });
+
+    beforeNodes.forEach(({ node, position }, id) => {
+        if (afterNodes.has(id)) return;
+        const { parentId: _parentId, ...rest } = node;
+        diff.removed.push({ ...rest, position });
+    });
+
+    // Edges are matched by their ends and handles, so a re-created connection is not reported
+    const getEdgeKey = (edge: FlowchartProjectEdge) => `${edge.source}|${edge.sourceHandle ?? ''}|${edge.target}|${edge.targetHandle ?? ''}`;
+    const beforeEdges = new Set((before?.edges ?? []).map(getEdgeKey));
+    const afterEdges = new Set(after.edges.map(getEdgeKey));
+    diff.addedEdges = after.edges.filter(edge => !beforeEdges.has(getEdgeKey(edge))).map(edge => edge.id);
+    diff.removedEdges = (before?.edges ?? []).filter(edge => !afterEdges.has(getEdgeKey(edge)));
+
+    return diff;
+};
+
+export const countPageChanges = (diff: PageDiff) =>
+    diff.added.length + diff.removed.length + diff.moved.length + diff.relabeled.length + diff.edited.length
+    + diff.addedEdges.length + diff.removedEdges.length;